@@ -0,0 +1,80 @@
+// Runs the TestEZ specs compiled into out/ under luau-web, outside of Roblox.
+// Usage: npm test (compiles first), or node scripts/test.mjs [filter] after rbxtsc.
+// The luau-web heap cannot grow, so every spec file runs in a process of its own
+import { spawnSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { LuauState } from "luau-web";
+
+const scriptPath = fileURLToPath(import.meta.url);
+const root = path.resolve(path.dirname(scriptPath), "..");
+const environmentPath = path.join(root, "scripts", "testEnvironment.luau");
+
+function findSpecs(directory) {
+	return fs
+		.readdirSync(directory, { withFileTypes: true })
+		.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+		.flatMap((entry) => {
+			const file = path.join(directory, entry.name);
+			if (entry.isDirectory()) return findSpecs(file);
+			return /\.spec\.luau?$/.test(entry.name) ? [file] : [];
+		});
+}
+
+/**
+ * Run a single compiled spec file, returning its failure count
+ */
+async function runSpec(spec) {
+	let failureCount;
+	const state = await LuauState.createAsync({
+		print: (...values) => console.log(values.map(String).join("\t")),
+		__root: root,
+		__spec: spec,
+		__load: (source, chunkName) => state.loadstring(source, chunkName, true),
+		__readFile: (file) => (fs.existsSync(file) && fs.statSync(file).isFile() ? fs.readFileSync(file, "utf8") : undefined),
+		__isDirectory: (file) => fs.existsSync(file) && fs.statSync(file).isDirectory(),
+		// newline separated, sorted so specs always run in the same order
+		__listDirectory: (directory) => fs.readdirSync(directory).sort().join("\n"),
+		__report: (failures) => {
+			failureCount = failures;
+		},
+	});
+
+	try {
+		await state.loadstring(fs.readFileSync(environmentPath, "utf8"), "testEnvironment", true)();
+	} catch (err) {
+		console.error(err instanceof Error ? err.message : err);
+		return 1;
+	}
+	if (failureCount === undefined) {
+		console.error(`${path.relative(root, spec)} did not report a result`);
+		return 1;
+	}
+	return failureCount;
+}
+
+if (process.argv[2] === "--spec") {
+	process.exit((await runSpec(process.argv[3])) > 0 ? 1 : 0);
+}
+
+const filter = process.argv[2];
+const specs = findSpecs(path.join(root, "out")).filter((spec) => !filter || spec.includes(filter));
+if (specs.length === 0) {
+	console.error("No spec files found");
+	process.exit(1);
+}
+
+const failed = [];
+for (const spec of specs) {
+	const result = spawnSync(process.execPath, [scriptPath, "--spec", spec], { stdio: "inherit" });
+	if (result.status !== 0) {
+		failed.push(path.relative(root, spec));
+	}
+}
+
+console.log(`\n${specs.length - failed.length} of ${specs.length} spec files passed`);
+for (const spec of failed) {
+	console.error(`failed: ${spec}`);
+}
+process.exit(failed.length > 0 ? 1 : 0);
@@ -0,0 +1,104 @@
+/// <reference types="@rbxts/testez/globals" />
+import { Keyboard } from "shared/devices/Keyboard";
+import { connectKeyboard, KeyboardInput } from "./KeyboardAdapter";
+
+/**
+ * Stand-in for an RBXScriptSignal that tests fire by hand
+ */
+class FakeSignal<T extends unknown[]> {
+	private listeners = new Set<(...args: T) => void>();
+
+	Connect(listener: (...args: T) => void) {
+		this.listeners.add(listener);
+		return { Disconnect: () => this.listeners.delete(listener) };
+	}
+
+	fire(...args: T): void {
+		for (const listener of [...this.listeners]) {
+			listener(...args);
+		}
+	}
+}
+
+function createInput() {
+	const input = {
+		InputBegan: new FakeSignal<[InputObject, boolean]>(),
+		InputEnded: new FakeSignal<[InputObject, boolean]>(),
+		WindowFocused: new FakeSignal<[]>(),
+		WindowFocusReleased: new FakeSignal<[]>(),
+	};
+	const press = (keyCode: Enum.KeyCode, gameProcessed = false) =>
+		input.InputBegan.fire(keyEvent(keyCode), gameProcessed);
+	const release = (keyCode: Enum.KeyCode) => input.InputEnded.fire(keyEvent(keyCode), false);
+	return { input, source: input as unknown as KeyboardInput, press, release };
+}
+
+function keyEvent(keyCode: Enum.KeyCode): InputObject {
+	return { KeyCode: keyCode, UserInputType: Enum.UserInputType.Keyboard } as unknown as InputObject;
+}
+
+function drain(keyboard: Keyboard): string {
+	const bytes: string[] = [];
+	while (keyboard.getPendingCount() > 0) {
+		bytes.push(string.format("%02X", keyboard.readPort(0x60)));
+	}
+	return bytes.join(" ");
+}
+
+export = () => {
+	let keyboard: Keyboard;
+	beforeEach(() => {
+		keyboard = new Keyboard(() => {});
+	});
+
+	it("should send make and break codes for ordinary keys", () => {
+		const { source, press, release } = createInput();
+		connectKeyboard(keyboard, source);
+
+		press(Enum.KeyCode.A);
+		release(Enum.KeyCode.A);
+		expect(drain(keyboard)).to.equal("1E 9E");
+	});
+
+	it("should prefix extended keys with E0", () => {
+		const { source, press, release } = createInput();
+		connectKeyboard(keyboard, source);
+
+		press(Enum.KeyCode.Up);
+		release(Enum.KeyCode.Up);
+		expect(drain(keyboard)).to.equal("E0 48 E0 C8");
+	});
+
+	it("should ignore keys taken by the game and releases without a press", () => {
+		const { source, press, release } = createInput();
+		connectKeyboard(keyboard, source);
+
+		press(Enum.KeyCode.B, true);
+		release(Enum.KeyCode.B);
+		release(Enum.KeyCode.C);
+		expect(drain(keyboard)).to.equal("");
+	});
+
+	it("should release held keys when the window loses focus and ignore presses until it returns", () => {
+		const { input, source, press } = createInput();
+		connectKeyboard(keyboard, source);
+
+		press(Enum.KeyCode.LeftShift);
+		input.WindowFocusReleased.fire();
+		press(Enum.KeyCode.A);
+		expect(drain(keyboard)).to.equal("2A AA");
+
+		input.WindowFocused.fire();
+		press(Enum.KeyCode.A);
+		expect(drain(keyboard)).to.equal("1E");
+	});
+
+	it("should stop forwarding once disconnected", () => {
+		const { source, press } = createInput();
+		const disconnect = connectKeyboard(keyboard, source);
+
+		disconnect();
+		press(Enum.KeyCode.A);
+		expect(drain(keyboard)).to.equal("");
+	});
+};
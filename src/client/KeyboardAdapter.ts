@@ -0,0 +1,148 @@
+import { UserInputService } from "@rbxts/services";
+import { Keyboard } from "shared/devices/Keyboard";
+
+// Roblox key codes to scancode set 1 make codes
+const SCANCODES = new Map<Enum.KeyCode, number>([
+	[Enum.KeyCode.Escape, 0x01],
+	[Enum.KeyCode.One, 0x02],
+	[Enum.KeyCode.Two, 0x03],
+	[Enum.KeyCode.Three, 0x04],
+	[Enum.KeyCode.Four, 0x05],
+	[Enum.KeyCode.Five, 0x06],
+	[Enum.KeyCode.Six, 0x07],
+	[Enum.KeyCode.Seven, 0x08],
+	[Enum.KeyCode.Eight, 0x09],
+	[Enum.KeyCode.Nine, 0x0a],
+	[Enum.KeyCode.Zero, 0x0b],
+	[Enum.KeyCode.Minus, 0x0c],
+	[Enum.KeyCode.Equals, 0x0d],
+	[Enum.KeyCode.Backspace, 0x0e],
+	[Enum.KeyCode.Tab, 0x0f],
+	[Enum.KeyCode.Q, 0x10],
+	[Enum.KeyCode.W, 0x11],
+	[Enum.KeyCode.E, 0x12],
+	[Enum.KeyCode.R, 0x13],
+	[Enum.KeyCode.T, 0x14],
+	[Enum.KeyCode.Y, 0x15],
+	[Enum.KeyCode.U, 0x16],
+	[Enum.KeyCode.I, 0x17],
+	[Enum.KeyCode.O, 0x18],
+	[Enum.KeyCode.P, 0x19],
+	[Enum.KeyCode.LeftBracket, 0x1a],
+	[Enum.KeyCode.RightBracket, 0x1b],
+	[Enum.KeyCode.Return, 0x1c],
+	[Enum.KeyCode.LeftControl, 0x1d],
+	[Enum.KeyCode.A, 0x1e],
+	[Enum.KeyCode.S, 0x1f],
+	[Enum.KeyCode.D, 0x20],
+	[Enum.KeyCode.F, 0x21],
+	[Enum.KeyCode.G, 0x22],
+	[Enum.KeyCode.H, 0x23],
+	[Enum.KeyCode.J, 0x24],
+	[Enum.KeyCode.K, 0x25],
+	[Enum.KeyCode.L, 0x26],
+	[Enum.KeyCode.Semicolon, 0x27],
+	[Enum.KeyCode.Quote, 0x28],
+	[Enum.KeyCode.Backquote, 0x29],
+	[Enum.KeyCode.LeftShift, 0x2a],
+	[Enum.KeyCode.BackSlash, 0x2b],
+	[Enum.KeyCode.Z, 0x2c],
+	[Enum.KeyCode.X, 0x2d],
+	[Enum.KeyCode.C, 0x2e],
+	[Enum.KeyCode.V, 0x2f],
+	[Enum.KeyCode.B, 0x30],
+	[Enum.KeyCode.N, 0x31],
+	[Enum.KeyCode.M, 0x32],
+	[Enum.KeyCode.Comma, 0x33],
+	[Enum.KeyCode.Period, 0x34],
+	[Enum.KeyCode.Slash, 0x35],
+	[Enum.KeyCode.RightShift, 0x36],
+	[Enum.KeyCode.LeftAlt, 0x38],
+	[Enum.KeyCode.Space, 0x39],
+	[Enum.KeyCode.CapsLock, 0x3a],
+	[Enum.KeyCode.F1, 0x3b],
+	[Enum.KeyCode.F2, 0x3c],
+	[Enum.KeyCode.F3, 0x3d],
+	[Enum.KeyCode.F4, 0x3e],
+	[Enum.KeyCode.F5, 0x3f],
+	[Enum.KeyCode.F6, 0x40],
+	[Enum.KeyCode.F7, 0x41],
+	[Enum.KeyCode.F8, 0x42],
+	[Enum.KeyCode.F9, 0x43],
+	[Enum.KeyCode.F10, 0x44],
+	[Enum.KeyCode.F11, 0x57],
+	[Enum.KeyCode.F12, 0x58],
+]);
+
+// keys sent with the E0 prefix
+const EXTENDED_SCANCODES = new Map<Enum.KeyCode, number>([
+	[Enum.KeyCode.RightControl, 0x1d],
+	[Enum.KeyCode.RightAlt, 0x38],
+	[Enum.KeyCode.Home, 0x47],
+	[Enum.KeyCode.Up, 0x48],
+	[Enum.KeyCode.PageUp, 0x49],
+	[Enum.KeyCode.Left, 0x4b],
+	[Enum.KeyCode.Right, 0x4d],
+	[Enum.KeyCode.End, 0x4f],
+	[Enum.KeyCode.Down, 0x50],
+	[Enum.KeyCode.PageDown, 0x51],
+	[Enum.KeyCode.Insert, 0x52],
+	[Enum.KeyCode.Delete, 0x53],
+]);
+
+/**
+ * Forward UserInputService key events to the keyboard controller while the window has focus.
+ * Returns a function that disconnects the adapter
+ * @param input event source, UserInputService unless a test supplies its own signals
+ */
+export function connectKeyboard(keyboard: Keyboard, input: KeyboardInput = UserInputService): () => void {
+	let focused = true;
+	const held = new Set<Enum.KeyCode>(); // keys pressed while focused, released on focus loss
+
+	const send = (keyCode: Enum.KeyCode, pressed: boolean) => {
+		const extended = EXTENDED_SCANCODES.get(keyCode);
+		const scancode = extended ?? SCANCODES.get(keyCode);
+		if (scancode === undefined) return;
+
+		if (pressed) {
+			held.add(keyCode);
+			keyboard.keyDown(scancode, extended !== undefined);
+		} else if (held.delete(keyCode)) {
+			keyboard.keyUp(scancode, extended !== undefined);
+		}
+	};
+
+	const connections = [
+		input.InputBegan.Connect((event, gameProcessed) => {
+			// text boxes and core gui keep their keys
+			if (!focused || gameProcessed || event.UserInputType !== Enum.UserInputType.Keyboard) return;
+			send(event.KeyCode, true);
+		}),
+		input.InputEnded.Connect((event) => {
+			if (event.UserInputType !== Enum.UserInputType.Keyboard) return;
+			send(event.KeyCode, false);
+		}),
+		input.WindowFocused.Connect(() => {
+			focused = true;
+		}),
+		input.WindowFocusReleased.Connect(() => {
+			focused = false;
+			// the release events never arrive once focus is gone, so let go of everything now
+			for (const keyCode of [...held]) {
+				send(keyCode, false);
+			}
+		}),
+	];
+
+	return () => {
+		for (const connection of connections) {
+			connection.Disconnect();
+		}
+	};
+}
+
+// public types
+export type KeyboardInput = Pick<
+	UserInputService,
+	"InputBegan" | "InputEnded" | "WindowFocused" | "WindowFocusReleased"
+>;
@@ -1,17 +1,148 @@
 import React, { useState, useEffect } from "@rbxts/react";
 import { CPU } from "shared/cpu/CPU";
+import { Assembler } from "shared/cpu/Assembler";
 import { CPUState, CPUStatistics } from "shared/cpu/types";
 import { RegisterDisplay } from "./RegisterDisplay";
 import { MemoryDisplay } from "./MemoryDisplay";
 import { StatisticsDisplay } from "./StatisticsDisplay";
 import { InstructionDisplay } from "./InstructionDisplay";
 import { FlagsDisplay } from "./FlagsDisplay";
+import { ConsoleDisplay } from "./ConsoleDisplay";
+import { TextConsole } from "shared/devices/TextConsole";
+
+// flag toggle demo, assembled at 0x1000 when "Load Program" is pressed
+const DEMO_PROGRAM = `
+	MOV EAX, 0x80371342
+	MOV EBX, 0
+	MOV ECX, 0x7FFFFFFF
+	MOV EDX, 0x80000001
+	MOV ESI, 0
+
+main_loop:
+	INC ESI
+
+	; ADD operations - affects CF, OF, SF, ZF, AF, PF
+	ADD EAX, EBX
+	ADD EBX, ECX
+
+	; XOR with self - clears CF, OF; sets ZF; affects SF, PF
+	XOR EBX, EBX
+
+	; ADD immediate - affects all arithmetic flags
+	ADD EBX, 0x55
+	ADD EBX, 0xAA
+
+	; shift operations - affects CF, OF
+	SHL EAX, 1
+	SHR ECX, 1
+
+	; SUB operation - may set CF if borrow occurs
+	SUB EDX, ESI
+
+	; CMP operations - sets flags based on comparison
+	CMP ECX, EAX
+	CMP EDX, EBX
+
+	; TEST with alternating patterns - affects SF, ZF, PF; clears CF, OF
+	MOV EAX, 0x55555555
+	TEST EAX, EAX
+	MOV EAX, 0xAAAAAAAA
+	TEST EAX, EAX
+
+	; overflow testing - INC at max positive value
+	MOV EAX, 0x7FFFFFFF
+	INC EAX ; sets OF - overflow to negative
+
+	; underflow testing - DEC at min negative value
+	MOV EAX, 0x80000000
+	DEC EAX ; sets OF - underflow
+
+	; logical AND - should result in 0, set ZF
+	MOV EAX, 0x0F0F0F0F
+	MOV EBX, 0xF0F0F0F0
+	AND EAX, EBX
+
+	; logical OR - clears ZF, affects PF
+	OR EAX, EBX
+
+	; chain shifts for carry propagation
+	MOV EAX, 1
+	SHL EAX, 1
+	SHL EAX, 1
+	SHL EAX, 1
+
+	; SUB immediate - sets CF, SF if result negative
+	SUB EAX, 9
+
+	; flag manipulation instructions to toggle IF, DF
+	CLI
+	STI
+	CLD
+	STD
+
+	; PUSHF/POPF to set TF (bit 8 = 0x100)
+	PUSHF
+	POP EAX
+	MOV EBX, 0x100
+	OR EAX, EBX
+	PUSH EAX
+	POPF
+
+	; clear TF
+	PUSHF
+	POP EAX
+	MOV EBX, 0xFFFFFEFF
+	AND EAX, EBX
+	PUSH EAX
+	POPF
+
+	; carry chain operations
+	MOV EAX, 0xFFFFFFFF
+	ADD EAX, 1 ; sets CF due to overflow
+
+	; borrow operation
+	MOV EAX, 0
+	SUB EAX, 1 ; sets CF due to borrow
+
+	; SF testing
+	MOV EAX, 0x7F
+	TEST EAX, EAX ; clears SF
+	MOV EAX, 0x80000000
+	TEST EAX, EAX ; sets SF
+
+	; division for quotient testing
+	MOV EAX, 100
+	MOV ECX, 3
+	XOR EDX, EDX ; clear EDX for division
+	DIV ECX
+	TEST EAX, EAX
+
+	; boundary increment testing
+	MOV EAX, 0xFFFFFFFE
+	INC EAX ; becomes -1
+	INC EAX ; becomes 0, sets ZF
+	INC EAX ; becomes 1, clears ZF
+
+	; parity testing with different bit patterns
+	MOV EAX, 0x08040201
+	TEST EAX, EAX
+	MOV EAX, 0x10204080
+	TEST EAX, EAX
+
+	; final showcase operation
+	MOV EAX, 0x42424242
+	MOV EBX, 0x24242424
+	ADD EAX, EBX
+
+	JMP main_loop
+`;
 
 interface CPUVisualizerProps {
 	cpu: CPU;
+	console?: TextConsole;
 }
 
-export function CPUVisualizer({ cpu }: CPUVisualizerProps) {
+export function CPUVisualizer({ cpu, console }: CPUVisualizerProps) {
 	const [cpuState, setCpuState] = useState<CPUState | undefined>();
 	const [statistics, setStatistics] = useState<CPUStatistics | undefined>();
 	const [isRunning, setIsRunning] = useState(false);
@@ -49,330 +180,15 @@ export function CPUVisualizer({ cpu }: CPUVisualizerProps) {
 	};
 
 	const handleLoadProgram = () => {
-		// flag toggle demo
-		/** if you see this, the operands (0xFF or FF) for operations go from bottom to top like this:
-		 * 0xeb (32-bit JMP op)
-		 * 0x12
-		 * 0x34
-		 * 0x56
-		 * 0x78
-		 * basically the first operand is the LSB and the last operand is the MSB
-		 * the full instruction is JMP 0x78563412
-		 */
-		const program = [
-			0xb8, // MOV EAX, 0x80371342
-			0x42,
-			0x13,
-			0x37,
-			0x80,
-
-			0xbb, // MOV EBX, 0
-			0x00,
-			0x00,
-			0x00,
-			0x00,
-
-			0xb9, // MOV ECX, 0x7FFFFFFF
-			0xff,
-			0xff,
-			0xff,
-			0x7f,
-
-			0xba, // MOV EDX, 0x80000001
-			0x01,
-			0x00,
-			0x00,
-			0x80,
-
-			0xbe, // MOV ESI, 0
-			0x00,
-			0x00,
-			0x00,
-			0x00,
-
-			// loop start (address 0x1019)
-			0x46, // INC ESI
-
-			// ADD operations - affects CF, OF, SF, ZF, AF, PF
-			0x01, // ADD EAX, EBX
-			0xd8,
-
-			0x01, // ADD EBX, ECX
-			0xcb,
-
-			// XOR with self - clears CF, OF; sets ZF; affects SF, PF
-			0x31, // XOR EBX, EBX
-			0xdb,
-
-			// ADD immediate - affects all arithmetic flags
-			0x83, // ADD EBX, 0x55
-			0xc3,
-			0x55,
-
-			0x83, // ADD EBX, 0xAA
-			0xc3,
-			0xaa,
-
-			// shift operations - affects CF, OF
-			0xd1, // SHL EAX, 1
-			0xe0,
-
-			0xd1, // SHR ECX, 1
-			0xe9,
-
-			// SUB operation - may set CF if borrow occurs
-			0x29, // SUB EDX, ESI
-			0xf2,
-
-			// CMP operations - sets flags based on comparison
-			0x39, // CMP ECX, EAX
-			0xc1,
-
-			0x39, // CMP EDX, EBX
-			0xda,
-
-			// TEST with alternating patterns - affects SF, ZF, PF; clears CF, OF
-			0xb8, // MOV EAX, 0x55555555
-			0x55,
-			0x55,
-			0x55,
-			0x55,
-
-			0x85, // TEST EAX, EAX
-			0xc0,
-
-			0xb8, // MOV EAX, 0xAAAAAAAA
-			0xaa,
-			0xaa,
-			0xaa,
-			0xaa,
-
-			0x85, // TEST EAX, EAX
-			0xc0,
-
-			// overflow testing - INC at max positive value
-			0xb8, // MOV EAX, 0x7FFFFFFF
-			0xff,
-			0xff,
-			0xff,
-			0x7f,
-
-			0x40, // INC EAX (sets OF - overflow to negative)
-
-			// underflow testing - DEC at min negative value
-			0xb8, // MOV EAX, 0x80000000
-			0x00,
-			0x00,
-			0x00,
-			0x80,
-
-			0x48, // DEC EAX (sets OF - underflow)
-
-			// logical AND - should result in 0, set ZF
-			0xb8, // MOV EAX, 0x0F0F0F0F
-			0x0f,
-			0x0f,
-			0x0f,
-			0x0f,
-
-			0xbb, // MOV EBX, 0xF0F0F0F0
-			0xf0,
-			0xf0,
-			0xf0,
-			0xf0,
-
-			0x21, // AND EAX, EBX
-			0xd8,
-
-			// logical OR - clears ZF, affects PF
-			0x09, // OR EAX, EBX
-			0xd8,
-
-			// chain shifts for carry propagation
-			0xb8, // MOV EAX, 1
-			0x01,
-			0x00,
-			0x00,
-			0x00,
-
-			0xd1, // SHL EAX, 1
-			0xe0,
-
-			0xd1, // SHL EAX, 1
-			0xe0,
-
-			0xd1, // SHL EAX, 1
-			0xe0,
-
-			// SUB immediate - sets CF, SF if result negative
-			0x83, // SUB EAX, 9
-			0xe8,
-			0x09,
-
-			// Flag manipulation instructions to toggle IF, DF
-			0xfa, // CLI
-
-			0xfb, // STI
-
-			0xfc, // CLD
-
-			0xfd, // STD
+		const result = new Assembler(0x1000).assemble(DEMO_PROGRAM);
+		if (result.errors.size() > 0) {
+			for (const err of result.errors) {
+				warn(`demo program ${err.line}:${err.column}: ${err.message}`);
+			}
+			return;
+		}
 
-			// PUSHF/POPF to manipulate TF
-			0x9c, // PUSHF
-
-			0x58, // POP EAX
-
-			// Set TF bit (bit 8 = 0x100) using existing instructions
-			0xbb, // MOV EBX, 0x100
-			0x00,
-			0x01,
-			0x00,
-			0x00,
-
-			0x09, // OR EAX, EBX (set TF bit)
-			0xd8,
-
-			0x50, // PUSH EAX (push modified flags)
-
-			0x9d, // POPF (pop flags with TF set)
-
-			// Clear TF bit
-			0x9c, // PUSHF
-
-			0x58, // POP EAX
-
-			0xbb, // MOV EBX, 0xFFFFFEFF
-			0xff,
-			0xfe,
-			0xff,
-			0xff,
-
-			0x21, // AND EAX, EBX (clear TF bit)
-			0xd8,
-
-			0x50, // PUSH EAX
-
-			0x9d, // POPF (pop flags with TF cleared)
-
-			// carry chain operations
-			0xb8, // MOV EAX, 0xFFFFFFFF
-			0xff,
-			0xff,
-			0xff,
-			0xff,
-
-			0x83, // ADD EAX, 1 (sets CF due to overflow)
-			0xc0,
-			0x01,
-
-			// borrow operation
-			0xb8, // MOV EAX, 0
-			0x00,
-			0x00,
-			0x00,
-			0x00,
-
-			0x83, // SUB EAX, 1 (sets CF due to borrow)
-			0xe8,
-			0x01,
-
-			// SF testing
-			0xb8, // MOV EAX, 0x7F
-			0x7f,
-			0x00,
-			0x00,
-			0x00,
-
-			0x85, // TEST EAX, EAX (clears SF)
-			0xc0,
-
-			0xb8, // MOV EAX, 0x80000000
-			0x00,
-			0x00,
-			0x00,
-			0x80,
-
-			0x85, // TEST EAX, EAX (sets SF)
-			0xc0,
-
-			// division for quotient testing
-			0xb8, // MOV EAX, 100
-			0x64,
-			0x00,
-			0x00,
-			0x00,
-
-			0xb9, // MOV ECX, 3
-			0x03,
-			0x00,
-			0x00,
-			0x00,
-
-			0x31, // XOR EDX, EDX (clear EDX for division)
-			0xd2,
-
-			0xf7, // DIV ECX (EAX = EAX / ECX)
-			0xf1,
-
-			0x85, // TEST EAX, EAX (test quotient)
-			0xc0,
-
-			// boundary increment testing
-			0xb8, // MOV EAX, 0xFFFFFFFE
-			0xfe,
-			0xff,
-			0xff,
-			0xff,
-
-			0x40, // INC EAX (becomes -1)
-			0x40, // INC EAX (becomes 0, sets ZF)
-			0x40, // INC EAX (becomes 1, clears ZF)
-
-			// Parity testing with different bit patterns
-			0xb8, // MOV EAX, 0x08040201
-			0x01,
-			0x02,
-			0x04,
-			0x08,
-
-			0x85, // TEST EAX, EAX (affects PF)
-			0xc0,
-
-			0xb8, // MOV EAX, 0x10204080
-			0x80,
-			0x40,
-			0x20,
-			0x10,
-
-			0x85, // TEST EAX, EAX (affects PF differently)
-			0xc0,
-
-			// final showcase operation
-			0xb8, // MOV EAX, 0x42424242
-			0x42,
-			0x42,
-			0x42,
-			0x42,
-
-			0xbb, // MOV EBX, 0x24242424
-			0x24,
-			0x24,
-			0x24,
-			0x24,
-
-			0x01, // ADD EAX, EBX
-			0xd8,
-
-			// unconditional jump back to loop start
-			0xe9, // JMP 0xFFFFFF30 (0x1019)
-			0x30,
-			0xff,
-			0xff,
-			0xff,
-		];
-
-		cpu.loadProgram(program, 0x1000);
+		cpu.loadProgram(result.bytes, 0x1000);
 	};
 
 	if (!cpuState || !statistics) {
@@ -508,7 +324,7 @@ export function CPUVisualizer({ cpu }: CPUVisualizerProps) {
 					<FlagsDisplay flags={cpuState.flags} />
 				</frame>
 
-				{/* Middle Panel - Instruction Display */}
+				{/* Middle Panel - Instruction Display and Console */}
 				<frame
 					key="MiddlePanel"
 					Size={new UDim2(0.4, -10, 1, 0)}
@@ -516,11 +332,24 @@ export function CPUVisualizer({ cpu }: CPUVisualizerProps) {
 					BackgroundColor3={new Color3(0.15, 0.15, 0.15)}
 				>
 					<uicorner CornerRadius={new UDim(0, 5)} />
-					<InstructionDisplay
-						cpu={cpu}
-						currentAddress={cpuState.instructionPointer.EIP}
-						isHalted={cpuState.halted}
-					/>
+					<frame key="Instructions" Size={UDim2.fromScale(1, console ? 0.45 : 1)} BackgroundTransparency={1}>
+						<InstructionDisplay
+							cpu={cpu}
+							currentAddress={cpuState.instructionPointer.EIP}
+							isHalted={cpuState.halted}
+						/>
+					</frame>
+
+					{console && (
+						<frame
+							key="Console"
+							Size={UDim2.fromScale(1, 0.55)}
+							Position={UDim2.fromScale(0, 0.45)}
+							BackgroundTransparency={1}
+						>
+							<ConsoleDisplay console={console} revision={console.getRevision()} />
+						</frame>
+					)}
 				</frame>
 
 				{/* Right Panel - Memory and Statistics */}
@@ -0,0 +1,122 @@
+import React, { useMemo } from "@rbxts/react";
+import { TextConsole } from "shared/devices/TextConsole";
+
+// standard 16-colour text mode palette, indexed by the attribute nibbles
+const PALETTE = [
+	"#000000",
+	"#0000AA",
+	"#00AA00",
+	"#00AAAA",
+	"#AA0000",
+	"#AA00AA",
+	"#AA5500",
+	"#AAAAAA",
+	"#555555",
+	"#5555FF",
+	"#55FF55",
+	"#55FFFF",
+	"#FF5555",
+	"#FF55FF",
+	"#FFFF55",
+	"#FFFFFF",
+];
+
+interface ConsoleDisplayProps {
+	console: TextConsole;
+	revision: number;
+}
+
+export function ConsoleDisplay({ console, revision }: ConsoleDisplayProps) {
+	// the framebuffer is mutated in place, so the revision counter drives recomputation
+	const lines = useMemo(() => {
+		const [cursorColumn, cursorRow] = console.getCursorPosition();
+		const cursorVisible = console.isCursorVisible();
+		const result: string[] = [];
+
+		for (let row = 0; row < TextConsole.ROWS; row++) {
+			// group cells with the same attribute into one rich text run
+			const runs: string[] = [];
+			let runAttribute = -1;
+			let runText = "";
+
+			for (let column = 0; column < TextConsole.COLUMNS; column++) {
+				const [char, attribute] = console.getCell(column, row);
+				let text = escapeCharacter(char);
+				if (cursorVisible && column === cursorColumn && row === cursorRow) {
+					text = `<u>${text}</u>`;
+				}
+
+				if (attribute !== runAttribute && runText !== "") {
+					runs.push(formatRun(runText, runAttribute));
+					runText = "";
+				}
+				runAttribute = attribute;
+				runText += text;
+			}
+			runs.push(formatRun(runText, runAttribute));
+
+			result.push(runs.join(""));
+		}
+
+		return result;
+	}, [console, revision]);
+
+	return (
+		<frame Size={UDim2.fromScale(1, 1)} BackgroundTransparency={1}>
+			<uipadding
+				PaddingLeft={new UDim(0, 10)}
+				PaddingRight={new UDim(0, 10)}
+				PaddingTop={new UDim(0, 10)}
+				PaddingBottom={new UDim(0, 10)}
+			/>
+
+			<textlabel
+				Text="Text Console (0xB8000)"
+				Size={new UDim2(1, 0, 0, 25)}
+				TextColor3={new Color3(1, 1, 1)}
+				BackgroundTransparency={1}
+				Font={Enum.Font.SourceSansBold}
+				TextXAlignment={Enum.TextXAlignment.Left}
+			/>
+
+			<frame
+				Size={new UDim2(1, 0, 1, -30)}
+				Position={new UDim2(0, 0, 0, 30)}
+				BackgroundColor3={new Color3(0, 0, 0)}
+				BorderSizePixel={0}
+			>
+				<uilistlayout SortOrder={Enum.SortOrder.LayoutOrder} />
+
+				{lines.map((line, row) => (
+					<textlabel
+						key={tostring(row)}
+						LayoutOrder={row}
+						Text={line}
+						RichText={true}
+						Size={new UDim2(1, 0, 1 / TextConsole.ROWS, 0)}
+						TextScaled={true}
+						BackgroundTransparency={1}
+						TextXAlignment={Enum.TextXAlignment.Left}
+						Font={Enum.Font.Code}
+					/>
+				))}
+			</frame>
+		</frame>
+	);
+}
+
+function escapeCharacter(char: number): string {
+	if (char === 0x3c) return "&lt;";
+	if (char === 0x3e) return "&gt;";
+	if (char === 0x26) return "&amp;";
+	if (char === 0x22) return "&quot;";
+	if (char === 0x27) return "&apos;";
+	return char > 0x20 && char < 0x7f ? string.char(char) : " ";
+}
+
+function formatRun(text: string, attribute: number): string {
+	const foreground = PALETTE[attribute & 0xf];
+	const background = (attribute >> 4) & 0x7;
+	const colored = `<font color="${foreground}">${text}</font>`;
+	return background === 0 ? colored : `<mark color="${PALETTE[background]}">${colored}</mark>`;
+}
@@ -1,6 +1,6 @@
 import React, { useMemo } from "@rbxts/react";
 import { CPU } from "shared/cpu/CPU";
-import { Instruction } from "shared/cpu/types";
+import { Disassembler } from "shared/cpu/Disassembler";
 
 interface InstructionDisplayProps {
 	cpu: CPU;
@@ -9,24 +9,13 @@ interface InstructionDisplayProps {
 }
 
 export function InstructionDisplay({ cpu, currentAddress, isHalted }: InstructionDisplayProps) {
-	const instructions = useMemo(() => {
-		const instrs: Array<{ address: number; instruction: Instruction | undefined }> = [];
-		let addr = currentAddress;
+	const disassembler = useMemo(() => new Disassembler(cpu.getDecoder(), cpu.getMMU()), [cpu]);
 
-		// Get next 10 instructions
-		for (let i = 0; i < 10; i++) {
-			try {
-				const instruction = cpu.getDecoder().decodeInstruction(addr);
-				instrs.push({ address: addr, instruction });
-				addr += instruction.size;
-			} catch {
-				instrs.push({ address: addr, instruction: undefined });
-				addr += 1;
-			}
-		}
-
-		return instrs;
-	}, [cpu, currentAddress]);
+	// Get next 10 instructions
+	const instructions = useMemo(
+		() => disassembler.disassembleInstructions(currentAddress, 10),
+		[disassembler, currentAddress],
+	);
 
 	return (
 		<frame Size={UDim2.fromScale(1, 1)} BackgroundTransparency={1}>
@@ -48,7 +37,7 @@ export function InstructionDisplay({ cpu, currentAddress, isHalted }: Instructio
 
 			{isHalted && (
 				<textlabel
-					Text="[CPU HALTED]"
+					Text={cpu.isShutdown() ? "[CPU SHUTDOWN - TRIPLE FAULT]" : "[CPU HALTED]"}
 					Size={new UDim2(1, 0, 0, 20)}
 					Position={new UDim2(0, 0, 0, 30)}
 					TextColor3={new Color3(1, 0, 0)}
@@ -68,11 +57,9 @@ export function InstructionDisplay({ cpu, currentAddress, isHalted }: Instructio
 			>
 				<uilistlayout Padding={new UDim(0, 2)} SortOrder={Enum.SortOrder.LayoutOrder} />
 
-				{instructions.map(({ address, instruction }, index) => {
+				{instructions.map(({ address, text: disassembly }, index) => {
 					const isCurrent = index === 0;
-					const text = instruction
-						? `${string.format("0x%04X", address)}: ${instruction.mnemonic} ${formatOperands(instruction)}`
-						: `${string.format("0x%04X", address)}: ???`;
+					const text = `${string.format("0x%04X", address)}: ${disassembly}`;
 
 					return (
 						<frame
@@ -110,17 +97,3 @@ export function InstructionDisplay({ cpu, currentAddress, isHalted }: Instructio
 		</frame>
 	);
 }
-
-function formatOperands(instruction: Instruction): string {
-	return instruction.operands
-		.map((operand) => {
-			if (operand.register !== undefined) {
-				if (operand.displacement !== undefined) {
-					return `[${operand.register}+${string.format("0x%X", operand.displacement)}]`;
-				}
-				return operand.type === 3 ? `[${operand.register}]` : operand.register;
-			}
-			return string.format("0x%X", operand.value);
-		})
-		.join(", ");
-}
@@ -2,7 +2,28 @@ import React from "@rbxts/react";
 import { createRoot } from "@rbxts/react-roblox";
 import { Players } from "@rbxts/services";
 import { CPU } from "shared/cpu/CPU";
+import { Assembler } from "shared/cpu/Assembler";
+import { PIT } from "shared/devices/PIT";
+import { PIC } from "shared/devices/PIC";
+import { TextConsole } from "shared/devices/TextConsole";
+import { Keyboard } from "shared/devices/Keyboard";
+import { ATADisk } from "shared/devices/ATADisk";
+import { DOSServices } from "shared/hle/DOSServices";
+import { DiskImageBuilder } from "shared/fs/DiskImageBuilder";
+import { BIOS } from "shared/firmware/BIOS";
 import { CPUVisualizer } from "./components/CPUVisualizer";
+import { connectKeyboard } from "./KeyboardAdapter";
+
+// boot sector of the default disk, loaded at 0x7C00 by the BIOS
+const BOOT_SECTOR = `
+	MOV EDX, banner
+	MOV EAX, 0x0900
+	INT 0x21
+	MOV EAX, 0x4C00
+	INT 0x21
+banner:
+	DB "Ro-OS booted from disk", 13, 10, "$"
+`;
 
 const player = Players.LocalPlayer;
 const playerGui = player.WaitForChild("PlayerGui") as PlayerGui;
@@ -15,7 +36,47 @@ screenGui.IgnoreGuiInset = true;
 
 const cpu = new CPU(65536);
 
+// interrupt controller pair arbitrating every IRQ line
+const pic = new PIC();
+cpu.attachInterruptController(pic);
+cpu.getIOBus().register(pic, PIC.MASTER_COMMAND_PORT, PIC.MASTER_DATA_PORT, "PIC master");
+cpu.getIOBus().register(pic, PIC.SLAVE_COMMAND_PORT, PIC.SLAVE_DATA_PORT, "PIC slave");
+
+// the timer stays idle until the guest programs it
+const pit = new PIT((line) => cpu.raiseIRQ(line));
+cpu.attachDevice(pit);
+cpu.getIOBus().register(pit, PIT.CHANNEL_0_PORT, PIT.COMMAND_PORT, "PIT");
+
+// text mode framebuffer plus the CRTC cursor registers
+const textConsole = new TextConsole();
+cpu.getMMU().mapDevice(textConsole, TextConsole.FRAMEBUFFER_BASE, TextConsole.FRAMEBUFFER_SIZE, "Console");
+cpu.getIOBus().register(textConsole, TextConsole.CRTC_INDEX_PORT, TextConsole.CRTC_DATA_PORT, "Console CRTC");
+
+// PS/2 keyboard fed from UserInputService
+const keyboard = new Keyboard((line) => cpu.raiseIRQ(line));
+cpu.getIOBus().register(keyboard, Keyboard.DATA_PORT, Keyboard.DATA_PORT, "Keyboard");
+cpu.getIOBus().register(keyboard, Keyboard.STATUS_PORT, Keyboard.STATUS_PORT, "Keyboard");
+connectKeyboard(keyboard);
+
+// 2 MiB RoFS disk on the primary ATA channel
+const bootSector = new Assembler(BIOS.BOOT_ADDRESS).assemble(BOOT_SECTOR);
+if (bootSector.errors.size() > 0) {
+	const first = bootSector.errors[0];
+	throw `Boot sector assembly failed at ${first.line}:${first.column}: ${first.message}`;
+}
+const image = new DiskImageBuilder(4096).setBootSector(bootSector.bytes).build();
+const disk = new ATADisk(image, (line) => cpu.raiseIRQ(line));
+cpu.getIOBus().register(disk, ATADisk.DATA_PORT, ATADisk.STATUS_PORT, "ATA disk");
+
+// INT 21h services so small programs can print and read keys without a kernel
+const dos = new DOSServices(textConsole, keyboard);
+dos.install(cpu);
+
+// firmware at the reset vector boots the disk
+const bios = new BIOS(disk.getStore(), textConsole);
+bios.install(cpu);
+
 const root = createRoot(screenGui);
-root.render(React.createElement(CPUVisualizer, { cpu: cpu }));
+root.render(React.createElement(CPUVisualizer, { cpu: cpu, console: textConsole }));
 
 print("initialized the ui!");
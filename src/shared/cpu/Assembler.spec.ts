@@ -0,0 +1,146 @@
+/// <reference types="@rbxts/testez/globals" />
+import { Assembler } from "./Assembler";
+import { CPU } from "./CPU";
+
+function hex(bytes: number[]): string {
+	return bytes.map((byte) => string.format("%02X", byte)).join(" ");
+}
+
+function assemble(source: string, origin?: number): number[] {
+	const result = new Assembler(origin).assemble(source);
+	if (result.errors.size() > 0) {
+		const first = result.errors[0];
+		throw `${first.line}:${first.column}: ${first.message}`;
+	}
+	return result.bytes;
+}
+
+function encode(source: string): string {
+	return hex(assemble(source));
+}
+
+/**
+ * Assemble a program, run it until HLT and return the CPU; faults are rethrown
+ */
+function run(source: string, origin: number = 0x1000): CPU {
+	const bytes = assemble(source, origin);
+
+	const cpu = new CPU(65536);
+	cpu.loadProgram(bytes, origin);
+	cpu.setInstructionPointer(origin);
+	cpu.setRegister("ESP", 0x8000);
+	for (let i = 0; i < 1000 && !cpu.isHalted(); i++) {
+		cpu.step();
+	}
+	const fault = cpu.getLastFault();
+	if (fault !== undefined) throw fault.toString();
+	return cpu;
+}
+
+export = () => {
+	describe("encoding", () => {
+		it("should encode register, immediate and ALU forms", () => {
+			expect(encode("MOV EAX, 5")).to.equal("B8 05 00 00 00");
+			expect(encode("MOV CL, 0x7F")).to.equal("B1 7F");
+			expect(encode("ADD EAX, EBX")).to.equal("01 D8");
+			expect(encode("SUB ECX, 4")).to.equal("83 E9 04");
+			expect(encode("CMP EAX, 0x1000")).to.equal("3D 00 10 00 00");
+		});
+
+		it("should encode MOV between registers and memory in both directions", () => {
+			expect(encode("MOV [EBX+8], EAX")).to.equal("89 43 08");
+			expect(encode("MOV EAX, [EBX+8]")).to.equal("8B 43 08");
+			expect(encode("MOV CL, [ESI]")).to.equal("8A 0E");
+			expect(encode("MOV DX, [0x2000]")).to.equal("66 8B 15 00 20 00 00");
+		});
+
+		it("should encode MOV of an immediate to memory with an explicit size", () => {
+			expect(encode("MOV DWORD PTR [EBP-4], 7")).to.equal("C7 45 FC 07 00 00 00");
+			expect(encode("MOV BYTE PTR [EDI], 0x41")).to.equal("C6 07 41");
+			expect(encode("MOV WORD PTR [EAX], 0x1234")).to.equal("66 C7 00 34 12");
+		});
+
+		it("should encode ADC and SBB", () => {
+			expect(encode("ADC EDX, ECX")).to.equal("11 CA");
+			expect(encode("SBB EAX, 1")).to.equal("83 D8 01");
+		});
+
+		it("should resolve forward and backward labels", () => {
+			expect(encode("start: JMP end\nNOP\nend: JMP start")).to.equal("E9 01 00 00 00 90 E9 F5 FF FF FF");
+		});
+	});
+
+	describe("errors", () => {
+		it("should report the line and column of a bad statement", () => {
+			const result = new Assembler().assemble("NOP\n  BAD EAX");
+			expect(result.errors.size()).to.equal(1);
+			expect(result.errors[0].line).to.equal(2);
+			expect(result.errors[0].column).to.equal(3);
+		});
+
+		it("should reject memory operands without a size", () => {
+			expect(() => encode("MOV [EAX], 1")).to.throw("Operand size not specified");
+		});
+
+		it("should reject memory to memory moves", () => {
+			expect(() => encode("MOV DWORD PTR [EAX], [EBX]")).to.throw("Expected a register");
+		});
+	});
+
+	describe("execution", () => {
+		it("should load globals and array elements from memory", () => {
+			const cpu = run(`
+				MOV ESI, table
+				MOV ECX, 4
+				MOV EAX, 0
+			sum:
+				ADD EAX, [ESI+ECX*4-4]
+				DEC ECX
+				JNZ sum
+				MOV [total], EAX
+				MOV EBX, [total]
+				HLT
+			table:
+				DD 1, 2, 3, 4
+			total:
+				DD 0
+			`);
+			expect(cpu.getRegister("EBX")).to.equal(10);
+		});
+
+		it("should keep locals in the stack frame", () => {
+			const cpu = run(`
+				PUSH EBP
+				MOV EBP, ESP
+				SUB ESP, 8
+				MOV DWORD PTR [EBP-4], 20
+				MOV DWORD PTR [EBP-8], 22
+				MOV EAX, [EBP-4]
+				ADD EAX, [EBP-8]
+				MOV ESP, EBP
+				POP EBP
+				HLT
+			`);
+			expect(cpu.getRegister("EAX")).to.equal(42);
+			expect(cpu.getRegister("ESP")).to.equal(0x8000);
+		});
+
+		it("should carry between the words of a 64-bit add and subtract", () => {
+			const cpu = run(`
+				MOV EAX, 0xFFFFFFFF
+				MOV EDX, 1
+				ADD EAX, 1
+				ADC EDX, 0
+				MOV EBX, 0
+				MOV ECX, 3
+				SUB EBX, 1
+				SBB ECX, 0
+				HLT
+			`);
+			expect(cpu.getRegister("EAX")).to.equal(0);
+			expect(cpu.getRegister("EDX")).to.equal(2);
+			expect(cpu.getRegister("EBX")).to.equal(0xffffffff);
+			expect(cpu.getRegister("ECX")).to.equal(2);
+		});
+	});
+};
@@ -0,0 +1,1379 @@
+import { DWord } from "./types";
+
+/**
+ * Assembler
+ * Translates Intel-syntax assembly source into machine code for CPU.loadProgram
+ */
+export class Assembler {
+	// condition codes shared by the Jcc family (low nibble of the opcode)
+	private static readonly CONDITION_CODES = new Map<string, number>([
+		["JO", 0x0],
+		["JNO", 0x1],
+		["JB", 0x2],
+		["JC", 0x2],
+		["JNAE", 0x2],
+		["JAE", 0x3],
+		["JNB", 0x3],
+		["JNC", 0x3],
+		["JE", 0x4],
+		["JZ", 0x4],
+		["JNE", 0x5],
+		["JNZ", 0x5],
+		["JBE", 0x6],
+		["JNA", 0x6],
+		["JA", 0x7],
+		["JNBE", 0x7],
+		["JS", 0x8],
+		["JNS", 0x9],
+		["JP", 0xa],
+		["JPE", 0xa],
+		["JNP", 0xb],
+		["JPO", 0xb],
+		["JL", 0xc],
+		["JNGE", 0xc],
+		["JGE", 0xd],
+		["JNL", 0xd],
+		["JLE", 0xe],
+		["JNG", 0xe],
+		["JG", 0xf],
+		["JNLE", 0xf],
+	]);
+
+	// register/memory ALU forms, indexed by mnemonic
+	private static readonly ALU_OPCODES = new Map<string, AluEncoding>([
+		["ADD", { rm8: 0x00, rm32: 0x01, reg32: 0x03, group: 0 }],
+		["OR", { rm8: 0x08, rm32: 0x09, group: 1 }],
+		["ADC", { rm8: 0x10, rm32: 0x11, group: 2 }],
+		["SBB", { rm8: 0x18, rm32: 0x19, group: 3 }],
+		["AND", { rm8: 0x20, rm32: 0x21, eaxImm32: 0x25, group: 4 }],
+		["SUB", { rm8: 0x28, rm32: 0x29, group: 5 }],
+		["XOR", { rm8: 0x30, rm32: 0x31, eaxImm32: 0x35, group: 6 }],
+		["CMP", { rm8: 0x38, rm32: 0x39, eaxImm32: 0x3d, group: 7 }],
+	]);
+
+	// group 3 (0xF7) operations taking a single r/m32 operand
+	private static readonly GROUP3_OPERATIONS = new Map<string, number>([
+		["NOT", 2],
+		["NEG", 3],
+		["MUL", 4],
+		["DIV", 6],
+		["IDIV", 7],
+	]);
+
+	// string instructions: opcode and element size
+	private static readonly STRING_OPCODES = new Map<string, [number, number]>([
+		["MOVSB", [0xa4, 1]],
+		["MOVSW", [0xa5, 2]],
+		["MOVSD", [0xa5, 4]],
+		["CMPSB", [0xa6, 1]],
+		["CMPSW", [0xa7, 2]],
+		["CMPSD", [0xa7, 4]],
+		["STOSB", [0xaa, 1]],
+		["STOSW", [0xab, 2]],
+		["STOSD", [0xab, 4]],
+		["LODSB", [0xac, 1]],
+		["LODSW", [0xad, 2]],
+		["LODSD", [0xad, 4]],
+		["SCASB", [0xae, 1]],
+		["SCASW", [0xaf, 2]],
+		["SCASD", [0xaf, 4]],
+	]);
+
+	// repeat prefixes written in front of a string instruction
+	private static readonly REPEAT_PREFIXES = new Map<string, number>([
+		["REP", 0xf3],
+		["REPE", 0xf3],
+		["REPZ", 0xf3],
+		["REPNE", 0xf2],
+		["REPNZ", 0xf2],
+	]);
+
+	// single-byte instructions without operands
+	private static readonly IMPLIED_OPCODES = new Map<string, number[]>([
+		["NOP", [0x90]],
+		["HLT", [0xf4]],
+		["RET", [0xc3]],
+		["PUSHF", [0x9c]],
+		["POPF", [0x9d]],
+		["CLD", [0xfc]],
+		["STD", [0xfd]],
+		["CLI", [0xfa]],
+		["STI", [0xfb]],
+		["INT3", [0xcc]],
+		["INTO", [0xce]],
+		["IRET", [0xcf]],
+		["RDTSC", [0x0f, 0x31]],
+	]);
+
+	private origin: DWord;
+
+	constructor(origin: DWord = 0) {
+		this.origin = origin;
+	}
+
+	/**
+	 * Assemble source text into machine code
+	 */
+	assemble(source: string, origin: DWord = this.origin): AssemblyResult {
+		const errors: AssemblyError[] = [];
+		const statements: Statement[] = [];
+
+		// parse every line up front so syntax errors are reported once
+		const lines = source.split("\n");
+		for (let i = 0; i < lines.size(); i++) {
+			const statement = this.tryParse(lines[i], i + 1, errors);
+			if (statement) {
+				statements.push(statement);
+			}
+		}
+
+		// first pass: assign addresses to labels, encoding with placeholder values
+		const labels = new Map<string, number>();
+		let address = origin;
+		for (const statement of statements) {
+			if (statement.label !== undefined) {
+				if (labels.has(statement.label)) {
+					errors.push({
+						line: statement.line,
+						column: statement.labelColumn,
+						message: `Duplicate label '${statement.label}'`,
+					});
+				} else {
+					labels.set(statement.label, address);
+				}
+			}
+
+			statement.address = address;
+			const encoded = this.tryEncode(statement, address, undefined, undefined);
+			address += encoded ? encoded.size() : 0;
+		}
+
+		// second pass: encode for real now that every label is known
+		const bytes: number[] = [];
+		const byteLines: number[] = [];
+		for (const statement of statements) {
+			const encoded = this.tryEncode(statement, statement.address, labels, errors);
+			if (encoded) {
+				for (const byte of encoded) {
+					bytes.push(byte);
+					byteLines.push(statement.line);
+				}
+			}
+		}
+
+		return { bytes, lines: byteLines, labels, errors };
+	}
+
+	/**
+	 * Parse a line, recording any error instead of throwing it
+	 */
+	private tryParse(text: string, line: number, errors: AssemblyError[]): Statement | undefined {
+		let statement: Statement | undefined;
+		let failure: SourceError | undefined;
+
+		try {
+			statement = this.parseLine(text, line);
+		} catch (err) {
+			if (!(err instanceof SourceError)) throw err;
+			failure = err;
+		}
+
+		if (failure) {
+			errors.push({ line, column: failure.column, message: failure.message });
+		}
+		return statement;
+	}
+
+	/**
+	 * Encode a statement, recording any error instead of throwing it
+	 */
+	private tryEncode(
+		statement: Statement,
+		address: DWord,
+		labels: Map<string, number> | undefined,
+		errors: AssemblyError[] | undefined,
+	): number[] | undefined {
+		let encoded: number[] | undefined;
+		let failure: SourceError | undefined;
+
+		try {
+			encoded = this.encodeStatement(statement, address, labels);
+		} catch (err) {
+			if (!(err instanceof SourceError)) throw err;
+			failure = err;
+		}
+
+		if (failure && errors) {
+			errors.push({ line: statement.line, column: failure.column, message: failure.message });
+		}
+		return encoded;
+	}
+
+	/**
+	 * Split a line into tokens
+	 */
+	private tokenize(text: string): Token[] {
+		const tokens: Token[] = [];
+		const length = text.size();
+		let i = 1;
+
+		while (i <= length) {
+			const [char] = string.byte(text, i);
+
+			if (char === CHAR_SPACE || char === CHAR_TAB || char === CHAR_CR) {
+				i++;
+			} else if (char === CHAR_SEMICOLON) {
+				// rest of the line is a comment
+				break;
+			} else if (char === CHAR_DOUBLE_QUOTE || char === CHAR_SINGLE_QUOTE) {
+				let j = i + 1;
+				while (j <= length && string.byte(text, j)[0] !== char) {
+					j++;
+				}
+				if (j > length) {
+					throw new SourceError(i, "Unterminated string literal");
+				}
+				tokens.push({ kind: "string", text: text.sub(i + 1, j - 1), column: i });
+				i = j + 1;
+			} else if (isIdentifierStart(char)) {
+				let j = i;
+				while (j <= length && isIdentifierPart(string.byte(text, j)[0])) {
+					j++;
+				}
+				tokens.push({ kind: "identifier", text: text.sub(i, j - 1), column: i });
+				i = j;
+			} else if (isDigit(char)) {
+				let j = i;
+				while (j <= length && isIdentifierPart(string.byte(text, j)[0])) {
+					j++;
+				}
+				tokens.push({ kind: "number", text: text.sub(i, j - 1), column: i });
+				i = j;
+			} else if (SYMBOLS.includes(char)) {
+				tokens.push({ kind: "symbol", text: string.char(char), column: i });
+				i++;
+			} else {
+				throw new SourceError(i, `Unexpected character '${string.char(char)}'`);
+			}
+		}
+
+		return tokens;
+	}
+
+	/**
+	 * Parse a single source line into a statement
+	 */
+	private parseLine(text: string, line: number): Statement | undefined {
+		const tokens = this.tokenize(text);
+		if (tokens.size() === 0) {
+			return undefined;
+		}
+
+		const statement: Statement = {
+			line,
+			labelColumn: 1,
+			mnemonicColumn: 1,
+			operands: [],
+			address: 0,
+		};
+
+		let index = 0;
+
+		// "name:" label, or a bare name in front of a data directive ("msg db 'hi'")
+		const first = tokens[0];
+		const second = tokens[1];
+		if (first.kind === "identifier" && second !== undefined) {
+			const isColonLabel = second.kind === "symbol" && second.text === ":";
+			const directive = second.text.upper();
+			const isDataLabel =
+				second.kind === "identifier" && (DATA_DIRECTIVES.has(directive) || directive === "RESB");
+			if (isColonLabel || isDataLabel) {
+				statement.label = first.text;
+				statement.labelColumn = first.column;
+				index = isColonLabel ? 2 : 1;
+			}
+		}
+
+		if (index >= tokens.size()) {
+			return statement;
+		}
+
+		const mnemonicToken = tokens[index];
+		if (mnemonicToken.kind !== "identifier") {
+			throw new SourceError(mnemonicToken.column, `Expected an instruction, found '${mnemonicToken.text}'`);
+		}
+		statement.mnemonic = mnemonicToken.text.upper();
+		statement.mnemonicColumn = mnemonicToken.column;
+		index++;
+
+		// "REP MOVSB": the prefix is kept aside and the instruction follows
+		const prefix = Assembler.REPEAT_PREFIXES.get(statement.mnemonic);
+		if (prefix !== undefined) {
+			const instructionToken = tokens[index];
+			if (instructionToken === undefined || instructionToken.kind !== "identifier") {
+				throw new SourceError(mnemonicToken.column, `${statement.mnemonic} must be followed by an instruction`);
+			}
+			statement.repeat = prefix;
+			statement.mnemonic = instructionToken.text.upper();
+			statement.mnemonicColumn = instructionToken.column;
+			index++;
+		}
+
+		// split the remaining tokens on top-level commas
+		let current: Token[] = [];
+		let depth = 0;
+		for (let i = index; i < tokens.size(); i++) {
+			const token = tokens[i];
+			if (token.kind === "symbol" && token.text === "[") depth++;
+			if (token.kind === "symbol" && token.text === "]") depth--;
+
+			if (token.kind === "symbol" && token.text === "," && depth === 0) {
+				statement.operands.push(this.parseOperand(current, token.column));
+				current = [];
+			} else {
+				current.push(token);
+			}
+		}
+		if (current.size() > 0 || statement.operands.size() > 0) {
+			statement.operands.push(this.parseOperand(current, tokens[tokens.size() - 1].column));
+		}
+
+		return statement;
+	}
+
+	/**
+	 * Parse one operand (register, immediate expression or memory reference)
+	 */
+	private parseOperand(tokens: Token[], fallbackColumn: number): ParsedOperand {
+		if (tokens.size() === 0) {
+			throw new SourceError(fallbackColumn, "Missing operand");
+		}
+
+		const column = tokens[0].column;
+		let index = 0;
+		let size: number | undefined;
+		let short = false;
+		let near = false;
+
+		// size override ("DWORD PTR [EBX]") and jump distance ("SHORT label", "NEAR label")
+		const keyword = tokens[0].kind === "identifier" ? tokens[0].text.upper() : "";
+		if (SIZE_KEYWORDS.has(keyword)) {
+			size = SIZE_KEYWORDS.get(keyword);
+			index++;
+			if (tokens[index] !== undefined && tokens[index].text.upper() === "PTR") {
+				index++;
+			}
+		} else if (keyword === "SHORT") {
+			short = true;
+			index++;
+		} else if (keyword === "NEAR") {
+			near = true;
+			index++;
+		}
+
+		const rest: Token[] = [];
+		for (let i = index; i < tokens.size(); i++) {
+			rest.push(tokens[i]);
+		}
+		if (rest.size() === 0) {
+			throw new SourceError(column, "Missing operand after size specifier");
+		}
+
+		// memory reference
+		if (rest[0].kind === "symbol" && rest[0].text === "[") {
+			const last = rest[rest.size() - 1];
+			if (last.kind !== "symbol" || last.text !== "]") {
+				throw new SourceError(last.column, "Expected ']' to close memory operand");
+			}
+
+			const inner: Token[] = [];
+			for (let i = 1; i < rest.size() - 1; i++) {
+				inner.push(rest[i]);
+			}
+			return this.parseMemory(inner, column, size);
+		}
+
+		// string literal, only a single character is usable as an immediate
+		if (rest.size() === 1 && rest[0].kind === "string") {
+			const text = rest[0].text;
+			const value = text.size() === 1 ? this.parseExpression(rest) : undefined;
+			return { kind: "immediate", column, size, value, rawString: text };
+		}
+
+		// register
+		if (rest.size() === 1 && rest[0].kind === "identifier") {
+			const register = lookupRegister(rest[0].text);
+			if (register) {
+				if (size !== undefined && size !== register.size) {
+					throw new SourceError(column, "Size specifier does not match register size");
+				}
+				return { kind: "register", column, size: register.size, register };
+			}
+
+			const controlIndex = CONTROL_REGISTERS.indexOf(rest[0].text.upper());
+			if (controlIndex !== -1 && controlIndex !== 1) {
+				return { kind: "control", column, size: 4, controlRegister: controlIndex };
+			}
+		}
+
+		// immediate or label
+		return { kind: "immediate", column, size, short, near, value: this.parseExpression(rest) };
+	}
+
+	/**
+	 * Parse the inside of a memory reference such as [EBX+8], [EBX+ECX*4] or [label]
+	 */
+	private parseMemory(tokens: Token[], column: number, size: number | undefined): ParsedOperand {
+		if (tokens.size() === 0) {
+			throw new SourceError(column, "Empty memory operand");
+		}
+
+		let base: RegisterInfo | undefined;
+		let index: RegisterInfo | undefined;
+		let scale = 1;
+		const displacement: Token[] = [];
+
+		let negative = false;
+		let expectTerm = true;
+		for (let i = 0; i < tokens.size(); i++) {
+			const token = tokens[i];
+			if (token.kind === "symbol" && (token.text === "+" || token.text === "-")) {
+				if (token.text === "-") negative = !negative;
+				expectTerm = true;
+				continue;
+			}
+			if (!expectTerm) {
+				throw new SourceError(token.column, `Unexpected '${token.text}' in memory operand`);
+			}
+
+			const register = token.kind === "identifier" ? lookupRegister(token.text) : undefined;
+			if (register) {
+				if (register.size !== 4) {
+					throw new SourceError(token.column, "Only 32-bit registers can be used for addressing");
+				}
+				if (negative) {
+					throw new SourceError(token.column, "Registers cannot be subtracted in a memory operand");
+				}
+
+				const operator = tokens[i + 1];
+				if (operator !== undefined && operator.kind === "symbol" && operator.text === "*") {
+					// scaled index register
+					const factor = tokens[i + 2];
+					const value = factor !== undefined && factor.kind === "number" ? this.parseNumber(factor) : 0;
+					if (!SCALE_BITS.has(value)) {
+						throw new SourceError((factor ?? operator).column, "Scale must be 1, 2, 4 or 8");
+					}
+					if (index) {
+						throw new SourceError(token.column, "Only a single index register is supported");
+					}
+					index = register;
+					scale = value;
+					i += 2;
+				} else if (!base) {
+					base = register;
+				} else if (!index) {
+					index = register;
+				} else {
+					throw new SourceError(token.column, "Too many registers in memory operand");
+				}
+			} else {
+				if (negative) {
+					displacement.push({ kind: "symbol", text: "-", column: token.column });
+				} else if (displacement.size() > 0) {
+					displacement.push({ kind: "symbol", text: "+", column: token.column });
+				}
+				displacement.push(token);
+			}
+
+			negative = false;
+			expectTerm = false;
+		}
+
+		if (expectTerm) {
+			throw new SourceError(tokens[tokens.size() - 1].column, "Memory operand ends with an operator");
+		}
+
+		// ESP cannot be an index, but an unscaled ESP can swap places with the base
+		if (index && index.index === 4) {
+			if (scale !== 1 || (base && base.index === 4)) {
+				throw new SourceError(column, "ESP cannot be used as an index register");
+			}
+			[base, index] = [index, base];
+		}
+
+		return {
+			kind: "memory",
+			column,
+			size,
+			base,
+			index,
+			scale: index ? scale : undefined,
+			value: displacement.size() > 0 ? this.parseExpression(displacement) : undefined,
+		};
+	}
+
+	/**
+	 * Parse an additive expression of numbers, characters and labels
+	 */
+	private parseExpression(tokens: Token[]): Expression {
+		const terms: ExpressionTerm[] = [];
+		let negative = false;
+		let expectTerm = true;
+
+		for (const token of tokens) {
+			if (token.kind === "symbol" && (token.text === "+" || token.text === "-")) {
+				if (token.text === "-") negative = !negative;
+				expectTerm = true;
+				continue;
+			}
+			if (!expectTerm) {
+				throw new SourceError(token.column, `Unexpected '${token.text}' in expression`);
+			}
+
+			if (token.kind === "number") {
+				terms.push({ negative, value: this.parseNumber(token), column: token.column });
+			} else if (token.kind === "string") {
+				if (token.text.size() !== 1) {
+					throw new SourceError(token.column, "Character literal must be a single character");
+				}
+				terms.push({ negative, value: string.byte(token.text)[0], column: token.column });
+			} else if (token.kind === "identifier") {
+				if (lookupRegister(token.text)) {
+					throw new SourceError(token.column, `Register '${token.text}' is not allowed here`);
+				}
+				terms.push({ negative, label: token.text, column: token.column });
+			} else {
+				throw new SourceError(token.column, `Unexpected '${token.text}' in expression`);
+			}
+
+			negative = false;
+			expectTerm = false;
+		}
+
+		if (expectTerm) {
+			throw new SourceError(tokens[tokens.size() - 1].column, "Expression ends with an operator");
+		}
+
+		const symbolic = terms.some((term) => term.label !== undefined);
+		return { terms, symbolic, column: tokens[0].column };
+	}
+
+	/**
+	 * Parse a numeric literal (decimal, 0x hex, 0b binary or trailing-h hex)
+	 */
+	private parseNumber(token: Token): number {
+		const text = token.text.lower();
+		let value: number | undefined;
+
+		if (text.sub(1, 2) === "0x") {
+			value = tonumber(text.sub(3), 16);
+		} else if (text.sub(1, 2) === "0b") {
+			value = tonumber(text.sub(3), 2);
+		} else if (text.sub(-1) === "h") {
+			value = tonumber(text.sub(1, -2), 16);
+		} else {
+			value = tonumber(text, 10);
+		}
+
+		if (value === undefined) {
+			throw new SourceError(token.column, `Invalid number '${token.text}'`);
+		}
+		return value;
+	}
+
+	/**
+	 * Evaluate an expression; labels resolve to 0 while sizing the first pass
+	 */
+	private evaluate(expression: Expression, labels: Map<string, number> | undefined): number {
+		let value = 0;
+		for (const term of expression.terms) {
+			let termValue = term.value ?? 0;
+			if (term.label !== undefined && labels) {
+				const address = labels.get(term.label);
+				if (address === undefined) {
+					throw new SourceError(term.column, `Undefined label '${term.label}'`);
+				}
+				termValue = address;
+			}
+			value += term.negative ? -termValue : termValue;
+		}
+		return value;
+	}
+
+	/**
+	 * Encode a parsed statement at the given address
+	 */
+	private encodeStatement(statement: Statement, address: DWord, labels: Map<string, number> | undefined): number[] {
+		const mnemonic = statement.mnemonic;
+		if (mnemonic === undefined) {
+			return [];
+		}
+
+		const operands = statement.operands;
+		const column = statement.mnemonicColumn;
+
+		// data directives
+		if (DATA_DIRECTIVES.has(mnemonic)) {
+			return this.encodeData(statement, DATA_DIRECTIVES.get(mnemonic) ?? 1, labels);
+		}
+
+		// zero fill: ALIGN pads to a multiple of its operand, RESB reserves a number of bytes
+		if (mnemonic === "ALIGN" || mnemonic === "RESB") {
+			this.expectOperands(statement, 1);
+			const amount = this.expectImmediate(operands[0]);
+			if (amount.symbolic) {
+				throw new SourceError(operands[0].column, `${mnemonic} requires a constant`);
+			}
+
+			const value = this.evaluate(amount, labels);
+			if (value < 0 || (mnemonic === "ALIGN" && value === 0)) {
+				throw new SourceError(operands[0].column, `Invalid ${mnemonic} amount ${value}`);
+			}
+			const count = mnemonic === "ALIGN" ? (value - (address % value)) % value : value;
+			return table.create(count, 0);
+		}
+
+		// string instructions, optionally repeated
+		const stringOpcode = Assembler.STRING_OPCODES.get(mnemonic);
+		if (stringOpcode) {
+			this.expectOperands(statement, 0);
+			const [opcode, size] = stringOpcode;
+			const prefix = statement.repeat !== undefined ? [statement.repeat] : [];
+			return [...prefix, ...sizePrefix(size), opcode];
+		}
+		if (statement.repeat !== undefined) {
+			throw new SourceError(column, "Repeat prefixes only apply to string instructions");
+		}
+
+		// instructions without operands
+		const implied = Assembler.IMPLIED_OPCODES.get(mnemonic);
+		if (implied) {
+			this.expectOperands(statement, 0);
+			return [...implied];
+		}
+
+		// conditional jumps (rel8, or rel32 when marked NEAR)
+		const conditionCode = Assembler.CONDITION_CODES.get(mnemonic);
+		if (conditionCode !== undefined) {
+			this.expectOperands(statement, 1);
+			const target = this.expectImmediate(operands[0]);
+			if (operands[0].near) {
+				const offset32 = this.relativeOffset(target, address + 6, labels, 4);
+				return [0x0f, 0x80 + conditionCode, ...dwordBytes(offset32)];
+			}
+			const offset = this.relativeOffset(target, address + 2, labels, 1);
+			return [0x70 + conditionCode, offset & 0xff];
+		}
+
+		// SETcc r/m8 and CMOVcc r32, r/m32 share the Jcc condition names
+		const setCondition = Assembler.CONDITION_CODES.get(`J${mnemonic.sub(4)}`);
+		if (mnemonic.sub(1, 3) === "SET" && setCondition !== undefined) {
+			this.expectOperands(statement, 1);
+			this.expectSize(operands[0], 1);
+			return [0x0f, 0x90 + setCondition, ...this.encodeRM(operands[0], 0, labels)];
+		}
+		const moveCondition = Assembler.CONDITION_CODES.get(`J${mnemonic.sub(5)}`);
+		if (mnemonic.sub(1, 4) === "CMOV" && moveCondition !== undefined) {
+			this.expectOperands(statement, 2);
+			const dest = this.expectRegister(operands[0], this.wideSize(operands[0]));
+			this.expectSize(operands[1], dest.size);
+			return [
+				...sizePrefix(dest.size),
+				0x0f,
+				0x40 + moveCondition,
+				...this.encodeRM(operands[1], dest.index, labels),
+			];
+		}
+
+		// ALU operations
+		const alu = Assembler.ALU_OPCODES.get(mnemonic);
+		if (alu) {
+			this.expectOperands(statement, 2);
+			return this.encodeALU(alu, operands[0], operands[1], labels);
+		}
+
+		// group 3 single-operand operations
+		const group3 = Assembler.GROUP3_OPERATIONS.get(mnemonic);
+		if (group3 !== undefined) {
+			this.expectOperands(statement, 1);
+			const size = this.wideSize(operands[0]);
+			return [...sizePrefix(size), 0xf7, ...this.encodeRM(operands[0], group3, labels)];
+		}
+
+		switch (mnemonic) {
+			case "MOV":
+				this.expectOperands(statement, 2);
+				return this.encodeMOV(operands[0], operands[1], labels);
+
+			case "IN":
+				this.expectOperands(statement, 2);
+				return this.encodePortIO(0xe4, operands[0], operands[1], labels);
+
+			case "OUT":
+				this.expectOperands(statement, 2);
+				return this.encodePortIO(0xe6, operands[1], operands[0], labels);
+
+			case "LEA": {
+				this.expectOperands(statement, 2);
+				const dest = this.expectRegister(operands[0], this.wideSize(operands[0]));
+				if (operands[1].kind !== "memory") {
+					throw new SourceError(operands[1].column, "LEA requires a memory operand");
+				}
+				return [...sizePrefix(dest.size), 0x8d, ...this.encodeRM(operands[1], dest.index, labels)];
+			}
+
+			case "MOVZX":
+			case "MOVSX": {
+				this.expectOperands(statement, 2);
+				const [dest, src] = operands;
+				const register = this.expectRegister(dest, this.wideSize(dest));
+				if (src.kind === "immediate") {
+					throw new SourceError(src.column, "Expected a register or memory operand");
+				}
+				if (src.size === undefined) {
+					throw new SourceError(src.column, "Operand size not specified (use BYTE PTR or WORD PTR)");
+				}
+				if (src.size >= register.size) {
+					throw new SourceError(src.column, "Source must be narrower than the destination");
+				}
+				const opcode = (mnemonic === "MOVZX" ? 0xb6 : 0xbe) + (src.size === 2 ? 1 : 0);
+				return [...sizePrefix(register.size), 0x0f, opcode, ...this.encodeRM(src, register.index, labels)];
+			}
+
+			case "MOVSXD": {
+				this.expectOperands(statement, 2);
+				const dest = this.expectRegister(operands[0], 4);
+				this.expectSize(operands[1], 4);
+				return [0x63, ...this.encodeRM(operands[1], dest.index, labels)];
+			}
+
+			case "TEST": {
+				this.expectOperands(statement, 2);
+				const [dest, src] = operands;
+				const size = this.wideSize(dest);
+				if (src.kind === "immediate") {
+					return [
+						...sizePrefix(size),
+						0xf7,
+						...this.encodeRM(dest, 0, labels),
+						...this.wideImmediate(src, size, labels),
+					];
+				}
+				const reg = this.expectRegister(src, size);
+				return [...sizePrefix(size), 0x85, ...this.encodeRM(dest, reg.index, labels)];
+			}
+
+			case "XCHG": {
+				this.expectOperands(statement, 2);
+				const [dest, src] = operands;
+				// the register operand goes in the reg field, whichever side it is on
+				const [rm, reg] = src.kind === "register" ? [dest, src] : [src, dest];
+				const register = this.expectRegister(reg, this.wideSize(reg));
+				this.expectSize(rm, register.size);
+				return [...sizePrefix(register.size), 0x87, ...this.encodeRM(rm, register.index, labels)];
+			}
+
+			case "IMUL": {
+				if (operands.size() === 1) {
+					const size = this.wideSize(operands[0]);
+					return [...sizePrefix(size), 0xf7, ...this.encodeRM(operands[0], 5, labels)];
+				}
+				this.expectOperands(statement, 2);
+				const dest = this.expectRegister(operands[0], this.wideSize(operands[0]));
+				this.expectSize(operands[1], dest.size);
+				return [...sizePrefix(dest.size), 0x0f, 0xaf, ...this.encodeRM(operands[1], dest.index, labels)];
+			}
+
+			case "INC":
+			case "DEC": {
+				this.expectOperands(statement, 1);
+				const register = this.expectRegister(operands[0], this.wideSize(operands[0]));
+				return [...sizePrefix(register.size), (mnemonic === "INC" ? 0x40 : 0x48) + register.index];
+			}
+
+			case "PUSH":
+			case "POP": {
+				this.expectOperands(statement, 1);
+				if (mnemonic === "PUSH" && operands[0].kind === "memory") {
+					const size = this.wideSize(operands[0]);
+					return [...sizePrefix(size), 0xff, ...this.encodeRM(operands[0], 6, labels)];
+				}
+				const register = this.expectRegister(operands[0], this.wideSize(operands[0]));
+				return [...sizePrefix(register.size), (mnemonic === "PUSH" ? 0x50 : 0x58) + register.index];
+			}
+
+			case "SHL":
+			case "SAL":
+			case "SHR": {
+				this.expectOperands(statement, 2);
+				const [dest, count] = operands;
+				const prefix = sizePrefix(this.wideSize(dest));
+				const operation = mnemonic === "SHR" ? 5 : 4;
+				const countImm = this.expectImmediate(count);
+				const value = this.evaluate(countImm, labels);
+				if (!countImm.symbolic && value === 1) {
+					return [...prefix, 0xd1, ...this.encodeRM(dest, operation, labels)];
+				}
+				return [...prefix, 0xc1, ...this.encodeRM(dest, operation, labels), this.immediate8(count, labels)];
+			}
+
+			case "JMP": {
+				this.expectOperands(statement, 1);
+				if (operands[0].kind === "register" || operands[0].kind === "memory") {
+					// indirect: the operand holds the absolute target
+					this.expectSize(operands[0], 4);
+					return [0xff, ...this.encodeRM(operands[0], 4, labels)];
+				}
+				const target = this.expectImmediate(operands[0]);
+				if (operands[0].short) {
+					return [0xeb, this.relativeOffset(target, address + 2, labels, 1) & 0xff];
+				}
+				return [0xe9, ...dwordBytes(this.relativeOffset(target, address + 5, labels, 4))];
+			}
+
+			case "CALL": {
+				this.expectOperands(statement, 1);
+				if (operands[0].kind === "register" || operands[0].kind === "memory") {
+					this.expectSize(operands[0], 4);
+					return [0xff, ...this.encodeRM(operands[0], 2, labels)];
+				}
+				const target = this.expectImmediate(operands[0]);
+				return [0xe8, ...dwordBytes(this.relativeOffset(target, address + 5, labels, 4))];
+			}
+
+			case "INT":
+				this.expectOperands(statement, 1);
+				this.expectImmediate(operands[0]);
+				return [0xcd, this.immediate8(operands[0], labels)];
+
+			case "LIDT":
+				this.expectOperands(statement, 1);
+				if (operands[0].kind !== "memory") {
+					throw new SourceError(operands[0].column, "LIDT requires a memory operand");
+				}
+				return [0x0f, 0x01, ...this.encodeRM(operands[0], 3, labels)];
+
+			case "INVLPG":
+				this.expectOperands(statement, 1);
+				if (operands[0].kind !== "memory") {
+					throw new SourceError(operands[0].column, "INVLPG requires a memory operand");
+				}
+				return [0x0f, 0x01, ...this.encodeRM(operands[0], 7, labels)];
+
+			case "RDRAND":
+			case "RDSEED": {
+				this.expectOperands(statement, 1);
+				const register = this.expectRegister(operands[0], 4);
+				return [0x0f, 0xc7, 0xc0 | ((mnemonic === "RDRAND" ? 6 : 7) << 3) | register.index];
+			}
+
+			default:
+				throw new SourceError(column, `Unknown instruction '${mnemonic}'`);
+		}
+	}
+
+	/**
+	 * Encode a db/dw/dd directive
+	 */
+	private encodeData(statement: Statement, size: number, labels: Map<string, number> | undefined): number[] {
+		if (statement.operands.size() === 0) {
+			throw new SourceError(statement.mnemonicColumn, "Data directive requires at least one value");
+		}
+
+		const bytes: number[] = [];
+		for (const operand of statement.operands) {
+			// strings expand to one element per character
+			if (operand.rawString !== undefined) {
+				for (let i = 1; i <= operand.rawString.size(); i++) {
+					pushLittleEndian(bytes, string.byte(operand.rawString, i)[0], size);
+				}
+				continue;
+			}
+
+			if (operand.kind !== "immediate" || operand.value === undefined) {
+				throw new SourceError(operand.column, "Data directives only accept constants, strings and labels");
+			}
+
+			const value = this.evaluate(operand.value, labels);
+			this.checkRange(value, size, operand.column);
+			pushLittleEndian(bytes, value, size);
+		}
+		return bytes;
+	}
+
+	/**
+	 * Encode ADD/OR/ADC/SBB/AND/SUB/XOR/CMP
+	 */
+	private encodeALU(
+		alu: AluEncoding,
+		dest: ParsedOperand,
+		src: ParsedOperand,
+		labels: Map<string, number> | undefined,
+	): number[] {
+		if (src.kind === "immediate") {
+			const size = this.operandSize(dest, src);
+			if (size === 1) {
+				throw new SourceError(
+					dest.column,
+					"Only 16-bit and 32-bit destinations are supported with an immediate",
+				);
+			}
+			const prefix = sizePrefix(size);
+
+			// prefer the short sign-extended imm8 form when the value is a small known constant
+			const immediate = this.expectImmediate(src);
+			const value = this.evaluate(immediate, labels);
+			if (!immediate.symbolic && value >= -0x80 && value <= 0x7f) {
+				return [...prefix, 0x83, ...this.encodeRM(dest, alu.group, labels), value & 0xff];
+			}
+			if (alu.eaxImm32 !== undefined && dest.register !== undefined && dest.register.index === 0) {
+				return [...prefix, alu.eaxImm32, ...this.wideImmediate(src, size, labels)];
+			}
+			return [
+				...prefix,
+				0x81,
+				...this.encodeRM(dest, alu.group, labels),
+				...this.wideImmediate(src, size, labels),
+			];
+		}
+
+		const size = this.operandSize(dest, src);
+
+		// r/m, reg
+		if (src.register !== undefined) {
+			const opcode = size === 1 ? alu.rm8 : alu.rm32;
+			if (opcode === undefined) {
+				throw new SourceError(dest.column, "Unsupported operand combination");
+			}
+			return [...sizePrefix(size), opcode, ...this.encodeRM(dest, src.register.index, labels)];
+		}
+
+		// reg, r/m
+		if (dest.register !== undefined && size !== 1 && alu.reg32 !== undefined) {
+			return [...sizePrefix(size), alu.reg32, ...this.encodeRM(src, dest.register.index, labels)];
+		}
+
+		throw new SourceError(src.column, "Unsupported operand combination");
+	}
+
+	/**
+	 * Encode the MOV forms understood by the decoder
+	 */
+	private encodeMOV(dest: ParsedOperand, src: ParsedOperand, labels: Map<string, number> | undefined): number[] {
+		if (dest.controlRegister !== undefined || src.controlRegister !== undefined) {
+			return this.encodeMOVControl(dest, src);
+		}
+
+		if (src.kind === "immediate") {
+			const register = dest.register;
+			if (register === undefined) {
+				// MOV r/m, imm (0xC6 /0, 0xC7 /0)
+				const size = this.operandSize(dest, src);
+				const immediate = size === 1 ? [this.immediate8(src, labels)] : this.wideImmediate(src, size, labels);
+				return [...sizePrefix(size), size === 1 ? 0xc6 : 0xc7, ...this.encodeRM(dest, 0, labels), ...immediate];
+			}
+			if (register.size === 1) {
+				return [0xb0 + register.index, this.immediate8(src, labels)];
+			}
+			return [
+				...sizePrefix(register.size),
+				0xb8 + register.index,
+				...this.wideImmediate(src, register.size, labels),
+			];
+		}
+
+		if (src.register !== undefined) {
+			const size = this.operandSize(dest, src);
+			return [...sizePrefix(size), size === 1 ? 0x88 : 0x89, ...this.encodeRM(dest, src.register.index, labels)];
+		}
+
+		// reg, r/m
+		const register = this.expectRegister(dest, this.operandSize(dest, src));
+		return [
+			...sizePrefix(register.size),
+			register.size === 1 ? 0x8a : 0x8b,
+			...this.encodeRM(src, register.index, labels),
+		];
+	}
+
+	/**
+	 * Encode MOV CRn, r32 (0x0F 0x22) and MOV r32, CRn (0x0F 0x20)
+	 */
+	private encodeMOVControl(dest: ParsedOperand, src: ParsedOperand): number[] {
+		const toControl = dest.controlRegister !== undefined;
+		const control = toControl ? dest : src;
+		const general = toControl ? src : dest;
+		if (general.register === undefined || general.register.size !== 4 || control.controlRegister === undefined) {
+			throw new SourceError(general.column, "Control registers can only be moved to or from a 32-bit register");
+		}
+		return [0x0f, toControl ? 0x22 : 0x20, 0xc0 | (control.controlRegister << 3) | general.register.index];
+	}
+
+	/**
+	 * Encode IN/OUT with an imm8 or DX port; the word forms carry an operand-size prefix
+	 */
+	private encodePortIO(
+		opcode: number,
+		accumulator: ParsedOperand,
+		port: ParsedOperand,
+		labels: Map<string, number> | undefined,
+	): number[] {
+		const register = accumulator.register;
+		if (register === undefined || register.index !== 0) {
+			throw new SourceError(accumulator.column, "Port I/O uses AL, AX or EAX");
+		}
+
+		const prefix = register.size === 2 ? [0x66] : [];
+		const wide = register.size === 1 ? 0 : 1;
+		if (port.register !== undefined) {
+			if (port.register.name !== "DX") {
+				throw new SourceError(port.column, "Port must be an 8-bit immediate or DX");
+			}
+			return [...prefix, opcode + 8 + wide];
+		}
+
+		const value = this.evaluate(this.expectImmediate(port), labels);
+		if (value < 0 || value > 0xff) {
+			throw new SourceError(port.column, "Port number out of range for an immediate (use DX)");
+		}
+		return [...prefix, opcode + wide, value];
+	}
+
+	/**
+	 * Encode the ModR/M byte (plus displacement) for an r/m operand
+	 */
+	private encodeRM(operand: ParsedOperand, regField: number, labels: Map<string, number> | undefined): number[] {
+		if (operand.register !== undefined) {
+			return [0xc0 | (regField << 3) | operand.register.index];
+		}
+		if (operand.kind !== "memory") {
+			throw new SourceError(operand.column, "Expected a register or memory operand");
+		}
+
+		const displacement = operand.value ? this.evaluate(operand.value, labels) : 0;
+		const symbolic = operand.value !== undefined && operand.value.symbolic;
+		const base = operand.base;
+		const index = operand.index;
+
+		// absolute address
+		if (!base && !index) {
+			this.checkRange(displacement, 4, operand.column);
+			return [0x05 | (regField << 3), ...dwordBytes(displacement)];
+		}
+
+		// an index, or ESP as the base, is only reachable through a SIB byte (rm = 4)
+		const scaleBits = (SCALE_BITS.get(operand.scale ?? 1) ?? 0) << 6;
+		const indexField = (index ? index.index : 4) << 3;
+		if (!base) {
+			// no base: mod 0 with SIB base 5 always carries a 32-bit displacement
+			this.checkRange(displacement, 4, operand.column);
+			return [0x04 | (regField << 3), scaleBits | indexField | 5, ...dwordBytes(displacement)];
+		}
+
+		const sib = index || base.index === 4 ? [scaleBits | indexField | base.index] : [];
+		const rm = sib.size() > 0 ? 4 : base.index;
+
+		// [EBP] has no mod=0 encoding, so it always carries a displacement
+		if (!symbolic && displacement === 0 && base.index !== 5) {
+			return [(regField << 3) | rm, ...sib];
+		}
+		if (!symbolic && displacement >= -0x80 && displacement <= 0x7f) {
+			return [0x40 | (regField << 3) | rm, ...sib, displacement & 0xff];
+		}
+
+		this.checkRange(displacement, 4, operand.column);
+		return [0x80 | (regField << 3) | rm, ...sib, ...dwordBytes(displacement)];
+	}
+
+	/**
+	 * Compute a relative branch offset and check that it fits
+	 */
+	private relativeOffset(
+		target: Expression,
+		nextAddress: DWord,
+		labels: Map<string, number> | undefined,
+		size: number,
+	): number {
+		// while sizing the first pass the target is unknown, any value will do
+		if (!labels) {
+			return 0;
+		}
+
+		const offset = this.evaluate(target, labels) - nextAddress;
+		if (size === 1 && (offset < -128 || offset > 127)) {
+			throw new SourceError(target.column, `Jump target out of range for a short jump (${offset} bytes)`);
+		}
+		return offset;
+	}
+
+	/**
+	 * Encode an 8-bit immediate
+	 */
+	private immediate8(operand: ParsedOperand, labels: Map<string, number> | undefined): number {
+		const value = this.evaluate(this.expectImmediate(operand), labels);
+		this.checkRange(value, 1, operand.column);
+		return value & 0xff;
+	}
+
+	/**
+	 * Encode a 32-bit immediate
+	 */
+	private immediate32(operand: ParsedOperand, labels: Map<string, number> | undefined): number[] {
+		const value = this.evaluate(this.expectImmediate(operand), labels);
+		this.checkRange(value, 4, operand.column);
+		return dwordBytes(value);
+	}
+
+	/**
+	 * Encode the 16-bit or 32-bit immediate of a word or dword instruction
+	 */
+	private wideImmediate(operand: ParsedOperand, size: number, labels: Map<string, number> | undefined): number[] {
+		if (size === 4) {
+			return this.immediate32(operand, labels);
+		}
+		const value = this.evaluate(this.expectImmediate(operand), labels);
+		this.checkRange(value, 2, operand.column);
+		const bytes: number[] = [];
+		pushLittleEndian(bytes, value, 2);
+		return bytes;
+	}
+
+	/**
+	 * Check that a value fits in the given number of bytes (signed or unsigned)
+	 */
+	private checkRange(value: number, size: number, column: number): void {
+		const limit = 2 ** (size * 8);
+		if (value < -(limit / 2) || value >= limit) {
+			throw new SourceError(column, `Value ${value} does not fit in ${size * 8} bits`);
+		}
+	}
+
+	/**
+	 * Determine the operand size of a two-operand instruction
+	 */
+	private operandSize(dest: ParsedOperand, src: ParsedOperand): number {
+		const destSize = dest.size;
+		const srcSize = src.kind === "immediate" ? undefined : src.size;
+
+		if (destSize !== undefined && srcSize !== undefined && destSize !== srcSize) {
+			throw new SourceError(src.column, "Operand size mismatch");
+		}
+
+		const size = destSize ?? srcSize;
+		if (size === undefined) {
+			throw new SourceError(dest.column, "Operand size not specified (use BYTE PTR, WORD PTR or DWORD PTR)");
+		}
+		return size;
+	}
+
+	private expectOperands(statement: Statement, count: number): void {
+		if (statement.operands.size() !== count) {
+			throw new SourceError(
+				statement.mnemonicColumn,
+				`${statement.mnemonic} expects ${count} operand(s), got ${statement.operands.size()}`,
+			);
+		}
+	}
+
+	private expectRegister(operand: ParsedOperand, size: number): RegisterInfo {
+		if (operand.kind !== "register" || operand.register === undefined) {
+			throw new SourceError(operand.column, "Expected a register");
+		}
+		if (operand.register.size !== size) {
+			throw new SourceError(operand.column, `Expected a ${size * 8}-bit register`);
+		}
+		return operand.register;
+	}
+
+	private expectImmediate(operand: ParsedOperand): Expression {
+		if (operand.kind !== "immediate" || operand.value === undefined) {
+			throw new SourceError(operand.column, "Expected an immediate value or label");
+		}
+		return operand.value;
+	}
+
+	/**
+	 * Size of the operand of an instruction with word and dword forms; unsized memory is a dword
+	 */
+	private wideSize(operand: ParsedOperand): number {
+		if (operand.kind === "immediate") {
+			throw new SourceError(operand.column, "Expected a register or memory operand");
+		}
+		const size = operand.size ?? 4;
+		if (size !== 2 && size !== 4) {
+			throw new SourceError(operand.column, "Expected a 16-bit or 32-bit operand");
+		}
+		return size;
+	}
+
+	private expectSize(operand: ParsedOperand, size: number): void {
+		if (operand.kind === "immediate") {
+			throw new SourceError(operand.column, "Expected a register or memory operand");
+		}
+		if (operand.size !== undefined && operand.size !== size) {
+			throw new SourceError(operand.column, `Expected a ${size * 8}-bit operand`);
+		}
+	}
+}
+
+// public types
+export interface AssemblyError {
+	line: number; // 1-based source line
+	column: number; // 1-based column of the offending token
+	message: string;
+}
+
+export interface AssemblyResult {
+	bytes: number[];
+	lines: number[]; // source line that produced each byte
+	labels: Map<string, number>; // label -> absolute address
+	errors: AssemblyError[];
+}
+
+// internal types
+class SourceError {
+	constructor(
+		readonly column: number,
+		readonly message: string,
+	) {}
+}
+
+interface Token {
+	kind: "identifier" | "number" | "string" | "symbol";
+	text: string;
+	column: number;
+}
+
+interface RegisterInfo {
+	name: string;
+	index: number;
+	size: number;
+}
+
+interface ExpressionTerm {
+	negative: boolean;
+	value?: number;
+	label?: string;
+	column: number;
+}
+
+interface Expression {
+	terms: ExpressionTerm[];
+	symbolic: boolean; // true if any term refers to a label
+	column: number;
+}
+
+interface ParsedOperand {
+	kind: "register" | "immediate" | "memory" | "control";
+	column: number;
+	size?: number;
+	short?: boolean;
+	near?: boolean; // rel32 form of a conditional jump
+	register?: RegisterInfo;
+	controlRegister?: number; // CRn index for MOV to/from control registers
+	base?: RegisterInfo;
+	index?: RegisterInfo; // scaled index of a memory operand
+	scale?: number;
+	value?: Expression;
+	rawString?: string;
+}
+
+interface Statement {
+	line: number;
+	label?: string;
+	labelColumn: number;
+	mnemonic?: string;
+	mnemonicColumn: number;
+	repeat?: number; // REP/REPE (0xF3) or REPNE (0xF2) prefix byte
+	operands: ParsedOperand[];
+	address: DWord;
+}
+
+interface AluEncoding {
+	rm8?: number; // op r/m8, r8
+	rm32?: number; // op r/m32, r32
+	reg32?: number; // op r32, r/m32
+	eaxImm32?: number; // op EAX, imm32
+	group: number; // reg field for the 0x81/0x83 immediate group
+}
+
+const REGISTERS_8 = ["AL", "CL", "DL", "BL", "AH", "CH", "DH", "BH"];
+const REGISTERS_16 = ["AX", "CX", "DX", "BX", "SP", "BP", "SI", "DI"];
+const REGISTERS_32 = ["EAX", "ECX", "EDX", "EBX", "ESP", "EBP", "ESI", "EDI"];
+const CONTROL_REGISTERS = ["CR0", "CR1", "CR2", "CR3", "CR4"];
+
+const SIZE_KEYWORDS = new Map<string, number>([
+	["BYTE", 1],
+	["WORD", 2],
+	["DWORD", 4],
+	["FWORD", 6],
+]);
+
+const DATA_DIRECTIVES = new Map<string, number>([
+	["DB", 1],
+	["DW", 2],
+	["DD", 4],
+]);
+
+const CHAR_TAB = 9;
+const CHAR_CR = 13;
+const CHAR_SPACE = 32;
+const CHAR_DOUBLE_QUOTE = 34;
+const CHAR_SINGLE_QUOTE = 39;
+const CHAR_SEMICOLON = 59;
+const SYMBOLS = [44, 91, 93, 43, 45, 58, 42]; // , [ ] + - : *
+
+// SIB scale factor -> encoded scale field
+const SCALE_BITS = new Map<number, number>([
+	[1, 0],
+	[2, 1],
+	[4, 2],
+	[8, 3],
+]);
+
+function lookupRegister(name: string): RegisterInfo | undefined {
+	const upper = name.upper();
+	let index = REGISTERS_32.indexOf(upper);
+	if (index !== -1) {
+		return { name: upper, index, size: 4 };
+	}
+	index = REGISTERS_16.indexOf(upper);
+	if (index !== -1) {
+		return { name: upper, index, size: 2 };
+	}
+	index = REGISTERS_8.indexOf(upper);
+	if (index !== -1) {
+		return { name: upper, index, size: 1 };
+	}
+	return undefined;
+}
+
+function isDigit(char: number): boolean {
+	return char >= 48 && char <= 57;
+}
+
+function isIdentifierStart(char: number): boolean {
+	return (char >= 65 && char <= 90) || (char >= 97 && char <= 122) || char === 95 || char === 46;
+}
+
+function isIdentifierPart(char: number): boolean {
+	return isIdentifierStart(char) || isDigit(char);
+}
+
+function pushLittleEndian(bytes: number[], value: number, size: number): void {
+	const unsigned = value >>> 0;
+	for (let i = 0; i < size; i++) {
+		bytes.push((unsigned >>> (i * 8)) & 0xff);
+	}
+}
+
+function dwordBytes(value: number): number[] {
+	const bytes: number[] = [];
+	pushLittleEndian(bytes, value, 4);
+	return bytes;
+}
+
+// the operand-size prefix selects the word form of a dword instruction
+function sizePrefix(size: number): number[] {
+	return size === 2 ? [0x66] : [];
+}
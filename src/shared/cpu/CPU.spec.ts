@@ -0,0 +1,344 @@
+/// <reference types="@rbxts/testez/globals" />
+import { Assembler } from "./Assembler";
+import { CPU } from "./CPU";
+import { DoubleFault, ExceptionVector, GeneralProtectionFault, PageFault } from "./Faults";
+import { CR0_PE, CR0_PG, GateType, PTE_PRESENT, PTE_WRITABLE } from "./types";
+
+const ORIGIN = 0x1000;
+const IDT_BASE = 0x800;
+const STACK_TOP = 0x7000;
+
+/**
+ * Load a program at ORIGIN with an IDT at IDT_BASE and a stack below STACK_TOP
+ */
+function boot(source: string) {
+	const result = new Assembler(ORIGIN).assemble(source);
+	if (result.errors.size() > 0) {
+		throw `${result.errors[0].line}: ${result.errors[0].message}`;
+	}
+
+	const cpu = new CPU(0x10000);
+	cpu.loadProgram(result.bytes, ORIGIN);
+	cpu.setInstructionPointer(ORIGIN);
+	cpu.setRegister("ESP", STACK_TOP);
+	cpu.setInterruptDescriptorTable(IDT_BASE);
+	return { cpu, labels: result.labels };
+}
+
+function gate(cpu: CPU, vector: number, offset: number, gateType: GateType = GateType.INTERRUPT): void {
+	cpu.setInterruptGate(vector, { offset, selector: 0, type: gateType, dpl: 0, present: true });
+}
+
+/**
+ * Run `body` at ring 3 (CS 0x1B, SS 0x23) with a ring 0 stack at 0x9000 in the TSS, INT 0x80 open
+ * to ring 3, INT 0x81 kept for ring 0 and a #GP handler that pops the error code into EDI
+ */
+function bootUser(body: string) {
+	const { cpu, labels } = boot(`
+		MOV EAX, 0x23
+		PUSH EAX
+		MOV EAX, 0x7000
+		PUSH EAX
+		PUSHF
+		MOV EAX, 0x1B
+		PUSH EAX
+		MOV EAX, user
+		PUSH EAX
+		IRET
+	syscall:
+		MOV EBP, ESP
+		MOV ECX, [ESP+12]
+		INC EBX
+		IRET
+	protection:
+		POP EDI
+		MOV ESI, ESP
+		HLT
+	user:
+		${body}
+		MOV EDX, 0x99
+	done:
+		JMP done
+	`);
+	const mmu = cpu.getMMU();
+	mmu.writeDWord(0x504, 0x9000);
+	mmu.writeWord(0x508, 0x10);
+	cpu.setTaskRegister(0x500);
+
+	const syscall = labels.get("syscall")!;
+	cpu.setInterruptGate(0x80, { offset: syscall, selector: 0x08, type: GateType.TRAP, dpl: 3, present: true });
+	cpu.setInterruptGate(0x81, { offset: syscall, selector: 0x08, type: GateType.TRAP, dpl: 0, present: true });
+	gate(cpu, ExceptionVector.GENERAL_PROTECTION, labels.get("protection")!);
+	run(cpu, 40);
+	return cpu;
+}
+
+function run(cpu: CPU, steps: number): void {
+	for (let i = 0; i < steps && !cpu.isHalted(); i++) {
+		cpu.step();
+	}
+}
+
+export = () => {
+	describe("interrupts", () => {
+		it("should enter INT n through its gate with an EFLAGS, CS, EIP frame and return with IRET", () => {
+			const { cpu, labels } = boot(`
+				MOV EAX, 0xFFFFFFFF
+				ADD EAX, 1
+				INT 0x40
+			after:
+				MOV ECX, ESP
+				HLT
+			handler:
+				MOV EBX, [ESP]
+				MOV EDX, [ESP+8]
+				MOV ESI, ESP
+				XOR EAX, EAX
+				IRET
+			`);
+			gate(cpu, 0x40, labels.get("handler")!);
+			run(cpu, 20);
+
+			expect(cpu.getRegister("EBX")).to.equal(labels.get("after"));
+			expect(cpu.getRegister("EDX") & 0x1).to.equal(1);
+			expect(cpu.getRegister("ESI")).to.equal(STACK_TOP - 12);
+			expect(cpu.getRegister("ECX")).to.equal(STACK_TOP);
+			expect(cpu.getState().flags.CF).to.equal(true);
+			expect(cpu.getStatistics().interrupts).to.equal(1);
+		});
+
+		it("should load the IDT register with LIDT", () => {
+			const { cpu, labels } = boot(`
+				MOV EAX, idtr
+				LIDT [EAX]
+				INT 0x21
+				HLT
+			handler:
+				INC EBX
+				IRET
+			idtr:
+				DW 0x7FF
+				DD 0x800
+			`);
+			gate(cpu, 0x21, labels.get("handler")!);
+			cpu.setInterruptDescriptorTable(0, 0);
+			run(cpu, 10);
+
+			expect(cpu.getState().interruptDescriptorTable.base).to.equal(IDT_BASE);
+			expect(cpu.getRegister("EBX")).to.equal(1);
+		});
+
+		it("should hold hardware interrupts until IF is set and the STI shadow has passed", () => {
+			const { cpu, labels } = boot(`
+				NOP
+				STI
+				HLT
+				HLT
+			handler:
+				INC EBX
+				IRET
+			`);
+			gate(cpu, 0x30, labels.get("handler")!);
+			cpu.requestInterrupt(0x30);
+
+			cpu.step();
+			cpu.step();
+			expect(cpu.getState().instructionPointer.EIP).to.equal(ORIGIN + 2);
+			cpu.step();
+			expect(cpu.isHalted()).to.equal(true);
+
+			// the pending interrupt wakes the CPU out of HLT through an interrupt gate
+			cpu.step();
+			expect(cpu.isHalted()).to.equal(false);
+			expect(cpu.getState().flags.IF).to.equal(false);
+			cpu.step();
+			cpu.step();
+			expect(cpu.getRegister("EBX")).to.equal(1);
+			expect(cpu.getState().flags.IF).to.equal(true);
+			expect(cpu.getState().instructionPointer.EIP).to.equal(ORIGIN + 3);
+		});
+
+		it("should leave IF set in trap gate handlers", () => {
+			const { cpu, labels } = boot(`
+				STI
+				NOP
+				HLT
+			handler:
+				HLT
+			`);
+			gate(cpu, 0x31, labels.get("handler")!, GateType.TRAP);
+			cpu.raiseIRQ(1);
+			run(cpu, 10);
+
+			expect(cpu.getState().instructionPointer.EIP).to.equal(labels.get("handler")! + 1);
+			expect(cpu.getState().flags.IF).to.equal(true);
+		});
+
+		it("should call HLE handlers for INT n but send hardware interrupts to host IRQ handlers", () => {
+			const { cpu } = boot("STI\nINT 0x21\nNOP\nNOP\nHLT");
+			const calls: string[] = [];
+			cpu.registerHLEHandler(0x21, () => calls.push("hle"));
+			cpu.registerIRQHandler(0x30, () => calls.push("irq"));
+			expect(() => cpu.registerHLEHandler(0x30, () => {})).to.throw("IRQ range");
+
+			run(cpu, 2);
+			cpu.raiseIRQ(0);
+			run(cpu, 10);
+			expect(calls.join(",")).to.equal("hle,irq");
+			expect(cpu.getStatistics().interrupts).to.equal(0);
+		});
+	});
+
+	describe("exceptions", () => {
+		it("should restart a faulting DIV after its handler fixes the divisor", () => {
+			const { cpu, labels } = boot(`
+				MOV EAX, 100
+				XOR EBX, EBX
+			divide:
+				DIV EBX
+				HLT
+			handler:
+				MOV ECX, [ESP]
+				MOV EBX, 5
+				IRET
+			`);
+			gate(cpu, ExceptionVector.DIVIDE_ERROR, labels.get("handler")!);
+			run(cpu, 20);
+
+			expect(cpu.getRegister("ECX")).to.equal(labels.get("divide"));
+			expect(cpu.getRegister("EAX")).to.equal(20);
+			expect(cpu.getLastFault()?.vector).to.equal(ExceptionVector.DIVIDE_ERROR);
+		});
+
+		it("should raise #UD for undefined opcodes without changing any register", () => {
+			const { cpu, labels } = boot(`
+				MOV EAX, 7
+				DB 0xFF, 0xFF
+				MOV ECX, 0x55
+				HLT
+			handler:
+				POP EDX
+				ADD EDX, 2
+				PUSH EDX
+				IRET
+			`);
+			gate(cpu, ExceptionVector.INVALID_OPCODE, labels.get("handler")!);
+			run(cpu, 20);
+
+			expect(cpu.getRegister("EAX")).to.equal(7);
+			expect(cpu.getRegister("ECX")).to.equal(0x55);
+			expect(cpu.getRegister("ESP")).to.equal(STACK_TOP);
+		});
+
+		it("should push the IDT error code of #GP for a vector without a gate", () => {
+			const { cpu, labels } = boot(`
+				INT 0x40
+				HLT
+			handler:
+				POP EDX
+				HLT
+			`);
+			gate(cpu, ExceptionVector.GENERAL_PROTECTION, labels.get("handler")!);
+			run(cpu, 10);
+
+			expect(cpu.getRegister("EDX")).to.equal((0x40 << 3) | 0x2);
+			expect(cpu.getLastFault() instanceof GeneralProtectionFault).to.equal(true);
+			expect(cpu.getLastFault()?.eip).to.equal(ORIGIN);
+		});
+
+		it("should report page faults in CR2 with their error code", () => {
+			const { cpu, labels } = boot(`
+				MOV EAX, [0x5000]
+				HLT
+			handler:
+				POP EDX
+				MOV ECX, CR2
+				HLT
+			`);
+			gate(cpu, ExceptionVector.PAGE_FAULT, labels.get("handler")!);
+
+			// identity map the first 16 pages except page 5
+			const mmu = cpu.getMMU();
+			mmu.writeDWord(0x2000, 0x3000 | PTE_PRESENT | PTE_WRITABLE);
+			for (let page = 0; page < 16; page++) {
+				if (page !== 5) {
+					mmu.writeDWord(0x3000 + page * 4, page * 0x1000 + PTE_PRESENT + PTE_WRITABLE);
+				}
+			}
+			cpu.setControlRegister("CR3", 0x2000);
+			cpu.setControlRegister("CR0", CR0_PG | CR0_PE);
+			run(cpu, 10);
+
+			expect(cpu.getRegister("EDX")).to.equal(0);
+			expect(cpu.getRegister("ECX")).to.equal(0x5000);
+			expect((cpu.getLastFault() as PageFault).linearAddress).to.equal(0x5000);
+		});
+
+		it("should escalate to #DF and shut down when #DF cannot be delivered either", () => {
+			const { cpu, labels } = boot("DB 0xFF, 0xFF\nhandler: HLT");
+			gate(cpu, ExceptionVector.DOUBLE_FAULT, labels.get("handler")!);
+			cpu.setInterruptDescriptorTable(IDT_BASE, 9 * 8 - 1);
+			run(cpu, 5);
+			expect(cpu.getLastFault() instanceof DoubleFault).to.equal(true);
+			expect(cpu.getRegister("ESP")).to.equal(STACK_TOP - 16);
+			expect(cpu.isShutdown()).to.equal(false);
+
+			const second = boot("DB 0xFF, 0xFF");
+			second.cpu.setInterruptDescriptorTable(IDT_BASE, 7);
+			run(second.cpu, 5);
+			expect(second.cpu.isShutdown()).to.equal(true);
+
+			// only a reset brings a shut down CPU back
+			second.cpu.requestInterrupt(0x30);
+			second.cpu.step();
+			expect(second.cpu.isHalted()).to.equal(true);
+		});
+	});
+
+	describe("privilege levels", () => {
+		it("should switch to the TSS stack on INT from ring 3 and return to ring 3 with IRET", () => {
+			const cpu = bootUser("INT 0x80");
+			const state = cpu.getState();
+			expect(state.privilegeLevel).to.equal(3);
+			expect(state.segmentRegisters.CS).to.equal(0x1b);
+			expect(state.segmentRegisters.SS).to.equal(0x23);
+			expect(cpu.getRegister("ESP")).to.equal(0x7000);
+			expect(cpu.getRegister("EBX")).to.equal(1);
+			expect(cpu.getRegister("EDX")).to.equal(0x99);
+
+			// the handler ran on the ring 0 stack below SS, ESP, EFLAGS, CS and EIP
+			expect(cpu.getRegister("EBP")).to.equal(0x9000 - 20);
+			expect(cpu.getRegister("ECX")).to.equal(0x7000);
+		});
+
+		it("should raise #GP for INT through a gate above the current privilege level", () => {
+			const cpu = bootUser("INT 0x81");
+			expect(cpu.getPrivilegeLevel()).to.equal(0);
+			expect(cpu.getRegister("EBX")).to.equal(0);
+			expect(cpu.getRegister("EDI")).to.equal((0x81 << 3) | 0x2);
+			expect(cpu.getRegister("ESI")).to.equal(0x9000 - 20);
+		});
+
+		it("should raise #GP for privileged instructions at ring 3", () => {
+			for (const body of ["MOV EAX, CR0", "CLI", "HLT", "IN AL, 0x60", "OUT 0x60, AL", "LIDT [EAX]"]) {
+				const cpu = bootUser(body);
+				expect(cpu.getLastFault() instanceof GeneralProtectionFault).to.equal(true);
+				expect(cpu.getPrivilegeLevel()).to.equal(0);
+				expect(cpu.getRegister("EDX")).to.equal(0);
+			}
+		});
+
+		it("should refuse IRET to an inner ring", () => {
+			const cpu = bootUser(`
+				PUSHF
+				MOV EAX, 0x08
+				PUSH EAX
+				MOV EAX, 0x1234
+				PUSH EAX
+				IRET
+			`);
+			expect(cpu.getLastFault() instanceof GeneralProtectionFault).to.equal(true);
+			expect(cpu.getRegister("EDI")).to.equal(0x08);
+		});
+	});
+};
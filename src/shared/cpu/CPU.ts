@@ -3,15 +3,42 @@ import {
 	GeneralRegisters,
 	SegmentRegisters,
 	ControlRegisters,
+	CPUContext,
 	Instruction,
 	InstructionPointer,
 	CPUFlags,
 	OperandType,
 	CPUStatistics,
 	Operand,
+	DWord,
+	RepeatPrefix,
+	GateType,
+	InterruptGate,
+	IDT_ENTRY_SIZE,
+	CR0_PE,
+	CR0_PG,
+	CR0_WP,
+	TSS_ESP0_OFFSET,
+	TSS_SS0_OFFSET,
+	TSS_MINIMUM_LIMIT,
+	IRQ_BASE_VECTOR,
+	RESET_VECTOR,
 } from "./types";
 import { MMU } from "./MMU";
 import { InstructionDecoder } from "./InstructionDecoder";
+import { ClockedDevice, InterruptController } from "../devices/types";
+import { IOBus } from "../devices/IOBus";
+import {
+	CPUFault,
+	DivideErrorFault,
+	DoubleFault,
+	ExceptionClass,
+	ExceptionVector,
+	GeneralProtectionFault,
+	InvalidOpcodeFault,
+	InvalidTSSFault,
+	PageFault,
+} from "./Faults";
 
 /**
  * Central Processing Unit (CPU)
@@ -20,11 +47,22 @@ import { InstructionDecoder } from "./InstructionDecoder";
 export class CPU {
 	private state: CPUState;
 	private mmu: MMU;
+	private ioBus: IOBus;
 	private decoder: InstructionDecoder;
 	private stats: CPUStatistics;
+	private pendingInterrupts: number[] = []; // maskable interrupt vectors waiting for IF
+	private interruptController: InterruptController | undefined; // arbitrates IRQ lines when attached
+	private interruptShadow = false; // STI delays recognition by one instruction
+	private shutdown = false; // set by a triple fault, cleared by reset
+	private lastFault: CPUFault | undefined;
+	private devices: ClockedDevice[] = []; // ticked with the cycles spent by each step
+	private hleHandlers = new Map<number, HLEHandler>(); // host services run instead of IDT gates
+	private irqHandlers = new Map<number, HLEHandler>(); // host code taking hardware interrupt vectors
+	private instructionAddress: DWord = 0; // start of the instruction being executed
 
 	constructor(memorySize: number) {
 		this.mmu = new MMU(memorySize);
+		this.ioBus = new IOBus();
 		this.decoder = new InstructionDecoder(this.mmu);
 
 		this.state = {
@@ -53,7 +91,7 @@ export class CPU {
 				CR4: 0,
 			},
 			instructionPointer: {
-				EIP: 0,
+				EIP: RESET_VECTOR,
 			},
 			flags: {
 				CF: false,
@@ -66,8 +104,17 @@ export class CPU {
 				DF: false,
 				OF: false,
 			},
+			interruptDescriptorTable: {
+				base: 0,
+				limit: 256 * IDT_ENTRY_SIZE - 1,
+			},
+			taskRegister: {
+				base: 0,
+				limit: 0,
+			},
+			privilegeLevel: 0,
 			halted: false,
-			interruptEnabled: true,
+			interruptEnabled: false,
 		};
 
 		this.stats = {
@@ -88,7 +135,7 @@ export class CPU {
 	 */
 	reset(): void {
 		this.state.halted = false;
-		this.state.instructionPointer.EIP = 0;
+		this.state.instructionPointer.EIP = RESET_VECTOR;
 		this.stats.cycleCount = 0;
 		this.stats.instructionCount = 0;
 
@@ -116,6 +163,34 @@ export class CPU {
 			DF: false,
 			OF: false,
 		};
+		this.state.interruptEnabled = false;
+
+		// reset control registers, which also turns paging off
+		this.state.controlRegisters = {
+			CR0: 0,
+			CR2: 0,
+			CR3: 0,
+			CR4: 0,
+		};
+		this.mmu.setPagingEnabled(false);
+		this.mmu.setPageDirectoryBase(0);
+		this.mmu.switchAddressSpace(MMU.KERNEL_ASID);
+		this.mmu.setWriteProtect(false);
+
+		// reset interrupt state
+		this.state.interruptDescriptorTable = {
+			base: 0,
+			limit: 256 * IDT_ENTRY_SIZE - 1,
+		};
+		this.state.taskRegister = {
+			base: 0,
+			limit: 0,
+		};
+		this.loadCodeSegment(0);
+		this.pendingInterrupts = [];
+		this.interruptShadow = false;
+		this.shutdown = false;
+		this.lastFault = undefined;
 
 		// clear cache and reset memory statistics
 		this.mmu.clearCaches();
@@ -140,26 +215,159 @@ export class CPU {
 	}
 
 	/**
-	 * Execute a single instruction
+	 * Execute a single instruction and advance attached devices by the cycles it took
 	 */
 	step(): void {
+		const startCycles = this.stats.cycleCount;
+		this.executeStep();
+
+		// time keeps passing while halted so timers can still wake the CPU
+		const elapsed = math.max(this.stats.cycleCount - startCycles, 1);
+		for (const device of this.devices) {
+			device.tick(elapsed);
+		}
+	}
+
+	/**
+	 * Deliver a pending interrupt or execute the next instruction
+	 */
+	private executeStep(): void {
+		// maskable interrupts are recognised between instructions while IF is set
+		const inhibited = this.interruptShadow;
+		this.interruptShadow = false;
+		if (!this.shutdown && !inhibited && this.state.flags.IF) {
+			const vector = this.pendingInterrupts.shift() ?? this.interruptController?.acknowledge();
+			if (vector !== undefined) {
+				this.state.halted = false;
+				this.stats.cycleCount += 10; // same cost as INT
+
+				// hardware vectors only reach host code that asked for IRQs, never the HLE services
+				const handler = this.irqHandlers.get(vector);
+				if (handler) {
+					this.instructionAddress = this.state.instructionPointer.EIP;
+					handler(this);
+					return;
+				}
+
+				const eip = this.state.instructionPointer.EIP;
+				const fault = this.tryDispatch(vector, false);
+				if (fault) {
+					this.raiseException(fault, eip);
+				}
+				return;
+			}
+		}
+
 		if (this.state.halted) return;
 
 		const address = this.state.instructionPointer.EIP;
+		this.instructionAddress = address;
+
+		// snapshot the architectural registers so a fault leaves them as they were
+		const generalRegisters = { ...this.state.generalRegisters };
+		const segmentRegisters = { ...this.state.segmentRegisters };
+		const flags = { ...this.state.flags };
+
+		let instruction: Instruction | undefined;
+		let fault: CPUFault | undefined;
+		try {
+			instruction = this.decoder.decodeInstruction(address);
+
+			// EIP points at the next instruction while executing, so relative jumps and
+			// return addresses are computed from the end of the instruction like on x86
+			this.state.instructionPointer.EIP = address + instruction.size;
+
+			this.executeInstruction(instruction);
+		} catch (err) {
+			if (!(err instanceof CPUFault)) throw err;
+			fault = err;
+		}
 
-		const instruction = this.decoder.decodeInstruction(address);
+		if (fault) {
+			if (fault.exceptionClass === ExceptionClass.FAULT) {
+				this.state.generalRegisters = generalRegisters;
+				this.state.segmentRegisters = segmentRegisters;
+				this.loadCodeSegment(segmentRegisters.CS);
+				this.state.flags = flags;
+				this.state.interruptEnabled = flags.IF;
+				this.state.instructionPointer.EIP = address;
+			}
+			this.raiseException(fault, address);
+			this.stats.cycleCount += 10;
+			return;
+		}
 
-		const currentEIP = this.state.instructionPointer.EIP;
+		if (instruction) {
+			this.stats.instructionCount++;
+			this.stats.cycleCount += this.calculateCycles(instruction);
+		}
+	}
 
-		this.executeInstruction(instruction);
+	/**
+	 * Deliver an exception through the IDT, escalating to #DF and then to a triple fault
+	 * when delivery itself fails
+	 */
+	private raiseException(fault: CPUFault, eip: DWord): void {
+		fault.eip = eip;
+		this.lastFault = fault;
+		if (!this.deliverException(fault)) return;
 
-		this.stats.instructionCount++;
-		this.stats.cycleCount += this.calculateCycles(instruction);
+		// delivering the exception faulted, so escalate to #DF
+		const doubleFault = new DoubleFault();
+		doubleFault.eip = eip;
+		this.lastFault = doubleFault;
+		if (!this.deliverException(doubleFault)) return;
 
-		// only advance EIP if it wasn't changed by the instruction (jumps, calls, etc.)
-		if (this.state.instructionPointer.EIP === currentEIP) {
-			this.state.instructionPointer.EIP += instruction.size;
+		// #DF could not be delivered either
+		this.enterShutdown();
+	}
+
+	/**
+	 * Push an exception frame and enter its handler, returning any fault raised on the way
+	 */
+	private deliverException(fault: CPUFault): CPUFault | undefined {
+		if (fault instanceof PageFault) {
+			this.state.controlRegisters.CR2 = fault.linearAddress;
 		}
+
+		// a host handler (e.g. a kernel terminating the faulting process) replaces the IDT gate
+		const handler = this.getHLEHandler(fault.vector);
+		if (handler) {
+			handler(this);
+			return undefined;
+		}
+		return this.tryDispatch(fault.vector, false, fault.errorCode);
+	}
+
+	/**
+	 * Dispatch an interrupt, returning the fault it raised instead of throwing
+	 */
+	private tryDispatch(vector: number, software: boolean, errorCode?: number): CPUFault | undefined {
+		// delivery may switch stacks and rings before pushing, so undo all of it if it faults
+		const esp = this.state.generalRegisters.ESP;
+		const { CS: cs, SS: ss } = this.state.segmentRegisters;
+		let fault: CPUFault | undefined;
+		try {
+			this.dispatchInterrupt(vector, software, errorCode);
+		} catch (err) {
+			if (!(err instanceof CPUFault)) throw err;
+			fault = err;
+		}
+		if (fault) {
+			this.state.generalRegisters.ESP = esp;
+			this.state.segmentRegisters.SS = ss;
+			this.loadCodeSegment(cs);
+		}
+		return fault;
+	}
+
+	/**
+	 * Triple fault: stop the processor until it is reset
+	 */
+	private enterShutdown(): void {
+		this.shutdown = true;
+		this.state.halted = true;
+		this.pendingInterrupts = [];
 	}
 
 	/**
@@ -185,10 +393,14 @@ export class CPU {
 				this.state.flags.DF = true;
 				break;
 			case "CLI":
+				this.checkIOPrivilege(mnemonic);
 				this.state.flags.IF = false;
 				this.state.interruptEnabled = false;
 				break;
 			case "STI":
+				this.checkIOPrivilege(mnemonic);
+				// interrupts stay blocked until the instruction after STI has run
+				this.interruptShadow = !this.state.flags.IF;
 				this.state.flags.IF = true;
 				this.state.interruptEnabled = true;
 				break;
@@ -207,12 +419,27 @@ export class CPU {
 			case "MOVSXD":
 				this.executeMOVSXD(operands[0], operands[1]);
 				break;
+			case "MOVZX":
+				this.executeMOV(operands[0], operands[1]);
+				break;
+			case "MOVSX":
+				this.executeMOVSX(operands[0], operands[1]);
+				break;
+			case "LEA":
+				this.setOperandValue(operands[0], this.getEffectiveAddress(operands[1]));
+				break;
 			case "ADD":
 				this.executeALUOp(operands[0], operands[1], (a, b) => a + b, true, "ADD");
 				break;
 			case "SUB":
 				this.executeALUOp(operands[0], operands[1], (a, b) => a - b, true, "SUB");
 				break;
+			case "ADC":
+				this.executeCarryOp(operands[0], operands[1], "ADD");
+				break;
+			case "SBB":
+				this.executeCarryOp(operands[0], operands[1], "SUB");
+				break;
 			case "AND":
 				this.executeALUOp(operands[0], operands[1], (a, b) => a & b, true, "AND");
 				break;
@@ -246,53 +473,60 @@ export class CPU {
 			case "JMP":
 				this.executeJMP(operands[0]);
 				break;
-			case "JZ":
-				this.executeJZ(operands[0]);
-				break;
-			case "JNZ":
-				this.executeJNZ(operands[0]);
-				break;
-			case "JA":
-				this.executeJA(operands[0]);
-				break;
-			case "JC":
-				this.executeJC(operands[0]);
-				break;
-			case "JP":
-				this.executeJP(operands[0]);
-				break;
-			case "JNS":
-				this.executeJNS(operands[0]);
-				break;
-			case "JL":
-				this.executeJL(operands[0]);
-				break;
 			case "JO":
-				this.executeJO(operands[0]);
-				break;
 			case "JNO":
-				this.executeJNO(operands[0]);
-				break;
+			case "JC":
 			case "JNC":
-				this.executeJNC(operands[0]);
-				break;
+			case "JZ":
+			case "JNZ":
 			case "JBE":
-				this.executeJBE(operands[0]);
-				break;
+			case "JA":
 			case "JS":
-				this.executeJS(operands[0]);
-				break;
+			case "JNS":
+			case "JP":
 			case "JNP":
-				this.executeJNP(operands[0]);
-				break;
+			case "JL":
 			case "JGE":
-				this.executeJGE(operands[0]);
-				break;
 			case "JLE":
-				this.executeJLE(operands[0]);
-				break;
 			case "JG":
-				this.executeJG(operands[0]);
+				// the condition code is the low nibble of the opcode
+				this.executeJcc(operands[0], instruction.opcode & 0x0f);
+				break;
+			case "SETO":
+			case "SETNO":
+			case "SETC":
+			case "SETNC":
+			case "SETZ":
+			case "SETNZ":
+			case "SETBE":
+			case "SETA":
+			case "SETS":
+			case "SETNS":
+			case "SETP":
+			case "SETNP":
+			case "SETL":
+			case "SETGE":
+			case "SETLE":
+			case "SETG":
+				this.executeSETcc(operands[0], instruction.opcode & 0x0f);
+				break;
+			case "CMOVO":
+			case "CMOVNO":
+			case "CMOVC":
+			case "CMOVNC":
+			case "CMOVZ":
+			case "CMOVNZ":
+			case "CMOVBE":
+			case "CMOVA":
+			case "CMOVS":
+			case "CMOVNS":
+			case "CMOVP":
+			case "CMOVNP":
+			case "CMOVL":
+			case "CMOVGE":
+			case "CMOVLE":
+			case "CMOVG":
+				this.executeCMOVcc(operands[0], operands[1], instruction.opcode & 0x0f);
 				break;
 			case "PUSH":
 				this.executePUSH(operands[0]);
@@ -306,15 +540,48 @@ export class CPU {
 			case "RET":
 				this.executeRET();
 				break;
+			case "MOVS":
+			case "CMPS":
+			case "STOS":
+			case "LODS":
+			case "SCAS":
+				this.executeString(instruction);
+				break;
 			case "NOP":
 				// do nothing
 				break;
 			case "HLT":
+				this.checkPrivileged(mnemonic);
 				this.state.halted = true;
 				break;
 			case "INT":
 				this.executeINT(operands[0]);
 				break;
+			case "IN":
+				this.executeIN(operands[0], operands[1]);
+				break;
+			case "OUT":
+				this.executeOUT(operands[0], operands[1]);
+				break;
+			case "INT3":
+				this.dispatchInterrupt(ExceptionVector.BREAKPOINT, true);
+				break;
+			case "INTO":
+				if (this.state.flags.OF) {
+					this.dispatchInterrupt(ExceptionVector.OVERFLOW, true);
+				}
+				break;
+			case "IRET":
+				this.executeIRET();
+				break;
+			case "LIDT":
+				this.checkPrivileged(mnemonic);
+				this.executeLIDT(operands[0]);
+				break;
+			case "INVLPG":
+				this.checkPrivileged(mnemonic);
+				this.mmu.invalidatePage(this.getEffectiveAddress(operands[0]));
+				break;
 			case "NOT":
 				this.executeNOT(operands[0]);
 				break;
@@ -337,17 +604,50 @@ export class CPU {
 				this.executeIDIV(operands[0]);
 				break;
 			default:
-				throw `Unknown instruction: ${mnemonic}`;
+				throw new InvalidOpcodeFault(`Unsupported instruction: ${mnemonic}`);
 		}
 	}
 
+	/**
+	 * Compute the linear address referenced by a memory operand
+	 */
+	private getEffectiveAddress(operand: Operand): DWord {
+		let address: number;
+
+		switch (operand.type) {
+			case OperandType.MEMORY:
+				address = operand.value;
+				break;
+			case OperandType.REGISTER_INDIRECT:
+				if (operand.register === undefined) {
+					throw "Register name is undefined for indirect addressing";
+				}
+				address = this.getRegisterValue(operand.register);
+				break;
+			case OperandType.REGISTER_INDIRECT_DISPLACEMENT:
+				if (operand.register === undefined) {
+					throw "Register name is undefined for indirect addressing with displacement";
+				}
+				address = this.getRegisterValue(operand.register) + (operand.displacement ?? 0);
+				break;
+			default:
+				throw `Operand type ${operand.type} does not reference memory`;
+		}
+
+		// scaled index from a SIB byte
+		if (operand.index !== undefined) {
+			address += this.getRegisterValue(operand.index) * (operand.scale ?? 1);
+		}
+
+		// address arithmetic wraps around at 4GB
+		return address >>> 0;
+	}
+
 	/**
 	 * Get operand value
 	 */
 	private getOperandValue(operand: Operand): number {
 		let address: number;
-		let baseAddress: number;
-		let finalAddress: number;
 
 		if (!operand) {
 			throw "Operand is undefined";
@@ -362,32 +662,14 @@ export class CPU {
 			case OperandType.IMMEDIATE:
 				return operand.value ?? 0;
 			case OperandType.MEMORY:
-				return operand.size === 1
-					? this.mmu.readByte(operand.value)
-					: operand.size === 2
-						? this.mmu.readWord(operand.value)
-						: this.mmu.readDWord(operand.value);
 			case OperandType.REGISTER_INDIRECT:
-				if (operand.register === undefined) {
-					throw "Register name is undefined for indirect addressing";
-				}
-				address = this.getRegisterValue(operand.register);
+			case OperandType.REGISTER_INDIRECT_DISPLACEMENT:
+				address = this.getEffectiveAddress(operand);
 				return operand.size === 1
 					? this.mmu.readByte(address)
 					: operand.size === 2
 						? this.mmu.readWord(address)
 						: this.mmu.readDWord(address);
-			case OperandType.REGISTER_INDIRECT_DISPLACEMENT:
-				if (operand.register === undefined) {
-					throw "Register name is undefined for indirect addressing with displacement";
-				}
-				baseAddress = this.getRegisterValue(operand.register);
-				finalAddress = baseAddress + (operand.displacement ?? 0);
-				return operand.size === 1
-					? this.mmu.readByte(finalAddress)
-					: operand.size === 2
-						? this.mmu.readWord(finalAddress)
-						: this.mmu.readDWord(finalAddress);
 			default:
 				throw `Unsupported operand type: ${operand.type}`;
 		}
@@ -398,8 +680,6 @@ export class CPU {
 	 */
 	private setOperandValue(operand: Operand, value: number): void {
 		let address: number;
-		let baseAddress: number;
-		let finalAddress: number;
 
 		switch (operand.type) {
 			case OperandType.REGISTER:
@@ -409,19 +689,9 @@ export class CPU {
 				this.setRegisterValue(operand.register, value);
 				break;
 			case OperandType.MEMORY:
-				if (operand.size === 1) {
-					this.mmu.writeByte(operand.value, value & 0xff);
-				} else if (operand.size === 2) {
-					this.mmu.writeWord(operand.value, value & 0xffff);
-				} else {
-					this.mmu.writeDWord(operand.value, value >>> 0);
-				}
-				break;
 			case OperandType.REGISTER_INDIRECT:
-				if (operand.register === undefined) {
-					throw "Register name is undefined for indirect addressing";
-				}
-				address = this.getRegisterValue(operand.register);
+			case OperandType.REGISTER_INDIRECT_DISPLACEMENT:
+				address = this.getEffectiveAddress(operand);
 				if (operand.size === 1) {
 					this.mmu.writeByte(address, value & 0xff);
 				} else if (operand.size === 2) {
@@ -430,25 +700,54 @@ export class CPU {
 					this.mmu.writeDWord(address, value >>> 0);
 				}
 				break;
-			case OperandType.REGISTER_INDIRECT_DISPLACEMENT:
-				if (operand.register === undefined) {
-					throw "Register name is undefined for indirect addressing with displacement";
-				}
-				baseAddress = this.getRegisterValue(operand.register);
-				finalAddress = baseAddress + (operand.displacement ?? 0);
-				if (operand.size === 1) {
-					this.mmu.writeByte(finalAddress, value & 0xff);
-				} else if (operand.size === 2) {
-					this.mmu.writeWord(finalAddress, value & 0xffff);
-				} else {
-					this.mmu.writeDWord(finalAddress, value >>> 0);
-				}
-				break;
 			default:
 				throw `Cannot set value for operand type: ${operand.type}`;
 		}
 	}
 
+	/**
+	 * Push a double word onto the stack
+	 */
+	private pushDWord(value: number): void {
+		this.state.generalRegisters.ESP = (this.state.generalRegisters.ESP - 4) >>> 0;
+		this.mmu.writeDWord(this.state.generalRegisters.ESP, value >>> 0);
+	}
+
+	/**
+	 * Pop a double word off the stack
+	 */
+	private popDWord(): number {
+		const value = this.mmu.readDWord(this.state.generalRegisters.ESP);
+		this.state.generalRegisters.ESP = (this.state.generalRegisters.ESP + 4) >>> 0;
+		return value;
+	}
+
+	/**
+	 * Push a word onto the stack
+	 */
+	private pushWord(value: number): void {
+		this.state.generalRegisters.ESP = (this.state.generalRegisters.ESP - 2) >>> 0;
+		this.mmu.writeWord(this.state.generalRegisters.ESP, value & 0xffff);
+	}
+
+	/**
+	 * Pop a word off the stack
+	 */
+	private popWord(): number {
+		const value = this.mmu.readWord(this.state.generalRegisters.ESP);
+		this.state.generalRegisters.ESP = (this.state.generalRegisters.ESP + 2) >>> 0;
+		return value;
+	}
+
+	/**
+	 * Interpret the low size bytes of a value as a signed integer
+	 */
+	private signExtend(value: number, size: number): number {
+		const bits = size * 8;
+		const truncated = bits === 32 ? value >>> 0 : value & ((1 << bits) - 1);
+		return truncated >= 2 ** (bits - 1) ? truncated - 2 ** bits : truncated;
+	}
+
 	/**
 	 * Execute RDRAND instruction (Random Number Generator)
 	 */
@@ -503,18 +802,14 @@ export class CPU {
 	 * Execute PUSHF instruction
 	 */
 	private executePUSHF(): void {
-		const flags = this.packFlags();
-		this.state.generalRegisters.ESP -= 4;
-		this.mmu.writeDWord(this.state.generalRegisters.ESP, flags);
+		this.pushDWord(this.packFlags());
 	}
 
 	/**
 	 * Execute POPF instruction
 	 */
 	private executePOPF(): void {
-		const flags = this.mmu.readDWord(this.state.generalRegisters.ESP);
-		this.state.generalRegisters.ESP += 4;
-		this.unpackFlags(flags);
+		this.unpackFlags(this.popDWord());
 	}
 
 	/**
@@ -549,6 +844,13 @@ export class CPU {
 		this.setOperandValue(dest, value);
 	}
 
+	/**
+	 * Execute MOVSX instruction (sign-extend a byte or word into a wider register)
+	 */
+	private executeMOVSX(dest: Operand, src: Operand): void {
+		this.setOperandValue(dest, this.signExtend(this.getOperandValue(src), src.size));
+	}
+
 	/**
 	 * Execute ALU operations (ADD, SUB, AND, OR, XOR)
 	 */
@@ -566,9 +868,31 @@ export class CPU {
 		this.setOperandValue(dest, result);
 
 		if (updateFlags && opName) {
-			this.updateFlags(result, destValue, srcValue, opName);
+			this.updateFlags(result, destValue, srcValue, opName, dest.size);
 		} else if (updateFlags) {
-			this.updateFlags(result);
+			this.updateFlags(result, undefined, undefined, undefined, dest.size);
+		}
+	}
+
+	/**
+	 * Execute ADC/SBB: ADD/SUB with the carry flag added in as a carry or borrow
+	 */
+	private executeCarryOp(dest: Operand, src: Operand, opName: "ADD" | "SUB"): void {
+		const carry = this.state.flags.CF ? 1 : 0;
+		const destValue = this.getOperandValue(dest);
+		const srcValue = this.getOperandValue(src);
+		const result = opName === "ADD" ? destValue + srcValue + carry : destValue - srcValue - carry;
+
+		this.setOperandValue(dest, result);
+		this.updateFlags(result, destValue, srcValue, opName, dest.size);
+
+		// the carry-in alone can produce a borrow or a half carry
+		const mask = dest.size === 4 ? 0xffffffff : (1 << (dest.size * 8)) - 1;
+		if (opName === "ADD") {
+			this.state.flags.AF = (destValue & 0xf) + (srcValue & 0xf) + carry > 0xf;
+		} else {
+			this.state.flags.CF = (destValue & mask) < (srcValue & mask) + carry;
+			this.state.flags.AF = (destValue & 0xf) < (srcValue & 0xf) + carry;
 		}
 	}
 
@@ -579,7 +903,7 @@ export class CPU {
 		const value = this.getOperandValue(operand);
 		const result = value + 1;
 		this.setOperandValue(operand, result);
-		this.updateFlags(result, value, 1, "INC");
+		this.updateFlags(result, value, 1, "INC", operand.size);
 	}
 
 	/**
@@ -589,29 +913,34 @@ export class CPU {
 		const value = this.getOperandValue(operand);
 		const result = value - 1;
 		this.setOperandValue(operand, result);
-		this.updateFlags(result, value, 1, "DEC");
+		this.updateFlags(result, value, 1, "DEC", operand.size);
 	}
 
 	/**
 	 * Execute SHL instruction
 	 */
 	private executeSHL(dest: Operand, count: Operand): void {
+		// the count is masked to 5 bits and a zero count leaves the flags alone
+		const shiftCount = this.getOperandValue(count) & 0x1f;
+		if (shiftCount === 0) return;
+
 		const value = this.getOperandValue(dest);
-		const shiftCount = this.getOperandValue(count);
 		const result = value << shiftCount;
 		this.setOperandValue(dest, result);
-		this.updateFlags(result, value, shiftCount, "SHL");
+		this.updateFlags(result, value, shiftCount, "SHL", dest.size);
 	}
 
 	/**
 	 * Execute SHR instruction
 	 */
 	private executeSHR(dest: Operand, count: Operand): void {
+		const shiftCount = this.getOperandValue(count) & 0x1f;
+		if (shiftCount === 0) return;
+
 		const value = this.getOperandValue(dest);
-		const shiftCount = this.getOperandValue(count);
 		const result = value >>> shiftCount;
 		this.setOperandValue(dest, result);
-		this.updateFlags(result, value, shiftCount, "SHR");
+		this.updateFlags(result, value, shiftCount, "SHR", dest.size);
 	}
 
 	/**
@@ -621,7 +950,7 @@ export class CPU {
 		const value1 = this.getOperandValue(op1);
 		const value2 = this.getOperandValue(op2);
 		const result = value1 & value2;
-		this.updateFlags(result);
+		this.updateFlags(result, undefined, undefined, undefined, op1.size);
 
 		this.state.flags.CF = false;
 		this.state.flags.OF = false;
@@ -644,218 +973,373 @@ export class CPU {
 		const value1 = this.getOperandValue(op1);
 		const value2 = this.getOperandValue(op2);
 		const result = value1 - value2;
-		this.updateFlags(result, value1, value2, "CMP");
+		this.updateFlags(result, value1, value2, "CMP", op1.size);
 	}
 
 	/**
 	 * Execute JMP instruction
 	 */
 	private executeJMP(target: Operand): void {
-		if (target.size === 1) {
-			// relative jump with 8-bit offset (signed)
-			const offset = target.value > 127 ? target.value - 256 : target.value;
-			this.state.instructionPointer.EIP += offset;
-		} else {
-			// absolute jump for 32-bit operands
-			this.state.instructionPointer.EIP = target.value;
-		}
+		this.state.instructionPointer.EIP = this.resolveBranchTarget(target);
 	}
 
 	/**
-	 * Execute JZ instruction
+	 * Resolve the destination of a JMP/CALL/Jcc: immediates are signed offsets from the next
+	 * instruction, register and memory operands hold an absolute address
 	 */
-	private executeJZ(target: Operand): void {
-		if (this.state.flags.ZF) {
-			this.executeJMP(target);
+	private resolveBranchTarget(target: Operand): DWord {
+		if (target.type !== OperandType.IMMEDIATE) {
+			return this.getOperandValue(target) >>> 0;
 		}
+
+		let offset: number;
+		if (target.size === 1) {
+			// 8-bit offset (signed)
+			offset = target.value > 127 ? target.value - 256 : target.value;
+		} else {
+			// 32-bit offset (signed)
+			offset = target.value > 0x7fffffff ? target.value - 0x100000000 : target.value;
+		}
+		return (this.state.instructionPointer.EIP + offset) >>> 0;
 	}
 
 	/**
-	 * Execute JNZ instruction
+	 * Evaluate an x86 condition code, the low nibble of the Jcc, SETcc and CMOVcc opcodes
 	 */
-	private executeJNZ(target: Operand): void {
-		if (!this.state.flags.ZF) {
-			this.executeJMP(target);
+	private evaluateCondition(condition: number): boolean {
+		const flags = this.state.flags;
+		let result: boolean;
+
+		// even codes test a condition, the odd code after each one is its negation
+		switch (condition >> 1) {
+			case 0: // O
+				result = flags.OF;
+				break;
+			case 1: // B/C (unsigned below)
+				result = flags.CF;
+				break;
+			case 2: // E/Z
+				result = flags.ZF;
+				break;
+			case 3: // BE (unsigned below or equal)
+				result = flags.CF || flags.ZF;
+				break;
+			case 4: // S
+				result = flags.SF;
+				break;
+			case 5: // P
+				result = flags.PF;
+				break;
+			case 6: // L (signed less)
+				result = flags.SF !== flags.OF;
+				break;
+			default: // LE (signed less or equal)
+				result = flags.ZF || flags.SF !== flags.OF;
 		}
+
+		return condition % 2 === 0 ? result : !result;
 	}
 
 	/**
-	 * Execute JO instruction (Jump if Overflow)
+	 * Execute a conditional jump
 	 */
-	private executeJO(target: Operand): void {
-		if (this.state.flags.OF) {
+	private executeJcc(target: Operand, condition: number): void {
+		if (this.evaluateCondition(condition)) {
 			this.executeJMP(target);
 		}
 	}
 
 	/**
-	 * Execute JNO instruction (Jump if Not Overflow)
+	 * Execute SETcc instruction (store 1 or 0 in a byte)
 	 */
-	private executeJNO(target: Operand): void {
-		if (!this.state.flags.OF) {
-			this.executeJMP(target);
-		}
+	private executeSETcc(dest: Operand, condition: number): void {
+		this.setOperandValue(dest, this.evaluateCondition(condition) ? 1 : 0);
 	}
 
 	/**
-	 * Execute JNC instruction (Jump if Not Carry)
+	 * Execute CMOVcc instruction (the source is read even when nothing is moved)
 	 */
-	private executeJNC(target: Operand): void {
-		if (!this.state.flags.CF) {
-			this.executeJMP(target);
+	private executeCMOVcc(dest: Operand, src: Operand, condition: number): void {
+		const value = this.getOperandValue(src);
+		if (this.evaluateCondition(condition)) {
+			this.setOperandValue(dest, value);
 		}
 	}
 
 	/**
-	 * Execute JBE instruction (Jump if Below or Equal)
+	 * Execute one element of a string instruction; a repeated one then restarts itself until ECX
+	 * runs out or the REPE/REPNE condition fails, so interrupts are taken between elements
 	 */
-	private executeJBE(target: Operand): void {
-		if (this.state.flags.CF || this.state.flags.ZF) {
-			this.executeJMP(target);
+	private executeString(instruction: Instruction): void {
+		const { mnemonic, operands } = instruction;
+		const repeatPrefix = instruction.repeat;
+		const registers = this.state.generalRegisters;
+		if (repeatPrefix !== undefined && registers.ECX === 0) return;
+
+		const compares = mnemonic === "CMPS" || mnemonic === "SCAS";
+		if (compares) {
+			this.executeCMP(operands[0], operands[1]);
+		} else {
+			this.setOperandValue(operands[0], this.getOperandValue(operands[1]));
+		}
+
+		// step ESI/EDI past the element, backwards when DF is set
+		const delta = this.state.flags.DF ? -operands[0].size : operands[0].size;
+		for (const operand of operands) {
+			if (operand.type === OperandType.REGISTER_INDIRECT && operand.register !== undefined) {
+				this.setRegisterValue(operand.register, this.getRegisterValue(operand.register) + delta);
+			}
+		}
+
+		if (repeatPrefix === undefined) return;
+		registers.ECX = (registers.ECX - 1) >>> 0;
+
+		let again = registers.ECX !== 0;
+		if (compares) {
+			again = again && this.state.flags.ZF === (repeatPrefix === RepeatPrefix.REPE);
+		}
+		if (again) {
+			this.restartInstruction();
 		}
 	}
 
 	/**
-	 * Execute JS instruction (Jump if Sign)
+	 * Execute PUSH instruction
 	 */
-	private executeJS(target: Operand): void {
-		if (this.state.flags.SF) {
-			this.executeJMP(target);
+	private executePUSH(operand: Operand): void {
+		const value = this.getOperandValue(operand);
+		if (operand.size === 2) {
+			this.pushWord(value);
+		} else {
+			this.pushDWord(value);
 		}
 	}
 
 	/**
-	 * Execute JNP instruction (Jump if Not Parity)
+	 * Execute POP instruction
 	 */
-	private executeJNP(target: Operand): void {
-		if (!this.state.flags.PF) {
-			this.executeJMP(target);
-		}
+	private executePOP(operand: Operand): void {
+		this.setOperandValue(operand, operand.size === 2 ? this.popWord() : this.popDWord());
 	}
 
 	/**
-	 * Execute JGE instruction (Jump if Greater or Equal)
+	 * Execute CALL instruction
 	 */
-	private executeJGE(target: Operand): void {
-		if (this.state.flags.SF === this.state.flags.OF) {
-			this.executeJMP(target);
-		}
+	private executeCALL(target: Operand): void {
+		// resolve the target first, an indirect one may be addressed through ESP
+		const destination = this.resolveBranchTarget(target);
+
+		// push return address onto stack
+		this.pushDWord(this.state.instructionPointer.EIP);
+
+		// jump to target
+		this.state.instructionPointer.EIP = destination;
 	}
 
 	/**
-	 * Execute JLE instruction (Jump if Less or Equal)
+	 * Execute RET instruction
 	 */
-	private executeJLE(target: Operand): void {
-		if (this.state.flags.ZF || this.state.flags.SF !== this.state.flags.OF) {
-			this.executeJMP(target);
-		}
+	private executeRET(): void {
+		this.state.instructionPointer.EIP = this.popDWord();
 	}
 
 	/**
-	 * Execute JG instruction (Jump if Greater)
+	 * Execute INT instruction
 	 */
-	private executeJG(target: Operand): void {
-		if (!this.state.flags.ZF && this.state.flags.SF === this.state.flags.OF) {
-			this.executeJMP(target);
+	private executeINT(vector: Operand): void {
+		const value = this.getOperandValue(vector);
+
+		// high-level emulated services replace the guest handler entirely
+		const handler = this.getHLEHandler(value);
+		if (handler) {
+			handler(this);
+			return;
 		}
+
+		this.dispatchInterrupt(value, true);
 	}
 
 	/**
-	 * Execute JA instruction (Jump if Above - unsigned)
+	 * Execute IN instruction (read from an I/O port into AL/AX/EAX)
 	 */
-	private executeJA(target: Operand): void {
-		if (!this.state.flags.CF && !this.state.flags.ZF) {
-			this.executeJMP(target);
-		}
+	private executeIN(dest: Operand, port: Operand): void {
+		this.checkIOPrivilege("IN");
+		const value = this.ioBus.read(this.getOperandValue(port), dest.size);
+		this.setOperandValue(dest, value);
 	}
 
 	/**
-	 * Execute JC instruction (Jump if Carry)
+	 * Execute OUT instruction (write AL/AX/EAX to an I/O port)
 	 */
-	private executeJC(target: Operand): void {
-		if (this.state.flags.CF) {
-			this.executeJMP(target);
-		}
+	private executeOUT(port: Operand, src: Operand): void {
+		this.checkIOPrivilege("OUT");
+		this.ioBus.write(this.getOperandValue(port), this.getOperandValue(src), src.size);
 	}
 
 	/**
-	 * Execute JP instruction (Jump if Parity)
+	 * Execute IRET instruction (return from interrupt handler)
 	 */
-	private executeJP(target: Operand): void {
-		if (this.state.flags.PF) {
-			this.executeJMP(target);
+	private executeIRET(): void {
+		const eip = this.popDWord();
+		const cs = this.popDWord() & 0xffff;
+		const flags = this.popDWord();
+
+		const returnLevel = cs & 0x3;
+		if (returnLevel < this.state.privilegeLevel) {
+			throw new GeneralProtectionFault("IRET cannot return to an inner ring", cs & 0xfffc);
+		}
+
+		// returning to an outer ring also restores the interrupted stack
+		let outerStack: [DWord, number] | undefined;
+		if (returnLevel > this.state.privilegeLevel) {
+			const esp = this.popDWord();
+			outerStack = [esp, this.popDWord() & 0xffff];
+		}
+
+		// flags are restored with the privileges of the handler
+		this.unpackFlags(flags);
+		this.state.instructionPointer.EIP = eip;
+		this.loadCodeSegment(cs);
+		if (outerStack) {
+			this.state.generalRegisters.ESP = outerStack[0];
+			this.state.segmentRegisters.SS = outerStack[1];
 		}
 	}
 
 	/**
-	 * Execute JNS instruction (Jump if Not Sign)
+	 * Execute LIDT instruction (load the interrupt descriptor table register)
 	 */
-	private executeJNS(target: Operand): void {
-		if (!this.state.flags.SF) {
-			this.executeJMP(target);
-		}
+	private executeLIDT(source: Operand): void {
+		const address = this.getEffectiveAddress(source);
+		this.state.interruptDescriptorTable = {
+			limit: this.mmu.readWord(address),
+			base: this.mmu.readDWord(address + 2),
+		};
 	}
 
 	/**
-	 * Execute JL instruction (Jump if Less - signed)
+	 * Deliver an interrupt through its IDT gate
 	 */
-	private executeJL(target: Operand): void {
-		if (this.state.flags.SF !== this.state.flags.OF) {
-			this.executeJMP(target);
+	private dispatchInterrupt(vector: number, software: boolean, errorCode?: number): void {
+		const currentLevel = this.state.privilegeLevel;
+
+		// IDT and TSS reads are implicit supervisor accesses
+		this.mmu.setPrivilegeLevel(0);
+
+		const gate = this.readInterruptGate(vector);
+		if (!gate || !gate.present) {
+			// error code references the IDT entry (IDT bit set)
+			throw new GeneralProtectionFault(
+				`No interrupt handler for vector 0x${string.format("%02X", vector)}`,
+				(vector << 3) | 0x2,
+			);
+		}
+
+		// INT n from user code may only use gates opened to its ring
+		if (software && gate.dpl < currentLevel) {
+			throw new GeneralProtectionFault(
+				`Gate 0x${string.format("%02X", vector)} is not accessible at CPL ${currentLevel}`,
+				(vector << 3) | 0x2,
+			);
 		}
+
+		// there is no GDT, so the RPL of the gate selector is the privilege level of the handler
+		const targetLevel = gate.selector & 0x3;
+		if (targetLevel > currentLevel) {
+			throw new GeneralProtectionFault("Interrupt handler cannot run in an outer ring", gate.selector & 0xfffc);
+		}
+
+		const flags = this.packFlags();
+		const { CS: cs, SS: ss } = this.state.segmentRegisters;
+		const eip = this.state.instructionPointer.EIP;
+		const esp = this.state.generalRegisters.ESP;
+
+		// entering an inner ring switches to the stack named by the TSS
+		const stackSwitch = targetLevel < currentLevel;
+		if (stackSwitch) {
+			const [innerESP, innerSS] = this.readInnerStack(targetLevel);
+			this.state.generalRegisters.ESP = innerESP;
+			this.state.segmentRegisters.SS = innerSS;
+		}
+		this.loadCodeSegment(gate.selector);
+
+		// save the interrupted context on the handler's stack
+		if (stackSwitch) {
+			this.pushDWord(ss);
+			this.pushDWord(esp);
+		}
+		this.pushDWord(flags);
+		this.pushDWord(cs);
+		this.pushDWord(eip);
+		if (errorCode !== undefined) {
+			this.pushDWord(errorCode);
+		}
+
+		// interrupt gates mask further interrupts, trap gates don't
+		if (gate.type === GateType.INTERRUPT) {
+			this.state.flags.IF = false;
+			this.state.interruptEnabled = false;
+		}
+		this.state.flags.TF = false;
+
+		this.state.instructionPointer.EIP = gate.offset;
+		this.stats.interrupts++;
 	}
 
 	/**
-	 * Execute PUSH instruction
+	 * Read an IDT gate from memory (undefined if outside the table limit)
 	 */
-	private executePUSH(operand: Operand): void {
-		const value = this.getOperandValue(operand);
-		this.state.generalRegisters.ESP -= 4;
-		this.mmu.writeDWord(this.state.generalRegisters.ESP, value);
+	private readInterruptGate(vector: number): InterruptGate | undefined {
+		const idt = this.state.interruptDescriptorTable;
+		if (vector * IDT_ENTRY_SIZE + IDT_ENTRY_SIZE - 1 > idt.limit) {
+			return undefined;
+		}
+
+		const entry = idt.base + vector * IDT_ENTRY_SIZE;
+		const attributes = this.mmu.readByte(entry + 5);
+		return {
+			offset: (this.mmu.readWord(entry) | (this.mmu.readWord(entry + 6) << 16)) >>> 0,
+			selector: this.mmu.readWord(entry + 2),
+			type: (attributes & 0x1) !== 0 ? GateType.TRAP : GateType.INTERRUPT,
+			dpl: (attributes >> 5) & 0x3,
+			present: (attributes & 0x80) !== 0,
+		};
 	}
 
 	/**
-	 * Execute POP instruction
+	 * Read the ring 0 stack pointer from the TSS
 	 */
-	private executePOP(operand: Operand): void {
-		const value = this.mmu.readDWord(this.state.generalRegisters.ESP);
-		this.setOperandValue(operand, value);
-		this.state.generalRegisters.ESP += 4;
+	private readInnerStack(level: number): [DWord, number] {
+		const tss = this.state.taskRegister;
+		if (level !== 0 || tss.limit < TSS_SS0_OFFSET + 1) {
+			throw new InvalidTSSFault(`No ring ${level} stack in the TSS`);
+		}
+		return [this.mmu.readDWord(tss.base + TSS_ESP0_OFFSET), this.mmu.readWord(tss.base + TSS_SS0_OFFSET)];
 	}
 
 	/**
-	 * Execute CALL instruction
+	 * Load CS and derive the current privilege level from its RPL
 	 */
-	private executeCALL(target: Operand): void {
-		// push return address onto stack
-		this.state.generalRegisters.ESP -= 4;
-		this.mmu.writeDWord(this.state.generalRegisters.ESP, this.state.instructionPointer.EIP);
-
-		// jump to target
-		this.executeJMP(target);
+	private loadCodeSegment(selector: number): void {
+		this.state.segmentRegisters.CS = selector;
+		this.state.privilegeLevel = selector & 0x3;
+		this.mmu.setPrivilegeLevel(this.state.privilegeLevel);
 	}
 
 	/**
-	 * Execute RET instruction
+	 * Raise #GP unless running at ring 0
 	 */
-	private executeRET(): void {
-		const returnAddress = this.mmu.readDWord(this.state.generalRegisters.ESP);
-		this.state.generalRegisters.ESP += 4;
-		this.state.instructionPointer.EIP = returnAddress;
+	private checkPrivileged(mnemonic: string): void {
+		if (this.state.privilegeLevel !== 0) {
+			throw new GeneralProtectionFault(`${mnemonic} is privileged (CPL ${this.state.privilegeLevel})`);
+		}
 	}
 
 	/**
-	 * Execute INT instruction
+	 * Raise #GP unless CPL <= IOPL; IOPL is always 0, so only ring 0 passes
 	 */
-	private executeINT(vector: Operand): void {
-		const vectorNumber = this.getOperandValue(vector);
-		// just increment interrupt counter here
-		this.stats.interrupts++;
-
-		// treat as NOP for now, maybe interrupt vector table l8r
-		if (vectorNumber === 0x21) {
-			// dos interrupt
-		}
+	private checkIOPrivilege(mnemonic: string): void {
+		this.checkPrivileged(mnemonic);
 	}
 
 	/**
@@ -875,7 +1359,7 @@ export class CPU {
 		const value = this.getOperandValue(operand);
 		const result = -value; // two's complement negation
 		this.setOperandValue(operand, result);
-		this.updateFlags(result);
+		this.updateFlags(result, undefined, undefined, undefined, operand.size);
 		// set carry flag if operand was not zero
 		this.state.flags.CF = value !== 0;
 	}
@@ -885,6 +1369,15 @@ export class CPU {
 	 */
 	private executeMUL(operand: Operand): void {
 		const multiplier = this.getOperandValue(operand);
+		if (operand.size === 2) {
+			// DX:AX = AX * r/m16
+			const product = this.getRegisterValue("AX") * multiplier;
+			this.setRegisterValue("AX", product);
+			this.setRegisterValue("DX", product >>> 16);
+			this.state.flags.CF = this.state.flags.OF = product > 0xffff;
+			return;
+		}
+
 		const multiplicand = this.state.generalRegisters.EAX;
 		const result = multiplicand * multiplier;
 
@@ -901,6 +1394,15 @@ export class CPU {
 	 */
 	private executeIMUL(operand: Operand): void {
 		const multiplier = this.getOperandValue(operand);
+		if (operand.size === 2) {
+			// DX:AX = AX * r/m16, signed
+			const product = this.signExtend(this.getRegisterValue("AX"), 2) * this.signExtend(multiplier, 2);
+			this.setRegisterValue("AX", product);
+			this.setRegisterValue("DX", product >>> 16);
+			this.state.flags.CF = this.state.flags.OF = product < -0x8000 || product > 0x7fff;
+			return;
+		}
+
 		const multiplicand = this.state.generalRegisters.EAX;
 
 		// convert to signed 32-bit
@@ -921,19 +1423,15 @@ export class CPU {
 	 * Execute IMUL with two operands (0x0F 0xAF)
 	 */
 	private executeIMUL2(dest: Operand, src: Operand): void {
-		const value1 = this.getOperandValue(dest);
-		const value2 = this.getOperandValue(src);
-
-		// convert to signed 32-bit
-		const signed1 = value1 > 0x7fffffff ? value1 - 0x100000000 : value1;
-		const signed2 = value2 > 0x7fffffff ? value2 - 0x100000000 : value2;
+		const signed1 = this.signExtend(this.getOperandValue(dest), dest.size);
+		const signed2 = this.signExtend(this.getOperandValue(src), src.size);
 
 		const result = signed1 * signed2;
 		this.setOperandValue(dest, result & 0xffffffff);
+		this.updateFlags(result & 0xffffffff, undefined, undefined, undefined, dest.size);
 
-		// set CF and OF if result doesn't fit in 32 bits
-		this.state.flags.CF = this.state.flags.OF = result < -0x80000000 || result > 0x7fffffff;
-		this.updateFlags(result & 0xffffffff);
+		// set CF and OF if the result doesn't fit in the destination
+		this.state.flags.CF = this.state.flags.OF = this.signExtend(result, dest.size) !== result;
 	}
 
 	/**
@@ -942,7 +1440,19 @@ export class CPU {
 	private executeDIV(operand: Operand): void {
 		const divisor = this.getOperandValue(operand);
 		if (divisor === 0) {
-			throw "Division by zero";
+			throw new DivideErrorFault("Division by zero");
+		}
+
+		if (operand.size === 2) {
+			// AX = DX:AX / r/m16, DX = remainder
+			const wordDividend = this.getRegisterValue("DX") * 0x10000 + this.getRegisterValue("AX");
+			const wordQuotient = math.floor(wordDividend / divisor);
+			if (wordQuotient > 0xffff) {
+				throw new DivideErrorFault("Division overflow");
+			}
+			this.setRegisterValue("AX", wordQuotient);
+			this.setRegisterValue("DX", wordDividend % divisor);
+			return;
 		}
 
 		// For 32-bit: dividend is just EAX
@@ -960,7 +1470,21 @@ export class CPU {
 	private executeIDIV(operand: Operand): void {
 		const divisor = this.getOperandValue(operand);
 		if (divisor === 0) {
-			throw "Division by zero";
+			throw new DivideErrorFault("Division by zero");
+		}
+
+		if (operand.size === 2) {
+			// AX = DX:AX / r/m16 rounded toward zero, DX = remainder with the dividend's sign
+			const wordDividend = this.signExtend((this.getRegisterValue("DX") << 16) | this.getRegisterValue("AX"), 4);
+			const wordDivisor = this.signExtend(divisor, 2);
+			const exact = wordDividend / wordDivisor;
+			const wordQuotient = exact < 0 ? math.ceil(exact) : math.floor(exact);
+			if (wordQuotient < -0x8000 || wordQuotient > 0x7fff) {
+				throw new DivideErrorFault("Division overflow");
+			}
+			this.setRegisterValue("AX", wordQuotient);
+			this.setRegisterValue("DX", wordDividend - wordQuotient * wordDivisor);
+			return;
 		}
 
 		// for 32-bit: dividend is just EAX (convert to signed)
@@ -975,7 +1499,7 @@ export class CPU {
 		const remainder = dividend % signedDivisor;
 
 		if (quotient < -0x80000000 || quotient > 0x7fffffff) {
-			throw "Division overflow";
+			throw new DivideErrorFault("Division overflow");
 		}
 
 		this.state.generalRegisters.EAX = quotient & 0xffffffff;
@@ -1014,27 +1538,42 @@ export class CPU {
 		this.state.flags.ZF = (flags & 0x0040) !== 0;
 		this.state.flags.SF = (flags & 0x0080) !== 0;
 		this.state.flags.TF = (flags & 0x0100) !== 0;
-		this.state.flags.IF = (flags & 0x0200) !== 0;
 		this.state.flags.DF = (flags & 0x0400) !== 0;
 		this.state.flags.OF = (flags & 0x0800) !== 0;
+
+		// IF only changes when CPL <= IOPL (always 0); elsewhere POPF/IRET leave it alone
+		if (this.state.privilegeLevel === 0) {
+			this.state.flags.IF = (flags & 0x0200) !== 0;
+			this.state.interruptEnabled = this.state.flags.IF;
+		}
 	}
 
 	/**
-	 * Update CPU flags based on result with operation context
+	 * Update CPU flags based on result with operation context; size is the operand size in bytes
 	 */
-	private updateFlags(result: number, operand1?: number, operand2?: number, operation?: string): void {
-		// ensure result is treated as 32-bit unsigned
-		const result32 = result >>> 0;
+	private updateFlags(
+		result: number,
+		operand1?: number,
+		operand2?: number,
+		operation?: string,
+		size: number = 4,
+	): void {
+		const bits = size * 8;
+		const mask = bits === 32 ? 0xffffffff : (1 << bits) - 1;
+		const signBit = 2 ** (bits - 1);
+
+		// the result truncated to the operand size
+		const truncated = result & mask;
 
 		// ZF
-		this.state.flags.ZF = result32 === 0;
+		this.state.flags.ZF = truncated === 0;
 
-		// SF (check if MSB is set for 32-bit value)
-		this.state.flags.SF = (result32 & 0x80000000) !== 0;
+		// SF (most significant bit of the operand)
+		this.state.flags.SF = (truncated & signBit) !== 0;
 
 		// PF (even number of 1 bits in lower 8 bits)
 		let parity = 0;
-		let temp = result32 & 0xff;
+		let temp = truncated & 0xff;
 		while (temp !== 0) {
 			parity ^= temp & 1;
 			temp >>>= 1;
@@ -1047,24 +1586,24 @@ export class CPU {
 				case "ADD":
 				case "INC":
 					// CF set if unsigned overflow
-					this.state.flags.CF = result > 0xffffffff;
+					this.state.flags.CF = result > mask;
 					break;
 				case "SUB":
 				case "DEC":
 				case "CMP":
 					// CF set if borrow occurred (operand1 < operand2 for unsigned)
-					this.state.flags.CF = operand1 >>> 0 < operand2 >>> 0;
+					this.state.flags.CF = (operand1 & mask) < (operand2 & mask);
 					break;
 				case "SHL":
 					// CF = last bit shifted out
-					if (operand2 > 0 && operand2 <= 32) {
-						this.state.flags.CF = ((operand1 >>> 0) & (1 << (32 - operand2))) !== 0;
+					if (operand2 > 0 && operand2 <= bits) {
+						this.state.flags.CF = (operand1 & (1 << (bits - operand2))) !== 0;
 					}
 					break;
 				case "SHR":
 					// CF = last bit shifted out
-					if (operand2 > 0 && operand2 <= 32) {
-						this.state.flags.CF = ((operand1 >>> 0) & (1 << (operand2 - 1))) !== 0;
+					if (operand2 > 0 && operand2 <= bits) {
+						this.state.flags.CF = (operand1 & (1 << (operand2 - 1))) !== 0;
 					}
 					break;
 				default:
@@ -1073,29 +1612,31 @@ export class CPU {
 			}
 
 			// OF - signed overflow detection
-			const op1_32 = operand1 | 0; // convert to signed 32-bit
-			const op2_32 = operand2 | 0;
-			const result_32 = result | 0;
+			const signed1 = this.signExtend(operand1, size);
+			const signed2 = this.signExtend(operand2, size);
+			const signedResult = this.signExtend(result, size);
 
 			switch (operation) {
 				case "ADD":
 				case "INC":
 					// OF set if signs of operands are same but result sign differs
 					this.state.flags.OF =
-						(op1_32 >= 0 && op2_32 >= 0 && result_32 < 0) || (op1_32 < 0 && op2_32 < 0 && result_32 >= 0);
+						(signed1 >= 0 && signed2 >= 0 && signedResult < 0) ||
+						(signed1 < 0 && signed2 < 0 && signedResult >= 0);
 					break;
 				case "SUB":
 				case "DEC":
 				case "CMP":
 					// OF set if signs of operands differ and result sign matches subtrahend
 					this.state.flags.OF =
-						(op1_32 >= 0 && op2_32 < 0 && result_32 < 0) || (op1_32 < 0 && op2_32 >= 0 && result_32 >= 0);
+						(signed1 >= 0 && signed2 < 0 && signedResult < 0) ||
+						(signed1 < 0 && signed2 >= 0 && signedResult >= 0);
 					break;
 				case "SHL":
 					// OF set if sign bit changes during shift
 					if (operand2 === 1) {
-						const msb = (operand1 >>> 0) & 0x80000000;
-						const secondMsb = (operand1 >>> 0) & 0x40000000;
+						const msb = operand1 & signBit;
+						const secondMsb = operand1 & (signBit / 2);
 						this.state.flags.OF = (msb !== 0) !== (secondMsb !== 0);
 					}
 					break;
@@ -1121,8 +1662,8 @@ export class CPU {
 			}
 		} else {
 			// simple flag calculation for operations without context
-			this.state.flags.OF = result > 0x7fffffff || result < -0x80000000;
-			this.state.flags.CF = result > 0xffffffff || result < 0;
+			this.state.flags.OF = result >= signBit || result < -signBit;
+			this.state.flags.CF = result > mask || result < 0;
 			this.state.flags.AF = false; // default for unknown operations
 		}
 	}
@@ -1168,7 +1709,19 @@ export class CPU {
 				return 3;
 			case "RET":
 				return 3;
+			case "IN":
+			case "OUT":
+				return 5;
+			case "MOVS":
+			case "CMPS":
+			case "STOS":
+			case "LODS":
+			case "SCAS":
+				return 2; // per element
 			case "INT":
+			case "INT3":
+			case "INTO":
+			case "IRET":
 				return 10;
 			case "HLT":
 				return 1;
@@ -1199,6 +1752,23 @@ export class CPU {
 				return this.state.generalRegisters.EDX & 0xff;
 			case "DH":
 				return (this.state.generalRegisters.EDX >> 8) & 0xff;
+			// 16-bit registers
+			case "AX":
+				return this.state.generalRegisters.EAX & 0xffff;
+			case "BX":
+				return this.state.generalRegisters.EBX & 0xffff;
+			case "CX":
+				return this.state.generalRegisters.ECX & 0xffff;
+			case "DX":
+				return this.state.generalRegisters.EDX & 0xffff;
+			case "SI":
+				return this.state.generalRegisters.ESI & 0xffff;
+			case "DI":
+				return this.state.generalRegisters.EDI & 0xffff;
+			case "BP":
+				return this.state.generalRegisters.EBP & 0xffff;
+			case "SP":
+				return this.state.generalRegisters.ESP & 0xffff;
 			// 32-bit registers
 			case "EAX":
 				return this.state.generalRegisters.EAX;
@@ -1216,6 +1786,13 @@ export class CPU {
 				return this.state.generalRegisters.EBP;
 			case "ESP":
 				return this.state.generalRegisters.ESP;
+			// control registers
+			case "CR0":
+			case "CR2":
+			case "CR3":
+			case "CR4":
+				this.checkPrivileged("MOV from control register");
+				return this.state.controlRegisters[registerName];
 			default:
 				throw `Unknown register: ${registerName}`;
 		}
@@ -1257,6 +1834,39 @@ export class CPU {
 				this.state.generalRegisters.EDX =
 					(this.state.generalRegisters.EDX & 0xffff00ff) | ((maskedValue & 0xff) << 8);
 				break;
+			// 16-bit registers
+			case "AX":
+				this.state.generalRegisters.EAX =
+					(this.state.generalRegisters.EAX & 0xffff0000) | (maskedValue & 0xffff);
+				break;
+			case "BX":
+				this.state.generalRegisters.EBX =
+					(this.state.generalRegisters.EBX & 0xffff0000) | (maskedValue & 0xffff);
+				break;
+			case "CX":
+				this.state.generalRegisters.ECX =
+					(this.state.generalRegisters.ECX & 0xffff0000) | (maskedValue & 0xffff);
+				break;
+			case "DX":
+				this.state.generalRegisters.EDX =
+					(this.state.generalRegisters.EDX & 0xffff0000) | (maskedValue & 0xffff);
+				break;
+			case "SI":
+				this.state.generalRegisters.ESI =
+					(this.state.generalRegisters.ESI & 0xffff0000) | (maskedValue & 0xffff);
+				break;
+			case "DI":
+				this.state.generalRegisters.EDI =
+					(this.state.generalRegisters.EDI & 0xffff0000) | (maskedValue & 0xffff);
+				break;
+			case "BP":
+				this.state.generalRegisters.EBP =
+					(this.state.generalRegisters.EBP & 0xffff0000) | (maskedValue & 0xffff);
+				break;
+			case "SP":
+				this.state.generalRegisters.ESP =
+					(this.state.generalRegisters.ESP & 0xffff0000) | (maskedValue & 0xffff);
+				break;
 			// 32-bit registers
 			case "EAX":
 				this.state.generalRegisters.EAX = maskedValue;
@@ -1282,11 +1892,61 @@ export class CPU {
 			case "ESP":
 				this.state.generalRegisters.ESP = maskedValue;
 				break;
+			// control registers
+			case "CR0":
+			case "CR2":
+			case "CR3":
+			case "CR4":
+				this.checkPrivileged("MOV to control register");
+				this.writeControlRegister(registerName, maskedValue);
+				break;
 			default:
 				throw `Unknown register: ${registerName}`;
 		}
 	}
 
+	/**
+	 * Write a control register and propagate paging changes to the MMU
+	 */
+	private writeControlRegister(register: keyof ControlRegisters, value: DWord): void {
+		switch (register) {
+			case "CR0":
+				if ((value & CR0_PG) !== 0 && (value & CR0_PE) === 0) {
+					throw new GeneralProtectionFault("Paging requires protected mode (CR0.PE)");
+				}
+				this.state.controlRegisters.CR0 = value;
+				this.mmu.setPagingEnabled((value & CR0_PG) !== 0);
+				this.mmu.setWriteProtect((value & CR0_WP) !== 0);
+				break;
+			case "CR3":
+				this.state.controlRegisters.CR3 = value;
+				this.mmu.setPageDirectoryBase(value);
+				break;
+			default:
+				this.state.controlRegisters[register] = value;
+				break;
+		}
+	}
+
+	/**
+	 * Check whether a vector belongs to a hardware IRQ line, through the interrupt controller when
+	 * one is attached and the fixed IRQ_BASE_VECTOR mapping otherwise
+	 */
+	private isIRQVector(vector: number): boolean {
+		if (this.interruptController) {
+			return this.interruptController.isIRQVector(vector);
+		}
+		return vector >= IRQ_BASE_VECTOR && vector < IRQ_BASE_VECTOR + 16;
+	}
+
+	/**
+	 * Find the host handler of a vector; the guest may have moved the IRQ range onto it since it
+	 * was registered (ICW2), and then the vector belongs to the guest's IRQ handler in the IDT
+	 */
+	private getHLEHandler(vector: number): HLEHandler | undefined {
+		return this.isIRQVector(vector) ? undefined : this.hleHandlers.get(vector);
+	}
+
 	/**
 	 * Get current CPU statistics
 	 */
@@ -1311,11 +1971,231 @@ export class CPU {
 			controlRegisters: { ...this.state.controlRegisters },
 			instructionPointer: { ...this.state.instructionPointer },
 			flags: { ...this.state.flags },
+			interruptDescriptorTable: { ...this.state.interruptDescriptorTable },
+			taskRegister: { ...this.state.taskRegister },
+			privilegeLevel: this.state.privilegeLevel,
 			halted: this.state.halted,
 			interruptEnabled: this.state.interruptEnabled,
 		};
 	}
 
+	/**
+	 * Raise a maskable hardware interrupt; it is delivered once IF is set
+	 */
+	requestInterrupt(vector: number): void {
+		// like a request register bit, a vector that is already pending is not queued twice
+		const masked = vector & 0xff;
+		if (!this.pendingInterrupts.includes(masked)) {
+			this.pendingInterrupts.push(masked);
+		}
+	}
+
+	/**
+	 * Assert a hardware IRQ line; without an interrupt controller lines map to
+	 * vectors IRQ_BASE_VECTOR + line
+	 */
+	raiseIRQ(line: number): void {
+		if (this.interruptController) {
+			this.interruptController.raiseIRQ(line);
+			return;
+		}
+		this.requestInterrupt(IRQ_BASE_VECTOR + line);
+	}
+
+	/**
+	 * Route IRQ lines through an interrupt controller, which picks the vector, masking and priority
+	 */
+	attachInterruptController(controller: InterruptController): void {
+		this.hleHandlers.forEach((_, vector) => {
+			if (controller.isIRQVector(vector)) {
+				throw `HLE handler on vector 0x${string.format("%02X", vector)} overlaps the IRQ range of the interrupt controller`;
+			}
+		});
+		this.interruptController = controller;
+	}
+
+	/**
+	 * Attach a device that is clocked by CPU cycles
+	 */
+	attachDevice(device: ClockedDevice): void {
+		this.devices.push(device);
+	}
+
+	/**
+	 * Register a host-side handler for an interrupt vector; INT n or an exception on that
+	 * vector then calls it instead of going through the IDT while the vector stays outside the
+	 * IRQ range. Hardware interrupts never do
+	 */
+	registerHLEHandler(vector: number, handler: HLEHandler): void {
+		// a service sharing a vector with an IRQ line would be unreachable by the guest's IRQ handler
+		if (this.isIRQVector(vector & 0xff)) {
+			throw `Vector 0x${string.format("%02X", vector & 0xff)} is in the IRQ range and cannot take an HLE handler`;
+		}
+		this.hleHandlers.set(vector & 0xff, handler);
+	}
+
+	/**
+	 * Remove the host-side handler of a vector, restoring IDT delivery
+	 */
+	unregisterHLEHandler(vector: number): void {
+		this.hleHandlers.delete(vector & 0xff);
+	}
+
+	/**
+	 * Register a host-side handler for a hardware interrupt vector (e.g. the timer of a host
+	 * kernel); the handler is responsible for the EOI
+	 */
+	registerIRQHandler(vector: number, handler: HLEHandler): void {
+		this.irqHandlers.set(vector & 0xff, handler);
+	}
+
+	/**
+	 * Remove the host-side handler of a hardware interrupt vector, restoring IDT delivery
+	 */
+	unregisterIRQHandler(vector: number): void {
+		this.irqHandlers.delete(vector & 0xff);
+	}
+
+	/**
+	 * Read a general purpose register by name (EAX, AX, AH, AL, ...) from host code
+	 */
+	getRegister(registerName: string): number {
+		return this.getRegisterValue(registerName);
+	}
+
+	/**
+	 * Write a general purpose register by name from host code
+	 */
+	setRegister(registerName: string, value: number): void {
+		this.setRegisterValue(registerName, value);
+	}
+
+	/**
+	 * Set or clear a flag from host code
+	 */
+	setFlag(flag: keyof CPUFlags, value: boolean): void {
+		this.state.flags[flag] = value;
+		if (flag === "IF") {
+			this.state.interruptEnabled = value;
+		}
+	}
+
+	/**
+	 * Halt the CPU as if HLT was executed
+	 */
+	halt(): void {
+		this.state.halted = true;
+	}
+
+	/**
+	 * Stop the CPU for good (a program exiting to nothing); unlike halt() no interrupt wakes it,
+	 * only reset() or restoreContext() resumes execution
+	 */
+	stop(): void {
+		this.enterShutdown();
+	}
+
+	/**
+	 * Continue execution at an address (host services that transfer control, like a bootstrap)
+	 */
+	setInstructionPointer(address: DWord): void {
+		this.state.instructionPointer.EIP = address >>> 0;
+	}
+
+	/**
+	 * Run the current instruction again on the next step (lets host services block)
+	 */
+	restartInstruction(): void {
+		this.state.instructionPointer.EIP = this.instructionAddress;
+	}
+
+	/**
+	 * Capture the registers a context switch has to preserve
+	 */
+	saveContext(): CPUContext {
+		return {
+			generalRegisters: { ...this.state.generalRegisters },
+			segmentRegisters: { ...this.state.segmentRegisters },
+			flags: { ...this.state.flags },
+			EIP: this.state.instructionPointer.EIP,
+			CR3: this.state.controlRegisters.CR3,
+		};
+	}
+
+	/**
+	 * Resume a context captured by saveContext; CS selects the privilege level and a different
+	 * CR3 switches the address space
+	 */
+	restoreContext(context: CPUContext): void {
+		this.state.generalRegisters = { ...context.generalRegisters };
+		this.state.segmentRegisters = { ...context.segmentRegisters };
+		this.loadCodeSegment(context.segmentRegisters.CS);
+		this.state.flags = { ...context.flags };
+		this.state.interruptEnabled = context.flags.IF;
+		this.state.instructionPointer.EIP = context.EIP;
+		if (context.CR3 !== this.state.controlRegisters.CR3) {
+			this.writeControlRegister("CR3", context.CR3);
+		}
+		this.state.halted = false;
+		this.shutdown = false;
+	}
+
+	/**
+	 * Check whether any maskable interrupt is waiting for delivery
+	 */
+	hasPendingInterrupt(): boolean {
+		return this.pendingInterrupts.size() > 0 || this.interruptController?.hasPendingInterrupt() === true;
+	}
+
+	/**
+	 * Write a control register from the host (e.g. to enable paging before running a guest)
+	 */
+	setControlRegister(register: keyof ControlRegisters, value: DWord): void {
+		this.writeControlRegister(register, value >>> 0);
+	}
+
+	/**
+	 * Point the IDT register at a table in memory
+	 */
+	setInterruptDescriptorTable(base: DWord, limit: number = 256 * IDT_ENTRY_SIZE - 1): void {
+		this.state.interruptDescriptorTable = { base, limit };
+	}
+
+	/**
+	 * Point the task register at a TSS in memory; its ESP0/SS0 fields supply the kernel stack
+	 */
+	setTaskRegister(base: DWord, limit: number = TSS_MINIMUM_LIMIT): void {
+		this.state.taskRegister = { base, limit };
+	}
+
+	/**
+	 * Get the current privilege level (0 = kernel, 3 = user)
+	 */
+	getPrivilegeLevel(): number {
+		return this.state.privilegeLevel;
+	}
+
+	/**
+	 * Write a gate descriptor into the IDT in memory
+	 */
+	setInterruptGate(vector: number, gate: InterruptGate): void {
+		const entry = this.state.interruptDescriptorTable.base + vector * IDT_ENTRY_SIZE;
+		const attributes = (gate.present ? 0x80 : 0) | ((gate.dpl & 0x3) << 5) | gate.type;
+
+		this.mmu.writeWord(entry, gate.offset & 0xffff);
+		this.mmu.writeWord(entry + 2, gate.selector);
+		this.mmu.writeByte(entry + 4, 0);
+		this.mmu.writeByte(entry + 5, attributes);
+		this.mmu.writeWord(entry + 6, (gate.offset >>> 16) & 0xffff);
+	}
+
+	/**
+	 * Read a gate descriptor from the IDT (for debugging/visualization)
+	 */
+	getInterruptGate(vector: number): InterruptGate | undefined {
+		return this.readInterruptGate(vector);
+	}
+
 	/**
 	 * Get Memory Management Unit
 	 */
@@ -1323,6 +2203,13 @@ export class CPU {
 		return this.mmu;
 	}
 
+	/**
+	 * Get the port I/O bus devices register on
+	 */
+	getIOBus(): IOBus {
+		return this.ioBus;
+	}
+
 	/**
 	 * Get Instruction Decoder
 	 */
@@ -1337,6 +2224,20 @@ export class CPU {
 		return this.state.halted;
 	}
 
+	/**
+	 * Check if the CPU has shut down after a triple fault or stop()
+	 */
+	isShutdown(): boolean {
+		return this.shutdown;
+	}
+
+	/**
+	 * Get the most recently raised exception (for debugging/visualization)
+	 */
+	getLastFault(): CPUFault | undefined {
+		return this.lastFault;
+	}
+
 	/**
 	 * Get instruction at address (for debugging/visualization)
 	 */
@@ -1398,3 +2299,6 @@ export class CPU {
 		}
 	}
 }
+
+// public types
+export type HLEHandler = (cpu: CPU) => void;
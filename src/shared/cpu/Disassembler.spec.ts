@@ -0,0 +1,121 @@
+/// <reference types="@rbxts/testez/globals" />
+import { Assembler } from "./Assembler";
+import { CPU } from "./CPU";
+import { Disassembler } from "./Disassembler";
+
+const ORIGIN = 0x1000;
+
+function hex(bytes: number[]): string {
+	return bytes.map((byte) => string.format("%02X", byte)).join(" ");
+}
+
+function assemble(source: string): number[] {
+	const result = new Assembler(ORIGIN).assemble(source);
+	if (result.errors.size() > 0) {
+		throw `'${source}': ${result.errors[0].message}`;
+	}
+	return result.bytes;
+}
+
+/**
+ * Assemble one instruction, disassemble it and assemble the listing again; both encodings must match
+ */
+function roundTrip(source: string): string {
+	const bytes = assemble(source);
+	const cpu = new CPU(65536);
+	cpu.loadProgram(bytes, ORIGIN);
+
+	const line = new Disassembler(cpu.getDecoder(), cpu.getMMU()).disassembleAt(ORIGIN);
+	const reassembled = assemble(line.text);
+	if (line.bytes.size() !== bytes.size() || hex(reassembled) !== hex(bytes)) {
+		throw `'${source}' (${hex(bytes)}) disassembled to '${line.text}' (${hex(reassembled)})`;
+	}
+	return line.text;
+}
+
+function roundTripAll(sources: string[]): void {
+	for (const source of sources) {
+		roundTrip(source);
+	}
+}
+
+export = () => {
+	it("should round-trip the 32-bit MOV, ALU and stack forms", () => {
+		roundTripAll([
+			"MOV EAX, 5",
+			"MOV EAX, [EBX+8]",
+			"MOV CL, [ESI]",
+			"MOV [EDI-4], EDX",
+			"MOV DWORD PTR [EBP-4], 7",
+			"MOV BYTE PTR [EDI], 0x41",
+			"ADD EAX, EBX",
+			"ADC EDX, ECX",
+			"SBB EAX, 1",
+			"CMP DWORD PTR [EBX], 0x100",
+			"PUSH EBP",
+			"POP ESI",
+		]);
+	});
+
+	it("should round-trip 16-bit operand-size forms", () => {
+		roundTripAll([
+			"MOV AX, BX",
+			"MOV CX, 0x1234",
+			"MOV DX, [0x2000]",
+			"MOV WORD PTR [EAX], 0x1234",
+			"ADD AX, 0x1234",
+			"SUB SI, 4",
+			"PUSH AX",
+			"POP CX",
+			"SHL DX, 3",
+			"INC DI",
+		]);
+	});
+
+	it("should round-trip SIB addressing", () => {
+		roundTripAll([
+			"MOV EAX, [EBX+ECX*4+8]",
+			"MOV EAX, [ESP+4]",
+			"MOV [ESI+EDI*8-0x80], EAX",
+			"MOV EAX, [ECX*4+0x2000]",
+			"ADD EDX, [EBP+EAX*2]",
+		]);
+	});
+
+	it("should round-trip string instructions with repeat prefixes", () => {
+		expect(roundTrip("REP MOVSB")).to.equal("REP MOVSB");
+		expect(roundTrip("REPNE SCASW")).to.equal("REPNE SCASW");
+		roundTripAll(["MOVSD", "REP STOSD", "REPE CMPSB", "LODSB", "STOSW"]);
+	});
+
+	it("should round-trip LEA, MOVZX/MOVSX, SETcc and CMOVcc", () => {
+		roundTripAll([
+			"LEA EDX, [EAX+EAX*2]",
+			"LEA ESI, [EBP-12]",
+			"MOVZX EAX, BYTE PTR [ESI]",
+			"MOVZX EAX, BL",
+			"MOVSX ECX, WORD PTR [EBX+2]",
+			"MOVSX EDX, AL",
+			"SETZ AL",
+			"SETL BYTE PTR [EDI]",
+			"CMOVNZ EAX, EBX",
+			"CMOVGE ECX, [EBP+8]",
+		]);
+	});
+
+	it("should round-trip near jumps and the FF group", () => {
+		expect(roundTrip("JZ NEAR 0x2000")).to.equal("JZ NEAR 0x2000");
+		expect(roundTrip("JZ 0x1010")).to.equal("JZ 0x1010");
+		expect(roundTrip("JMP SHORT 0x1010")).to.equal("JMP SHORT 0x1010");
+		roundTripAll([
+			"JMP 0x2000",
+			"CALL 0x800",
+			"JNZ NEAR 0x800",
+			"JMP EAX",
+			"JMP DWORD PTR [EBX+4]",
+			"CALL ECX",
+			"CALL DWORD PTR [EAX]",
+			"PUSH DWORD PTR [EBP+8]",
+		]);
+	});
+};
@@ -0,0 +1,252 @@
+import { Instruction, Operand, OperandType, RepeatPrefix, DWord } from "./types";
+import { MMU } from "./MMU";
+import { InstructionDecoder } from "./InstructionDecoder";
+
+/**
+ * Disassembler
+ * Formats decoded instructions as Intel-syntax text and produces listings
+ */
+export class Disassembler {
+	private decoder: InstructionDecoder;
+	private mmu: MMU;
+
+	// mnemonics whose immediate operand is an offset relative to the next instruction
+	private static readonly RELATIVE_BRANCHES = new Set<string>([
+		"JMP",
+		"CALL",
+		"JO",
+		"JNO",
+		"JC",
+		"JNC",
+		"JZ",
+		"JNZ",
+		"JBE",
+		"JA",
+		"JS",
+		"JNS",
+		"JP",
+		"JNP",
+		"JL",
+		"JGE",
+		"JLE",
+		"JG",
+	]);
+
+	// decoder mnemonics that differ from the assembler spelling
+	private static readonly MNEMONIC_ALIASES = new Map<string, string>([["IMUL2", "IMUL"]]);
+
+	// string instructions are written in the assembler's size-suffixed, operand-less form
+	private static readonly STRING_MNEMONICS = new Set<string>(["MOVS", "CMPS", "STOS", "LODS", "SCAS"]);
+
+	private static readonly STRING_SUFFIXES = new Map<number, string>([
+		[1, "B"],
+		[2, "W"],
+		[4, "D"],
+	]);
+
+	private static readonly SIZE_NAMES = new Map<number, string>([
+		[1, "BYTE PTR"],
+		[2, "WORD PTR"],
+		[4, "DWORD PTR"],
+		[6, "FWORD PTR"],
+	]);
+
+	constructor(decoder: InstructionDecoder, mmu: MMU) {
+		this.decoder = decoder;
+		this.mmu = mmu;
+	}
+
+	/**
+	 * Format a decoded instruction located at the given address
+	 */
+	formatInstruction(instruction: Instruction, address: DWord): string {
+		let mnemonic = Disassembler.MNEMONIC_ALIASES.get(instruction.mnemonic) ?? instruction.mnemonic;
+		if (instruction.repeat === RepeatPrefix.REPNE) {
+			mnemonic = `REPNE ${mnemonic}`;
+		} else if (instruction.repeat === RepeatPrefix.REPE) {
+			const compares = instruction.mnemonic === "CMPS" || instruction.mnemonic === "SCAS";
+			mnemonic = `${compares ? "REPE" : "REP"} ${mnemonic}`;
+		}
+		if (Disassembler.STRING_MNEMONICS.has(instruction.mnemonic)) {
+			return mnemonic + (Disassembler.STRING_SUFFIXES.get(instruction.operands[0].size) ?? "");
+		}
+		if (instruction.operands.size() === 0) {
+			return mnemonic;
+		}
+
+		const isBranch = Disassembler.RELATIVE_BRANCHES.has(instruction.mnemonic);
+		const operands = instruction.operands.map((operand) => {
+			if (isBranch && operand.type === OperandType.IMMEDIATE) {
+				const target = formatHex(this.branchTarget(operand, address + instruction.size));
+				// the assembler emits JMP/CALL as rel32 and Jcc as rel8 unless told otherwise
+				const defaultSize = instruction.mnemonic === "JMP" || instruction.mnemonic === "CALL" ? 4 : 1;
+				if (operand.size === defaultSize) return target;
+				return `${operand.size === 1 ? "SHORT" : "NEAR"} ${target}`;
+			}
+			return this.formatOperand(operand);
+		});
+
+		return `${mnemonic} ${operands.join(", ")}`;
+	}
+
+	/**
+	 * Format a single operand
+	 */
+	formatOperand(operand: Operand): string {
+		switch (operand.type) {
+			case OperandType.REGISTER:
+				return operand.register ?? "?";
+			case OperandType.IMMEDIATE:
+				return formatHex(operand.value);
+			case OperandType.MEMORY:
+				if (operand.index !== undefined) {
+					return `${this.sizeName(operand)} [${formatIndex(operand)}+${formatHex(operand.value)}]`;
+				}
+				return `${this.sizeName(operand)} [${formatHex(operand.value)}]`;
+			case OperandType.REGISTER_INDIRECT:
+			case OperandType.REGISTER_INDIRECT_DISPLACEMENT: {
+				const index = operand.index !== undefined ? `+${formatIndex(operand)}` : "";
+				return `${this.sizeName(operand)} [${operand.register}${index}${formatDisplacement(operand.displacement ?? 0)}]`;
+			}
+			default:
+				return "?";
+		}
+	}
+
+	/**
+	 * Resolve the absolute target of a relative branch
+	 */
+	branchTarget(operand: Operand, nextAddress: DWord): DWord {
+		let offset = operand.value;
+		if (operand.size === 1 && offset > 0x7f) {
+			offset -= 0x100;
+		} else if (operand.size === 4 && offset > 0x7fffffff) {
+			offset -= 0x100000000;
+		}
+		return (nextAddress + offset) >>> 0;
+	}
+
+	/**
+	 * Linear-sweep disassembly of the byte range [startAddress, startAddress + length)
+	 */
+	disassemble(startAddress: DWord, length: number): DisassemblyLine[] {
+		const lines: DisassemblyLine[] = [];
+		const endAddress = startAddress + length;
+		let address = startAddress;
+
+		while (address < endAddress) {
+			const line = this.disassembleAt(address);
+			lines.push(line);
+			address += line.bytes.size();
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Linear-sweep disassembly of a fixed number of instructions
+	 */
+	disassembleInstructions(startAddress: DWord, count: number): DisassemblyLine[] {
+		const lines: DisassemblyLine[] = [];
+		let address = startAddress;
+
+		for (let i = 0; i < count; i++) {
+			const line = this.disassembleAt(address);
+			lines.push(line);
+			address += line.bytes.size();
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Disassemble one instruction; undecodable bytes become a single DB line
+	 */
+	disassembleAt(address: DWord): DisassemblyLine {
+		let instruction: Instruction | undefined;
+		try {
+			instruction = this.decoder.decodeInstruction(address);
+		} catch {
+			instruction = undefined;
+		}
+
+		if (!instruction) {
+			const byte = this.readByte(address);
+			return {
+				address,
+				bytes: byte !== undefined ? [byte] : [],
+				text: byte !== undefined ? `DB ${formatHex(byte)}` : "??",
+				instruction: undefined,
+			};
+		}
+
+		const bytes: number[] = [];
+		for (let i = 0; i < instruction.size; i++) {
+			bytes.push(this.readByte(address + i) ?? 0);
+		}
+
+		return {
+			address,
+			bytes,
+			text: this.formatInstruction(instruction, address),
+			instruction,
+		};
+	}
+
+	/**
+	 * Render a listing line as "ADDRESS  BYTES  TEXT"
+	 */
+	formatLine(line: DisassemblyLine): string {
+		const hexBytes = line.bytes.map((byte) => string.format("%02X", byte)).join(" ");
+		return string.format("%08X  %-21s %s", line.address, hexBytes, line.text);
+	}
+
+	/**
+	 * Render a full listing, one instruction per line
+	 */
+	formatListing(lines: DisassemblyLine[]): string {
+		return lines.map((line) => this.formatLine(line)).join("\n");
+	}
+
+	private sizeName(operand: Operand): string {
+		return Disassembler.SIZE_NAMES.get(operand.size) ?? "DWORD PTR";
+	}
+
+	private readByte(address: DWord): number | undefined {
+		let value: number | undefined;
+		try {
+			value = this.mmu.readByte(address);
+		} catch {
+			value = undefined;
+		}
+		return value;
+	}
+}
+
+// public types
+export interface DisassemblyLine {
+	address: DWord;
+	bytes: number[];
+	text: string;
+	instruction: Instruction | undefined; // undefined when the bytes did not decode
+}
+
+function formatHex(value: number): string {
+	return string.format("0x%X", value);
+}
+
+function formatDisplacement(displacement: number): string {
+	if (displacement < 0) {
+		return `-${formatHex(-displacement)}`;
+	}
+	if (displacement === 0) {
+		return "";
+	}
+	return `+${formatHex(displacement)}`;
+}
+
+function formatIndex(operand: Operand): string {
+	const index = operand.index ?? "?";
+	const scale = operand.scale ?? 1;
+	return scale === 1 ? index : `${index}*${scale}`;
+}
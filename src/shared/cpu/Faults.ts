@@ -0,0 +1,109 @@
+import { DWord } from "./types";
+
+/**
+ * CPU Exceptions
+ * Architectural faults raised by the decoder, MMU and executor and delivered through the IDT
+ */
+
+// Exception vectors reserved by the architecture
+export enum ExceptionVector {
+	DIVIDE_ERROR = 0, // #DE
+	DEBUG = 1, // #DB
+	BREAKPOINT = 3, // #BP
+	OVERFLOW = 4, // #OF
+	INVALID_OPCODE = 6, // #UD
+	DOUBLE_FAULT = 8, // #DF
+	INVALID_TSS = 10, // #TS
+	GENERAL_PROTECTION = 13, // #GP
+	PAGE_FAULT = 14, // #PF
+}
+
+// How execution resumes once the handler returns
+export enum ExceptionClass {
+	FAULT, // EIP points at the faulting instruction so it is re-executed
+	TRAP, // EIP points at the next instruction
+	ABORT, // not restartable
+}
+
+/**
+ * Base class for every exception the CPU can raise
+ */
+export class CPUFault {
+	/** EIP of the instruction that raised the exception, filled in by the CPU */
+	eip: DWord = 0;
+
+	constructor(
+		readonly vector: ExceptionVector,
+		readonly exceptionClass: ExceptionClass,
+		readonly message: string,
+		readonly errorCode?: number,
+	) {}
+
+	toString(): string {
+		return `${this.message} (vector ${this.vector}) at 0x${string.format("%08X", this.eip)}`;
+	}
+}
+
+/**
+ * #DE - division by zero or quotient overflow
+ */
+export class DivideErrorFault extends CPUFault {
+	constructor(message: string = "Divide error") {
+		super(ExceptionVector.DIVIDE_ERROR, ExceptionClass.FAULT, message);
+	}
+}
+
+/**
+ * #UD - undefined or unsupported opcode
+ */
+export class InvalidOpcodeFault extends CPUFault {
+	constructor(message: string = "Invalid opcode") {
+		super(ExceptionVector.INVALID_OPCODE, ExceptionClass.FAULT, message);
+	}
+}
+
+/**
+ * #DF - an exception occurred while delivering another one
+ */
+export class DoubleFault extends CPUFault {
+	constructor(message: string = "Double fault") {
+		super(ExceptionVector.DOUBLE_FAULT, ExceptionClass.ABORT, message, 0);
+	}
+}
+
+/**
+ * #TS - the TSS needed for a stack switch is missing or malformed
+ */
+export class InvalidTSSFault extends CPUFault {
+	constructor(message: string = "Invalid TSS", errorCode: number = 0) {
+		super(ExceptionVector.INVALID_TSS, ExceptionClass.FAULT, message, errorCode);
+	}
+}
+
+/**
+ * #GP - protection violation; the error code holds a selector or vector index when relevant
+ */
+export class GeneralProtectionFault extends CPUFault {
+	constructor(message: string = "General protection fault", errorCode: number = 0) {
+		super(ExceptionVector.GENERAL_PROTECTION, ExceptionClass.FAULT, message, errorCode);
+	}
+}
+
+// Page fault error code bits
+export const PF_PRESENT = 0x01; // 0 = page not present, 1 = protection violation
+export const PF_WRITE = 0x02; // access was a write
+export const PF_USER = 0x04; // access originated at CPL 3
+export const PF_INSTRUCTION = 0x10; // access was an instruction fetch
+
+/**
+ * #PF - translation failed; CR2 receives the linear address
+ */
+export class PageFault extends CPUFault {
+	constructor(
+		readonly linearAddress: DWord,
+		errorCode: number,
+		message: string = "Page fault",
+	) {
+		super(ExceptionVector.PAGE_FAULT, ExceptionClass.FAULT, message, errorCode);
+	}
+}
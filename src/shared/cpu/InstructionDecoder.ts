@@ -1,5 +1,6 @@
-import { Instruction, Operand, OperandType, Byte, Word, DWord } from "./types";
+import { Instruction, Operand, OperandType, RepeatPrefix, Byte, Word, DWord } from "./types";
 import { MMU } from "./MMU";
+import { GeneralProtectionFault, InvalidOpcodeFault } from "./Faults";
 
 /**
  * Instruction Decoder
@@ -18,6 +19,29 @@ export class InstructionDecoder {
 	private static readonly REGISTERS_16 = ["AX", "CX", "DX", "BX", "SP", "BP", "SI", "DI"];
 	private static readonly REGISTERS_32 = ["EAX", "ECX", "EDX", "EBX", "ESP", "EBP", "ESI", "EDI"];
 
+	// condition code suffixes in opcode order (low nibble of Jcc, SETcc and CMOVcc)
+	private static readonly CONDITION_NAMES = [
+		"O",
+		"NO",
+		"C",
+		"NC",
+		"Z",
+		"NZ",
+		"BE",
+		"A",
+		"S",
+		"NS",
+		"P",
+		"NP",
+		"L",
+		"GE",
+		"LE",
+		"G",
+	];
+
+	// longest legal encoding, prefixes included
+	private static readonly MAX_INSTRUCTION_LENGTH = 15;
+
 	constructor(mmu: MMU) {
 		this.mmu = mmu;
 	}
@@ -27,13 +51,78 @@ export class InstructionDecoder {
 	 */
 	decodeInstruction(address: DWord): Instruction {
 		let currentAddress = address;
-		const opcode = this.mmu.readByte(currentAddress++);
+		let operandSize = 4;
+		let repeatPrefix: RepeatPrefix | undefined;
+
+		// prefixes ahead of the opcode
+		let prefixed = true;
+		while (prefixed) {
+			switch (this.mmu.fetchByte(currentAddress)) {
+				case 0x66: // operand-size override: 32-bit forms operate on 16 bits
+					operandSize = 2;
+					currentAddress++;
+					break;
+				case 0xf3: // REP/REPE
+					repeatPrefix = RepeatPrefix.REPE;
+					currentAddress++;
+					break;
+				case 0xf2: // REPNE
+					repeatPrefix = RepeatPrefix.REPNE;
+					currentAddress++;
+					break;
+				default:
+					prefixed = false;
+			}
+			if (currentAddress - address >= InstructionDecoder.MAX_INSTRUCTION_LENGTH) {
+				throw new GeneralProtectionFault("Instruction longer than 15 bytes");
+			}
+		}
+
+		const instruction = this.decodeOpcode(currentAddress, operandSize);
+		instruction.size += currentAddress - address;
+
+		// the repeat prefixes only mean something to the string instructions (0xA4-0xAF)
+		if (repeatPrefix !== undefined && instruction.opcode >= 0xa4 && instruction.opcode <= 0xaf) {
+			instruction.repeat = repeatPrefix;
+		}
+		return instruction;
+	}
+
+	/**
+	 * Decode the opcode at the given address; operandSize is the width of the 16/32-bit forms
+	 */
+	private decodeOpcode(address: DWord, operandSize: number): Instruction {
+		let currentAddress = address;
+		const opcode = this.mmu.fetchByte(currentAddress++);
 
 		switch (opcode) {
 			case 0x0f: {
-				const secondByte = this.mmu.readByte(currentAddress);
+				const secondByte = this.mmu.fetchByte(currentAddress);
 				currentAddress++;
 
+				// families with the condition code in the low nibble
+				if (secondByte >= 0x40 && secondByte <= 0x4f) {
+					return this.decodeConditional(currentAddress, secondByte, "CMOV", operandSize);
+				}
+				if (secondByte >= 0x90 && secondByte <= 0x9f) {
+					return this.decodeConditional(currentAddress, secondByte, "SET", 1);
+				}
+				if (secondByte >= 0x80 && secondByte <= 0x8f) {
+					// Jcc rel32
+					return {
+						opcode: 0x0f00 | secondByte,
+						operands: [
+							{
+								type: OperandType.IMMEDIATE,
+								value: this.mmu.fetchDWord(currentAddress),
+								size: 4,
+							},
+						],
+						size: 6,
+						mnemonic: "J" + InstructionDecoder.CONDITION_NAMES[secondByte & 0x0f],
+					};
+				}
+
 				switch (secondByte) {
 					case 0x31: // RDTSC
 						return {
@@ -42,28 +131,27 @@ export class InstructionDecoder {
 							size: 2,
 							mnemonic: "RDTSC",
 						};
+					case 0x20: // MOV r32, CRn
+					case 0x22: // MOV CRn, r32
+						return this.decodeMOVControl(currentAddress, secondByte);
+					case 0x01: // Group 7: LIDT, INVLPG
+						return this.decodeGroup7(currentAddress, secondByte);
 					case 0xc7: // RDRAND/RDSEED group
 						return this.decodeRDRAND(currentAddress, secondByte);
 					case 0xaf: // IMUL r32, r/m32
-						return this.decodeIMUL2(currentAddress - 1, secondByte);
-					case 0x8c: {
-						// JL rel32 (32-bit relative jump)
-						const offset32 = this.mmu.readDWord(currentAddress);
-						return {
-							opcode: 0x0f8c,
-							operands: [
-								{
-									type: OperandType.IMMEDIATE,
-									value: offset32,
-									size: 4,
-								},
-							],
-							size: 6,
-							mnemonic: "JL",
-						};
-					}
+						return this.decodeIMUL2(currentAddress - 1, secondByte, operandSize);
+					case 0xb6: // MOVZX r32, r/m8
+						return this.decodeMOVExtend(currentAddress, secondByte, "MOVZX", 1, operandSize);
+					case 0xb7: // MOVZX r32, r/m16
+						return this.decodeMOVExtend(currentAddress, secondByte, "MOVZX", 2, operandSize);
+					case 0xbe: // MOVSX r32, r/m8
+						return this.decodeMOVExtend(currentAddress, secondByte, "MOVSX", 1, operandSize);
+					case 0xbf: // MOVSX r32, r/m16
+						return this.decodeMOVExtend(currentAddress, secondByte, "MOVSX", 2, operandSize);
 					default:
-						throw `Invalid two-byte opcode: 0x0F ${string.format("%X", secondByte)}`;
+						throw new InvalidOpcodeFault(
+							`Invalid two-byte opcode: 0x0F ${string.format("%X", secondByte)}`,
+						);
 				}
 			}
 
@@ -71,11 +159,21 @@ export class InstructionDecoder {
 			case 0x88: // MOV r/m8, r8
 				return this.decodeMOV(currentAddress, opcode, 1);
 			case 0x89: // MOV r/m32, r32
-				return this.decodeMOV(currentAddress, opcode, 4);
+				return this.decodeMOV(currentAddress, opcode, operandSize);
+			case 0x8a: // MOV r8, r/m8
+				return this.decodeALUReversed(currentAddress, opcode, "MOV", 1);
+			case 0x8b: // MOV r32, r/m32
+				return this.decodeALUReversed(currentAddress, opcode, "MOV", operandSize);
+			case 0xc6: // MOV r/m8, imm8
+				return this.decodeMOVImmediateRM(currentAddress, opcode, 1);
+			case 0xc7: // MOV r/m32, imm32
+				return this.decodeMOVImmediateRM(currentAddress, opcode, operandSize);
 			case 0xa3: // MOV [imm32], EAX
-				return this.decodeMOVToMemory(currentAddress, opcode, 4, 0);
+				return this.decodeMOVToMemory(currentAddress, opcode, operandSize, 0);
 			case 0x63: // MOVSXD r32, r/m32 (Move with sign extension)
 				return this.decodeMOVSXD(currentAddress, opcode);
+			case 0x8d: // LEA r32, m
+				return this.decodeLEA(currentAddress, opcode, operandSize);
 			case 0xb0:
 			case 0xb1:
 			case 0xb2:
@@ -93,23 +191,33 @@ export class InstructionDecoder {
 			case 0xbd:
 			case 0xbe:
 			case 0xbf:
-				return this.decodeMOVImmediate(currentAddress, opcode, 4);
+				return this.decodeMOVImmediate(currentAddress, opcode, operandSize);
 
 			// Arithmetic instructions
 			case 0x00: // ADD r/m8, r8
 				return this.decodeALU(currentAddress, opcode, "ADD", 1);
 			case 0x01: // ADD r/m32, r32
-				return this.decodeALU(currentAddress, opcode, "ADD", 4);
+				return this.decodeALU(currentAddress, opcode, "ADD", operandSize);
 			case 0x02: // ADD r8, r/m8
 				return this.decodeALUReversed(currentAddress, opcode, "ADD", 1);
 			case 0x03: // ADD r32, r/m32
-				return this.decodeALUReversed(currentAddress, opcode, "ADD", 4);
+				return this.decodeALUReversed(currentAddress, opcode, "ADD", operandSize);
+			case 0x10: // ADC r/m8, r8
+				return this.decodeALU(currentAddress, opcode, "ADC", 1);
+			case 0x11: // ADC r/m32, r32
+				return this.decodeALU(currentAddress, opcode, "ADC", operandSize);
+			case 0x18: // SBB r/m8, r8
+				return this.decodeALU(currentAddress, opcode, "SBB", 1);
+			case 0x19: // SBB r/m32, r32
+				return this.decodeALU(currentAddress, opcode, "SBB", operandSize);
 			case 0x28: // SUB r/m8, r8
 				return this.decodeALU(currentAddress, opcode, "SUB", 1);
 			case 0x29: // SUB r/m32, r32
-				return this.decodeALU(currentAddress, opcode, "SUB", 4);
+				return this.decodeALU(currentAddress, opcode, "SUB", operandSize);
 			case 0xf7: // Group 3: NOT, NEG, MUL, IMUL, DIV, IDIV
-				return this.decodeGroup3(currentAddress, opcode);
+				return this.decodeGroup3(currentAddress, opcode, operandSize);
+			case 0xff: // Group 5: INC, DEC, indirect CALL/JMP, PUSH r/m
+				return this.decodeGroup5(currentAddress, opcode, operandSize);
 
 			// INC/DEC instructions
 			case 0x40:
@@ -120,7 +228,7 @@ export class InstructionDecoder {
 			case 0x45:
 			case 0x46:
 			case 0x47:
-				return this.decodeINCDEC(currentAddress, opcode, "INC");
+				return this.decodeINCDEC(currentAddress, opcode, "INC", operandSize);
 			case 0x48:
 			case 0x49:
 			case 0x4a:
@@ -129,45 +237,45 @@ export class InstructionDecoder {
 			case 0x4d:
 			case 0x4e:
 			case 0x4f:
-				return this.decodeINCDEC(currentAddress, opcode, "DEC");
+				return this.decodeINCDEC(currentAddress, opcode, "DEC", operandSize);
 
 			// Logical instructions
 			case 0x20: // AND r/m8, r8
 				return this.decodeALU(currentAddress, opcode, "AND", 1);
 			case 0x21: // AND r/m32, r32
-				return this.decodeALU(currentAddress, opcode, "AND", 4);
+				return this.decodeALU(currentAddress, opcode, "AND", operandSize);
 			case 0x25: // AND EAX, imm32
-				return this.decodeALUImmediate(currentAddress, opcode, "AND", 4, 0);
+				return this.decodeALUImmediate(currentAddress, opcode, "AND", operandSize, 0);
 			case 0x08: // OR r/m8, r8
 				return this.decodeALU(currentAddress, opcode, "OR", 1);
 			case 0x09: // OR r/m32, r32
-				return this.decodeALU(currentAddress, opcode, "OR", 4);
+				return this.decodeALU(currentAddress, opcode, "OR", operandSize);
 			case 0x30: // XOR r/m8, r8
 				return this.decodeALU(currentAddress, opcode, "XOR", 1);
 			case 0x31: // XOR r/m32, r32
-				return this.decodeALU(currentAddress, opcode, "XOR", 4);
+				return this.decodeALU(currentAddress, opcode, "XOR", operandSize);
 			case 0x35: // XOR EAX, imm32
-				return this.decodeALUImmediate(currentAddress, opcode, "XOR", 4, 0);
+				return this.decodeALUImmediate(currentAddress, opcode, "XOR", operandSize, 0);
 
 			// Bit shift instructions
 			case 0xd1: // SHL/SHR r/m32, 1
-				return this.decodeBitShift(currentAddress, opcode, 4);
+				return this.decodeBitShift(currentAddress, opcode, operandSize);
 			case 0xc1: // SHL/SHR r/m32, imm8
-				return this.decodeBitShiftImm(currentAddress, opcode, 4);
+				return this.decodeBitShiftImm(currentAddress, opcode, operandSize);
 
 			// Group instructions
 			case 0x81: // Multiple ALU operations with imm32
-				return this.decodeALUGroup(currentAddress, opcode, 4);
-			case 0x83: // ADD/SUB/AND/OR/XOR r/m32, imm8
-				return this.decodeALUGroup8(currentAddress, opcode, 4);
+				return this.decodeALUGroup(currentAddress, opcode, operandSize);
+			case 0x83: // ADD/SUB/AND/OR/XOR r/m32, sign-extended imm8
+				return this.decodeALUGroup8(currentAddress, opcode, operandSize);
 
 			// TEST instruction
 			case 0x85: // TEST r/m32, r32
-				return this.decodeALU(currentAddress, opcode, "TEST", 4);
+				return this.decodeALU(currentAddress, opcode, "TEST", operandSize);
 
 			// XCHG instruction
 			case 0x87: // XCHG r/m32, r32
-				return this.decodeALU(currentAddress, opcode, "XCHG", 4);
+				return this.decodeALU(currentAddress, opcode, "XCHG", operandSize);
 
 			// Jump instructions
 			case 0xe9: // JMP rel32
@@ -216,7 +324,7 @@ export class InstructionDecoder {
 			case 0x55:
 			case 0x56:
 			case 0x57:
-				return this.decodePUSHPOP(currentAddress, opcode, "PUSH");
+				return this.decodePUSHPOP(currentAddress, opcode, "PUSH", operandSize);
 			case 0x58:
 			case 0x59:
 			case 0x5a:
@@ -225,7 +333,7 @@ export class InstructionDecoder {
 			case 0x5d:
 			case 0x5e:
 			case 0x5f:
-				return this.decodePUSHPOP(currentAddress, opcode, "POP");
+				return this.decodePUSHPOP(currentAddress, opcode, "POP", operandSize);
 
 			// CALL/RET instructions
 			case 0xe8: // CALL rel32
@@ -237,9 +345,26 @@ export class InstructionDecoder {
 			case 0x38: // CMP r/m8, r8
 				return this.decodeALU(currentAddress, opcode, "CMP", 1);
 			case 0x39: // CMP r/m32, r32
-				return this.decodeALU(currentAddress, opcode, "CMP", 4);
+				return this.decodeALU(currentAddress, opcode, "CMP", operandSize);
 			case 0x3d: // CMP EAX, imm32
-				return this.decodeALUImmediate(currentAddress, opcode, "CMP", 4, 0);
+				return this.decodeALUImmediate(currentAddress, opcode, "CMP", operandSize, 0);
+
+			// String instructions, even opcodes work on bytes
+			case 0xa4: // MOVS [EDI], [ESI]
+			case 0xa5:
+				return this.decodeString(opcode, "MOVS", operandSize);
+			case 0xa6: // CMPS [ESI], [EDI]
+			case 0xa7:
+				return this.decodeString(opcode, "CMPS", operandSize);
+			case 0xaa: // STOS [EDI], EAX
+			case 0xab:
+				return this.decodeString(opcode, "STOS", operandSize);
+			case 0xac: // LODS EAX, [ESI]
+			case 0xad:
+				return this.decodeString(opcode, "LODS", operandSize);
+			case 0xae: // SCAS EAX, [EDI]
+			case 0xaf:
+				return this.decodeString(opcode, "SCAS", operandSize);
 
 			// System instructions
 			case 0x90: // NOP
@@ -298,19 +423,76 @@ export class InstructionDecoder {
 					size: 1,
 					mnemonic: "CLI",
 				};
+			// port I/O
+			case 0xe4: // IN AL, imm8
+			case 0xe5: // IN EAX, imm8
+			case 0xe6: // OUT imm8, AL
+			case 0xe7: // OUT imm8, EAX
+			case 0xec: // IN AL, DX
+			case 0xed: // IN EAX, DX
+			case 0xee: // OUT DX, AL
+			case 0xef: // OUT DX, EAX
+				return this.decodePortIO(currentAddress, opcode, opcode % 2 === 0 ? 1 : operandSize);
+
+			case 0xcc: // INT3 (breakpoint trap)
+				return {
+					opcode: opcode,
+					operands: [],
+					size: 1,
+					mnemonic: "INT3",
+				};
 			case 0xcd: // INT imm8
 				return this.decodeINT(currentAddress, opcode);
+			case 0xce: // INTO (overflow trap)
+				return {
+					opcode: opcode,
+					operands: [],
+					size: 1,
+					mnemonic: "INTO",
+				};
+			case 0xcf: // IRET
+				return {
+					opcode: opcode,
+					operands: [],
+					size: 1,
+					mnemonic: "IRET",
+				};
 
 			default:
-				throw `Invalid opcode: 0x${string.format("%X", opcode)}`;
+				throw new InvalidOpcodeFault(`Invalid opcode: 0x${string.format("%X", opcode)}`);
 		}
 	}
 
+	/**
+	 * Decode IN/OUT; bit 1 of the opcode selects OUT and bit 3 selects the DX port form
+	 */
+	private decodePortIO(address: DWord, opcode: Byte, size: number): Instruction {
+		const isOut = (opcode & 0x02) !== 0;
+		const usesDX = (opcode & 0x08) !== 0;
+
+		const accumulator: Operand = {
+			type: OperandType.REGISTER,
+			value: 0,
+			size: size,
+			register: InstructionDecoder.registerName(0, size),
+		};
+		const port: Operand = usesDX
+			? { type: OperandType.REGISTER, value: 2, size: 2, register: "DX" }
+			: { type: OperandType.IMMEDIATE, value: this.mmu.fetchByte(address), size: 1 };
+
+		return {
+			opcode: opcode,
+			operands: isOut ? [port, accumulator] : [accumulator, port],
+			size: usesDX ? 1 : 2,
+			mnemonic: isOut ? "OUT" : "IN",
+		};
+	}
+
 	/**
 	 * Decode RDRAND/RDSEED instructions
 	 */
 	private decodeRDRAND(address: DWord, opcode: Byte): Instruction {
-		const modRM = this.mmu.readByte(address);
+		const modRM = this.mmu.fetchByte(address);
 		const reg = (modRM & 0x38) >> 3;
 
 		if (reg === 6) {
@@ -333,14 +515,82 @@ export class InstructionDecoder {
 			};
 		}
 
-		throw "Invalid RDRAND/RDSEED instruction";
+		throw new InvalidOpcodeFault("Invalid RDRAND/RDSEED instruction");
+	}
+
+	/**
+	 * Decode MOV to/from control registers (0x0F 0x20 / 0x0F 0x22)
+	 */
+	private decodeMOVControl(address: DWord, opcode: Byte): Instruction {
+		const modRM = this.mmu.fetchByte(address);
+		const controlIndex = (modRM & InstructionDecoder.REG_MASK) >> 3;
+		const rm = modRM & InstructionDecoder.RM_MASK;
+
+		// only CR0, CR2, CR3 and CR4 exist; the mod field is ignored and always means a register
+		if (controlIndex === 1 || controlIndex > 4) {
+			throw new InvalidOpcodeFault(`Invalid control register: CR${controlIndex}`);
+		}
+
+		const controlOperand: Operand = {
+			type: OperandType.REGISTER,
+			value: controlIndex,
+			size: 4,
+			register: `CR${controlIndex}`,
+		};
+		const generalOperand: Operand = {
+			type: OperandType.REGISTER,
+			value: rm,
+			size: 4,
+			register: InstructionDecoder.REGISTERS_32[rm],
+		};
+
+		return {
+			opcode: 0x0f00 | opcode,
+			operands: opcode === 0x22 ? [controlOperand, generalOperand] : [generalOperand, controlOperand],
+			size: 3,
+			mnemonic: "MOV",
+		};
+	}
+
+	/**
+	 * Decode Group 7 system instructions (0x0F 0x01)
+	 */
+	private decodeGroup7(address: DWord, opcode: Byte): Instruction {
+		const modRM = this.mmu.fetchByte(address);
+		const mod = (modRM & InstructionDecoder.MOD_MASK) >> 6;
+		const reg = (modRM & InstructionDecoder.REG_MASK) >> 3;
+
+		if (reg === 3 && mod !== 3) {
+			// LIDT m16&32 (6-byte pseudo-descriptor: limit then base)
+			const [operand, , instrSize] = this.decodeModRM(address, 4);
+			operand.size = 6;
+			return {
+				opcode: 0x0f01,
+				operands: [operand],
+				size: instrSize + 2,
+				mnemonic: "LIDT",
+			};
+		}
+
+		if (reg === 7 && mod !== 3) {
+			// INVLPG m (only the address matters)
+			const [operand, , instrSize] = this.decodeModRM(address, 1);
+			return {
+				opcode: 0x0f01,
+				operands: [operand],
+				size: instrSize + 2,
+				mnemonic: "INVLPG",
+			};
+		}
+
+		throw new InvalidOpcodeFault(`Invalid Group 7 instruction: /${reg}`);
 	}
 
 	/**
 	 * Decode IMUL with two operands (0x0F 0xAF)
 	 */
-	private decodeIMUL2(address: DWord, opcode: Byte): Instruction {
-		const [operand1, operand2, instrSize] = this.decodeModRM(address + 1, 4); // +1 to skip the 0xAF byte
+	private decodeIMUL2(address: DWord, opcode: Byte, size: number): Instruction {
+		const [operand1, operand2, instrSize] = this.decodeModRM(address + 1, size); // +1 to skip the 0xAF byte
 		return {
 			opcode: 0x0faf,
 			operands: [operand2, operand1], // dest, src (reg gets result)
@@ -353,7 +603,6 @@ export class InstructionDecoder {
 	 * Decode MOV instruction
 	 */
 	private decodeMOV(address: DWord, opcode: Byte, size: number): Instruction {
-		const modRM = this.mmu.readByte(address);
 		const [operand1, operand2, instrSize] = this.decodeModRM(address, size);
 		return {
 			opcode: opcode,
@@ -368,9 +617,8 @@ export class InstructionDecoder {
 	 */
 	private decodeMOVImmediate(address: DWord, opcode: Byte, size: number): Instruction {
 		const regIndex = opcode & 0x07;
-		const register =
-			size === 1 ? InstructionDecoder.REGISTERS_8[regIndex] : InstructionDecoder.REGISTERS_32[regIndex];
-		const immediate = size === 1 ? this.mmu.readByte(address) : this.mmu.readDWord(address);
+		const register = InstructionDecoder.registerName(regIndex, size);
+		const immediate = this.fetchImmediate(address, size);
 
 		return {
 			opcode: opcode,
@@ -392,6 +640,34 @@ export class InstructionDecoder {
 		};
 	}
 
+	/**
+	 * Decode MOV r/m, imm (0xC6/0xC7); only /0 is defined
+	 */
+	private decodeMOVImmediateRM(address: DWord, opcode: Byte, size: number): Instruction {
+		const modRM = this.mmu.fetchByte(address);
+		const reg = (modRM & InstructionDecoder.REG_MASK) >> 3;
+		if (reg !== 0) {
+			throw new InvalidOpcodeFault(`Invalid MOV immediate instruction: /${reg}`);
+		}
+
+		const [operand1, , instrSize] = this.decodeModRM(address, size);
+		const immediate = this.fetchImmediate(address + instrSize, size);
+
+		return {
+			opcode: opcode,
+			operands: [
+				operand1,
+				{
+					type: OperandType.IMMEDIATE,
+					value: immediate,
+					size: size,
+				},
+			],
+			size: instrSize + 1 + size,
+			mnemonic: "MOV",
+		};
+	}
+
 	/**
 	 * Decode MOVSXD instruction
 	 */
@@ -405,12 +681,61 @@ export class InstructionDecoder {
 		};
 	}
 
+	/**
+	 * Decode LEA; the source must be a memory operand, only its address is used
+	 */
+	private decodeLEA(address: DWord, opcode: Byte, size: number): Instruction {
+		const [operand1, operand2, instrSize] = this.decodeModRM(address, size);
+		if (operand1.type === OperandType.REGISTER) {
+			throw new InvalidOpcodeFault("LEA requires a memory operand");
+		}
+		return {
+			opcode: opcode,
+			operands: [operand2, operand1], // destination, source
+			size: instrSize + 1,
+			mnemonic: "LEA",
+		};
+	}
+
+	/**
+	 * Decode MOVZX/MOVSX (0x0F 0xB6/0xB7/0xBE/0xBF): a byte or word source widened into the register
+	 */
+	private decodeMOVExtend(
+		address: DWord,
+		opcode: Byte,
+		mnemonic: string,
+		sourceSize: number,
+		size: number,
+	): Instruction {
+		const [source, destination, instrSize] = this.decodeModRM(address, sourceSize);
+		destination.size = size;
+		destination.register = InstructionDecoder.registerName(destination.value, size);
+		return {
+			opcode: 0x0f00 | opcode,
+			operands: [destination, source],
+			size: instrSize + 2,
+			mnemonic: mnemonic,
+		};
+	}
+
+	/**
+	 * Decode SETcc r/m8 (0x0F 0x90-0x9F) and CMOVcc r32, r/m32 (0x0F 0x40-0x4F)
+	 */
+	private decodeConditional(address: DWord, opcode: Byte, family: string, size: number): Instruction {
+		const [operand1, operand2, instrSize] = this.decodeModRM(address, size);
+		return {
+			opcode: 0x0f00 | opcode,
+			operands: family === "SET" ? [operand1] : [operand2, operand1],
+			size: instrSize + 2,
+			mnemonic: family + InstructionDecoder.CONDITION_NAMES[opcode & 0x0f],
+		};
+	}
+
 	/**
 	 * Decode MOV to memory with direct addressing
 	 */
 	private decodeMOVToMemory(address: DWord, opcode: Byte, size: number, regIndex: number): Instruction {
-		const memoryAddress = this.mmu.readDWord(address);
-		const registerNames = size === 1 ? InstructionDecoder.REGISTERS_8 : InstructionDecoder.REGISTERS_32;
+		const memoryAddress = this.mmu.fetchDWord(address);
 
 		return {
 			opcode: opcode,
@@ -424,7 +749,7 @@ export class InstructionDecoder {
 					type: OperandType.REGISTER,
 					value: regIndex,
 					size: size,
-					register: registerNames[regIndex],
+					register: InstructionDecoder.registerName(regIndex, size),
 				},
 			],
 			size: 5,
@@ -436,7 +761,6 @@ export class InstructionDecoder {
 	 * Decode ALU instructions (ADD, SUB, AND, OR, XOR, CMP, TEST, XCHG)
 	 */
 	private decodeALU(address: DWord, opcode: Byte, mnemonic: string, size: number): Instruction {
-		const modRM = this.mmu.readByte(address);
 		const [operand1, operand2, instrSize] = this.decodeModRM(address, size);
 		return {
 			opcode: opcode,
@@ -449,18 +773,18 @@ export class InstructionDecoder {
 	/**
 	 * Decode Group 3 instructions (0xF7)
 	 */
-	private decodeGroup3(address: DWord, opcode: Byte): Instruction {
-		const modRM = this.mmu.readByte(address);
+	private decodeGroup3(address: DWord, opcode: Byte, size: number): Instruction {
+		const modRM = this.mmu.fetchByte(address);
 		const reg = (modRM & InstructionDecoder.REG_MASK) >> 3;
 
 		const operations = ["TEST", "TEST", "NOT", "NEG", "MUL", "IMUL", "DIV", "IDIV"];
 		const operation = operations[reg];
 
-		const [operand1, , instrSize] = this.decodeModRM(address, 4);
+		const [operand1, , instrSize] = this.decodeModRM(address, size);
 
 		if (reg === 0 || reg === 1) {
 			// TEST with immediate
-			const immediate = this.mmu.readDWord(address + instrSize);
+			const immediate = this.fetchImmediate(address + instrSize, size);
 			return {
 				opcode: opcode,
 				operands: [
@@ -468,10 +792,10 @@ export class InstructionDecoder {
 					{
 						type: OperandType.IMMEDIATE,
 						value: immediate,
-						size: 4,
+						size: size,
 					},
 				],
-				size: instrSize + 5,
+				size: instrSize + 1 + size,
 				mnemonic: "TEST",
 			};
 		} else {
@@ -484,6 +808,37 @@ export class InstructionDecoder {
 		}
 	}
 
+	/**
+	 * Decode Group 5 instructions (0xFF); CALL and JMP take an absolute near address
+	 */
+	private decodeGroup5(address: DWord, opcode: Byte, size: number): Instruction {
+		const modRM = this.mmu.fetchByte(address);
+		const reg = (modRM & InstructionDecoder.REG_MASK) >> 3;
+
+		const operations = new Map<number, string>([
+			[0, "INC"],
+			[1, "DEC"],
+			[2, "CALL"],
+			[4, "JMP"],
+			[6, "PUSH"],
+		]);
+		const operation = operations.get(reg);
+		if (operation === undefined) {
+			throw new InvalidOpcodeFault(`Invalid Group 5 instruction: /${reg}`);
+		}
+
+		const [operand1, , instrSize] = this.decodeModRM(
+			address,
+			operation === "CALL" || operation === "JMP" ? 4 : size,
+		);
+		return {
+			opcode: opcode,
+			operands: [operand1],
+			size: instrSize + 1,
+			mnemonic: operation,
+		};
+	}
+
 	/**
 	 * Decode ALU instruction with reversed operand order (reg = destination)
 	 */
@@ -508,8 +863,7 @@ export class InstructionDecoder {
 		size: number,
 		regIndex: number,
 	): Instruction {
-		const immediate = size === 1 ? this.mmu.readByte(address) : this.mmu.readDWord(address);
-		const registerNames = size === 1 ? InstructionDecoder.REGISTERS_8 : InstructionDecoder.REGISTERS_32;
+		const immediate = this.fetchImmediate(address, size);
 
 		return {
 			opcode: opcode,
@@ -518,7 +872,7 @@ export class InstructionDecoder {
 					type: OperandType.REGISTER,
 					value: regIndex,
 					size: size,
-					register: registerNames[regIndex],
+					register: InstructionDecoder.registerName(regIndex, size),
 				},
 				{
 					type: OperandType.IMMEDIATE,
@@ -535,14 +889,14 @@ export class InstructionDecoder {
 	 * Decode ALU group instructions (0x81 - uses ModR/M reg field for operation)
 	 */
 	private decodeALUGroup(address: DWord, opcode: Byte, size: number): Instruction {
-		const modRM = this.mmu.readByte(address);
+		const modRM = this.mmu.fetchByte(address);
 		const reg = (modRM & InstructionDecoder.REG_MASK) >> 3;
 
 		const operations = ["ADD", "OR", "ADC", "SBB", "AND", "SUB", "XOR", "CMP"];
 		const operation = operations[reg];
 
 		const [operand1, , instrSize] = this.decodeModRM(address, size);
-		const immediate = this.mmu.readDWord(address + instrSize);
+		const immediate = this.fetchImmediate(address + instrSize, size);
 
 		return {
 			opcode: opcode,
@@ -551,10 +905,10 @@ export class InstructionDecoder {
 				{
 					type: OperandType.IMMEDIATE,
 					value: immediate,
-					size: 4,
+					size: size,
 				},
 			],
-			size: instrSize + 5,
+			size: instrSize + 1 + size,
 			mnemonic: operation,
 		};
 	}
@@ -563,14 +917,17 @@ export class InstructionDecoder {
 	 * Decode ALU group with 8-bit immediate (0x83)
 	 */
 	private decodeALUGroup8(address: DWord, opcode: Byte, size: number): Instruction {
-		const modRM = this.mmu.readByte(address);
+		const modRM = this.mmu.fetchByte(address);
 		const reg = (modRM & InstructionDecoder.REG_MASK) >> 3;
 
 		const operations = ["ADD", "OR", "ADC", "SBB", "AND", "SUB", "XOR", "CMP"];
 		const operation = operations[reg];
 
 		const [operand1, , instrSize] = this.decodeModRM(address, size);
-		const immediate = this.mmu.readByte(address + instrSize);
+		const immediate = this.mmu.fetchByte(address + instrSize);
+
+		// the immediate is sign-extended to the operand size
+		const extension = immediate >= 0x80 ? 2 ** (size * 8) - 0x100 : 0;
 
 		return {
 			opcode: opcode,
@@ -578,8 +935,8 @@ export class InstructionDecoder {
 				operand1,
 				{
 					type: OperandType.IMMEDIATE,
-					value: immediate,
-					size: 1,
+					value: immediate + extension,
+					size: size,
 				},
 			],
 			size: instrSize + 2,
@@ -591,7 +948,7 @@ export class InstructionDecoder {
 	 * Decode bit shift instructions (SHL/SHR with count = 1)
 	 */
 	private decodeBitShift(address: DWord, opcode: Byte, size: number): Instruction {
-		const modRM = this.mmu.readByte(address);
+		const modRM = this.mmu.fetchByte(address);
 		const reg = (modRM & InstructionDecoder.REG_MASK) >> 3;
 
 		// reg field determines operation: 4=SHL, 5=SHR
@@ -618,13 +975,13 @@ export class InstructionDecoder {
 	 * Decode bit shift with immediate count
 	 */
 	private decodeBitShiftImm(address: DWord, opcode: Byte, size: number): Instruction {
-		const modRM = this.mmu.readByte(address);
+		const modRM = this.mmu.fetchByte(address);
 		const reg = (modRM & InstructionDecoder.REG_MASK) >> 3;
 
 		const operation = reg === 4 ? "SHL" : "SHR";
 
 		const [operand1, , instrSize] = this.decodeModRM(address, size);
-		const immediate = this.mmu.readByte(address + instrSize);
+		const immediate = this.mmu.fetchByte(address + instrSize);
 
 		return {
 			opcode: opcode,
@@ -641,12 +998,58 @@ export class InstructionDecoder {
 		};
 	}
 
+	/**
+	 * Decode a string instruction; its implicit operands address memory through ESI and EDI
+	 */
+	private decodeString(opcode: Byte, mnemonic: string, operandSize: number): Instruction {
+		const size = opcode % 2 === 0 ? 1 : operandSize;
+		const pointer = (regIndex: number): Operand => ({
+			type: OperandType.REGISTER_INDIRECT,
+			value: regIndex,
+			size: size,
+			register: InstructionDecoder.REGISTERS_32[regIndex],
+		});
+		const accumulator: Operand = {
+			type: OperandType.REGISTER,
+			value: 0,
+			size: size,
+			register: InstructionDecoder.registerName(0, size),
+		};
+		const source = pointer(6); // ESI
+		const destination = pointer(7); // EDI
+
+		let operands: Operand[];
+		switch (mnemonic) {
+			case "MOVS":
+				operands = [destination, source];
+				break;
+			case "CMPS":
+				operands = [source, destination];
+				break;
+			case "STOS":
+				operands = [destination, accumulator];
+				break;
+			case "LODS":
+				operands = [accumulator, source];
+				break;
+			default: // SCAS
+				operands = [accumulator, destination];
+		}
+
+		return {
+			opcode: opcode,
+			operands: operands,
+			size: 1,
+			mnemonic: mnemonic,
+		};
+	}
+
 	/**
 	 * Decode INC/DEC instructions
 	 */
-	private decodeINCDEC(address: DWord, opcode: Byte, mnemonic: string): Instruction {
+	private decodeINCDEC(address: DWord, opcode: Byte, mnemonic: string, size: number): Instruction {
 		const regIndex = opcode & 0x07;
-		const register = InstructionDecoder.REGISTERS_32[regIndex];
+		const register = InstructionDecoder.registerName(regIndex, size);
 
 		return {
 			opcode: opcode,
@@ -654,7 +1057,7 @@ export class InstructionDecoder {
 				{
 					type: OperandType.REGISTER,
 					value: regIndex,
-					size: 4,
+					size: size,
 					register: register,
 				},
 			],
@@ -667,7 +1070,7 @@ export class InstructionDecoder {
 	 * Decode JMP instruction
 	 */
 	private decodeJMP(address: DWord, opcode: Byte): Instruction {
-		const offset = this.mmu.readDWord(address);
+		const offset = this.mmu.fetchDWord(address);
 		return {
 			opcode: opcode,
 			operands: [
@@ -686,7 +1089,7 @@ export class InstructionDecoder {
 	 * Decode conditional jump instructions
 	 */
 	private decodeConditionalJump(address: DWord, opcode: Byte, mnemonic: string): Instruction {
-		const offset = this.mmu.readByte(address);
+		const offset = this.mmu.fetchByte(address);
 		return {
 			opcode: opcode,
 			operands: [
@@ -704,9 +1107,9 @@ export class InstructionDecoder {
 	/**
 	 * Decode PUSH/POP instructions
 	 */
-	private decodePUSHPOP(address: DWord, opcode: Byte, mnemonic: string): Instruction {
+	private decodePUSHPOP(address: DWord, opcode: Byte, mnemonic: string, size: number): Instruction {
 		const regIndex = opcode & 0x07;
-		const register = InstructionDecoder.REGISTERS_32[regIndex];
+		const register = InstructionDecoder.registerName(regIndex, size);
 
 		return {
 			opcode: opcode,
@@ -714,7 +1117,7 @@ export class InstructionDecoder {
 				{
 					type: OperandType.REGISTER,
 					value: regIndex,
-					size: 4,
+					size: size,
 					register: register,
 				},
 			],
@@ -727,7 +1130,7 @@ export class InstructionDecoder {
 	 * Decode CALL instruction
 	 */
 	private decodeCALL(address: DWord, opcode: Byte): Instruction {
-		const offset = this.mmu.readDWord(address);
+		const offset = this.mmu.fetchDWord(address);
 		return {
 			opcode: opcode,
 			operands: [
@@ -758,7 +1161,7 @@ export class InstructionDecoder {
 	 * Decode INT instruction
 	 */
 	private decodeINT(address: DWord, opcode: Byte): Instruction {
-		const vector = this.mmu.readByte(address);
+		const vector = this.mmu.fetchByte(address);
 		return {
 			opcode: opcode,
 			operands: [
@@ -774,10 +1177,10 @@ export class InstructionDecoder {
 	}
 
 	/**
-	 * Decode ModR/M byte
+	 * Decode a ModR/M byte along with its SIB byte and displacement
 	 */
 	private decodeModRM(address: DWord, operandSize: number): [Operand, Operand, number] {
-		const modRM = this.mmu.readByte(address);
+		const modRM = this.mmu.fetchByte(address);
 		const mod = (modRM & InstructionDecoder.MOD_MASK) >> 6;
 		const reg = (modRM & InstructionDecoder.REG_MASK) >> 3;
 		const rm = modRM & InstructionDecoder.RM_MASK;
@@ -785,81 +1188,116 @@ export class InstructionDecoder {
 		let size = 1; // ModR/M byte
 
 		// decode register operand (always uses the reg field)
-		const registerNames = operandSize === 1 ? InstructionDecoder.REGISTERS_8 : InstructionDecoder.REGISTERS_32;
 		const regOperand: Operand = {
 			type: OperandType.REGISTER,
 			value: reg,
 			size: operandSize,
-			register: registerNames[reg],
+			register: InstructionDecoder.registerName(reg, operandSize),
 		};
 
-		// decode R/M operand
-		let rmOperand: Operand;
-		let disp8: number;
-		let disp32: number;
-		let rmRegisterNames: string[];
-
-		switch (mod) {
-			case 0: // indirect addressing
-				if (rm === 5) {
-					// direct addressing
-					const displacement = this.mmu.readDWord(address + 1);
-					size += 4;
-					rmOperand = {
-						type: OperandType.MEMORY,
-						value: displacement,
-						size: operandSize,
-					};
-				} else {
-					rmOperand = {
-						type: OperandType.REGISTER_INDIRECT,
-						value: rm,
-						size: operandSize,
-						register: InstructionDecoder.REGISTERS_32[rm], // always use 32-bit register names for addressing
-					};
-				}
-				break;
+		// register direct
+		if (mod === 3) {
+			const rmOperand: Operand = {
+				type: OperandType.REGISTER,
+				value: rm,
+				size: operandSize,
+				register: InstructionDecoder.registerName(rm, operandSize),
+			};
+			return [rmOperand, regOperand, size];
+		}
 
-			case 1:
-				// indirect with 8-bit displacement
-				disp8 = this.mmu.readByte(address + 1);
-				size += 1;
-				rmOperand = {
-					type: OperandType.REGISTER_INDIRECT_DISPLACEMENT,
-					value: rm,
-					size: operandSize,
-					register: InstructionDecoder.REGISTERS_32[rm], // always use 32-bit register names for addressing
-					displacement: disp8,
-				};
-				break;
+		// memory: [base + index*scale + displacement], addressing always uses 32-bit registers
+		let base: number | undefined = rm;
+		let index: number | undefined;
+		let scale = 1;
+		let displacementSize = mod === 1 ? 1 : mod === 2 ? 4 : 0;
+
+		if (rm === 4) {
+			// SIB byte: scale (2 bits), index (3 bits), base (3 bits)
+			const sib = this.mmu.fetchByte(address + size);
+			size += 1;
+			scale = 1 << (sib >> 6);
+			const sibIndex = (sib >> 3) & 0x07;
+			base = sib & 0x07;
+
+			// index 4 (ESP) means no index
+			if (sibIndex !== 4) {
+				index = sibIndex;
+			}
+			// base 5 (EBP) with mod 0 means no base and a 32-bit displacement
+			if (base === 5 && mod === 0) {
+				base = undefined;
+				displacementSize = 4;
+			}
+		} else if (rm === 5 && mod === 0) {
+			// direct addressing
+			base = undefined;
+			displacementSize = 4;
+		}
 
-			case 2:
-				// indirect with 32-bit displacement
-				disp32 = this.mmu.readDWord(address + 1);
-				size += 4;
-				rmOperand = {
-					type: OperandType.REGISTER_INDIRECT_DISPLACEMENT,
-					value: rm,
-					size: operandSize,
-					register: InstructionDecoder.REGISTERS_32[rm], // always use 32-bit register names for addressing
-					displacement: disp32,
-				};
-				break;
+		let displacement = 0;
+		if (displacementSize === 1) {
+			const disp8 = this.mmu.fetchByte(address + size);
+			displacement = disp8 >= 0x80 ? disp8 - 0x100 : disp8;
+		} else if (displacementSize === 4) {
+			const disp32 = this.mmu.fetchDWord(address + size);
+			displacement = disp32 > 0x7fffffff ? disp32 - 0x100000000 : disp32;
+		}
+		size += displacementSize;
 
-			case 3: // register direct
-				rmRegisterNames = operandSize === 1 ? InstructionDecoder.REGISTERS_8 : InstructionDecoder.REGISTERS_32;
-				rmOperand = {
-					type: OperandType.REGISTER,
-					value: rm,
-					size: operandSize,
-					register: rmRegisterNames[rm], // use correct register array based on operand size
-				};
-				break;
+		let rmOperand: Operand;
+		if (base === undefined) {
+			rmOperand = {
+				type: OperandType.MEMORY,
+				value: displacement >>> 0,
+				size: operandSize,
+			};
+		} else if (displacementSize === 0) {
+			rmOperand = {
+				type: OperandType.REGISTER_INDIRECT,
+				value: base,
+				size: operandSize,
+				register: InstructionDecoder.REGISTERS_32[base],
+			};
+		} else {
+			rmOperand = {
+				type: OperandType.REGISTER_INDIRECT_DISPLACEMENT,
+				value: base,
+				size: operandSize,
+				register: InstructionDecoder.REGISTERS_32[base],
+				displacement: displacement,
+			};
+		}
 
-			default:
-				throw "Invalid ModR/M mod field";
+		if (index !== undefined) {
+			rmOperand.index = InstructionDecoder.REGISTERS_32[index];
+			rmOperand.scale = scale;
 		}
 
 		return [rmOperand, regOperand, size];
 	}
+
+	/**
+	 * Fetch an immediate of the given size
+	 */
+	private fetchImmediate(address: DWord, size: number): number {
+		return size === 1
+			? this.mmu.fetchByte(address)
+			: size === 2
+				? this.mmu.fetchWord(address)
+				: this.mmu.fetchDWord(address);
+	}
+
+	/**
+	 * Name of the general register with the given index and size
+	 */
+	private static registerName(index: number, size: number): string {
+		const names =
+			size === 1
+				? InstructionDecoder.REGISTERS_8
+				: size === 2
+					? InstructionDecoder.REGISTERS_16
+					: InstructionDecoder.REGISTERS_32;
+		return names[index];
+	}
 }
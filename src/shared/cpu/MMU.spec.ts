@@ -0,0 +1,291 @@
+/// <reference types="@rbxts/testez/globals" />
+import { CPUFault, PF_PRESENT, PF_USER, PF_WRITE, PageFault } from "./Faults";
+import { MemoryMappedDevice } from "../devices/types";
+import { MMU } from "./MMU";
+import { PTE_ACCESSED, PTE_DIRTY, PTE_PRESENT, PTE_USER, PTE_WRITABLE } from "./types";
+
+const DIRECTORY = 0x1000;
+const TABLE = 0x2000;
+
+/**
+ * MMU with paging on and one page table covering the first 4 MiB
+ */
+function pagedMMU(directoryRights: number = PTE_WRITABLE | PTE_USER): MMU {
+	const mmu = new MMU(0x10000);
+	mmu.writePhysical(DIRECTORY, TABLE | PTE_PRESENT | directoryRights, 4);
+	mmu.setPageDirectoryBase(DIRECTORY);
+	mmu.setPagingEnabled(true);
+	return mmu;
+}
+
+function mapPhysical(mmu: MMU, page: number, frame: number, rights: number): void {
+	mmu.writePhysical(TABLE + (page >>> 12) * 4, frame | PTE_PRESENT | rights, 4);
+	mmu.invalidatePage(page);
+}
+
+function tableEntry(mmu: MMU, page: number): number {
+	return mmu.readPhysical(TABLE + (page >>> 12) * 4, 4);
+}
+
+class RecordingDevice implements MemoryMappedDevice {
+	readonly accesses: string[] = [];
+	value = 0;
+
+	readMemory(offset: number, size: number): number {
+		this.accesses.push(`R ${string.format("%X", offset)}/${size}`);
+		return this.value;
+	}
+
+	writeMemory(offset: number, value: number, size: number): void {
+		this.accesses.push(`W ${string.format("%X", offset)}/${size}=${string.format("%X", value)}`);
+	}
+}
+
+function catchError(callback: () => void): unknown {
+	try {
+		callback();
+	} catch (err) {
+		return err;
+	}
+	return undefined;
+}
+
+function catchFault(callback: () => void): CPUFault | undefined {
+	try {
+		callback();
+	} catch (err) {
+		if (err instanceof CPUFault) return err;
+		throw err;
+	}
+	return undefined;
+}
+
+export = () => {
+	describe("protection", () => {
+		it("should fault on user writes to read-only pages and user access to supervisor pages", () => {
+			const mmu = pagedMMU();
+			mapPhysical(mmu, 0x3000, 0x5000, PTE_USER);
+			mapPhysical(mmu, 0x4000, 0x6000, PTE_WRITABLE);
+			mmu.setPrivilegeLevel(3);
+
+			expect(mmu.readByte(0x3000)).to.equal(0);
+			const write = catchFault(() => mmu.writeByte(0x3000, 1));
+			expect(write).to.be.ok();
+			expect(write?.errorCode).to.equal(PF_PRESENT | PF_WRITE | PF_USER);
+
+			const supervisor = catchFault(() => mmu.readByte(0x4000));
+			expect(supervisor).to.be.ok();
+			expect((supervisor as PageFault).linearAddress).to.equal(0x4000);
+		});
+
+		it("should let supervisor writes through read-only pages unless write protect is on", () => {
+			const mmu = pagedMMU();
+			mapPhysical(mmu, 0x3000, 0x5000, 0);
+
+			mmu.writeByte(0x3000, 0x41);
+			expect(mmu.readPhysical(0x5000, 1)).to.equal(0x41);
+
+			mmu.setWriteProtect(true);
+			expect(catchFault(() => mmu.writeByte(0x3000, 0x42))).to.be.ok();
+		});
+
+		it("should take the most restrictive rights of the directory and table entries", () => {
+			const mmu = pagedMMU(PTE_WRITABLE);
+			mapPhysical(mmu, 0x3000, 0x5000, PTE_WRITABLE | PTE_USER);
+			mmu.setPrivilegeLevel(3);
+
+			expect(catchFault(() => mmu.readByte(0x3000))).to.be.ok();
+		});
+
+		it("should set accessed and dirty bits only for accesses that are allowed", () => {
+			const mmu = pagedMMU();
+			mapPhysical(mmu, 0x3000, 0x5000, PTE_USER);
+			mapPhysical(mmu, 0x4000, 0x6000, PTE_WRITABLE);
+			mmu.setPrivilegeLevel(3);
+
+			catchFault(() => mmu.writeByte(0x3000, 1));
+			catchFault(() => mmu.readByte(0x4000));
+			expect(tableEntry(mmu, 0x3000) & (PTE_ACCESSED | PTE_DIRTY)).to.equal(0);
+			expect(tableEntry(mmu, 0x4000) & (PTE_ACCESSED | PTE_DIRTY)).to.equal(0);
+
+			mmu.readByte(0x3000);
+			expect(tableEntry(mmu, 0x3000) & (PTE_ACCESSED | PTE_DIRTY)).to.equal(PTE_ACCESSED);
+
+			mmu.setPrivilegeLevel(0);
+			mmu.writeByte(0x4000, 1);
+			expect(tableEntry(mmu, 0x4000) & (PTE_ACCESSED | PTE_DIRTY)).to.equal(PTE_ACCESSED | PTE_DIRTY);
+		});
+	});
+
+	describe("paging", () => {
+		it("should translate through the guest page tables and fault on missing entries", () => {
+			const mmu = pagedMMU();
+			mapPhysical(mmu, 0x3000, 0x7000, PTE_WRITABLE);
+			mmu.writeDWord(0x3010, 0xdeadbeef);
+			expect(mmu.readPhysical(0x7010, 4)).to.equal(0xdeadbeef);
+
+			const missingPage = catchFault(() => mmu.readByte(0x5000));
+			expect((missingPage as PageFault).linearAddress).to.equal(0x5000);
+			expect(missingPage?.errorCode).to.equal(0);
+
+			const missingTable = catchFault(() => mmu.writeByte(0x800000, 1));
+			expect(missingTable?.errorCode).to.equal(PF_WRITE);
+		});
+
+		it("should take the frames of mapPage from the reserved pool only", () => {
+			const mmu = pagedMMU();
+			expect(catchError(() => mmu.mapPage(0x400000, true, false))).to.be.ok();
+
+			mmu.reserveFrames(0xc000, 0x2000);
+			mmu.mapPage(0x400000, true, false);
+			const directoryEntry = mmu.readPhysical(DIRECTORY + 4, 4);
+			const tableBase = directoryEntry & 0xfffff000;
+			expect(tableBase).to.equal(0xc000);
+			expect(mmu.readPhysical(tableBase, 4) & 0xfffff000).to.equal(0xd000);
+
+			mmu.writeByte(0x400000, 0x5a);
+			expect(mmu.readPhysical(0xd000, 1)).to.equal(0x5a);
+			expect(catchError(() => mmu.mapPage(0x401000, true, false))).to.be.ok();
+		});
+
+		it("should refuse to reserve frames that are already in use", () => {
+			const mmu = new MMU(0x10000);
+			mmu.writeByte(0x9000, 1);
+			expect(() => mmu.reserveFrames(0x8000, 0x2000)).to.throw("already in use");
+			expect(() => mmu.reserveFrames(0x8100, 0x1000)).to.throw("Cannot reserve");
+		});
+
+		it("should never widen the rights of a guest directory entry", () => {
+			const mmu = pagedMMU(0);
+			mmu.reserveFrames(0xc000, 0x1000);
+
+			expect(() => mmu.mapPage(0x3000, false, true)).to.throw("does not allow user reads");
+			expect(() => mmu.mapPage(0x3000, true, false)).to.throw("does not allow supervisor writes");
+			expect(mmu.readPhysical(DIRECTORY, 4)).to.equal(TABLE | PTE_PRESENT);
+
+			mmu.mapPage(0x3000, false, false);
+			expect(tableEntry(mmu, 0x3000) & (PTE_WRITABLE | PTE_USER)).to.equal(0);
+		});
+
+		it("should give process directories private copies of the tables they change", () => {
+			const mmu = pagedMMU();
+			mmu.reserveFrames(0xc000, 0x3000);
+			mapPhysical(mmu, 0x3000, 0x7000, PTE_WRITABLE);
+
+			const directory = mmu.createPageDirectory(DIRECTORY);
+			mmu.setPageDirectoryBase(directory);
+			expect(mmu.readByte(0x3000)).to.equal(0);
+			mmu.mapPage(0x3000, true, false);
+			mmu.writeByte(0x3000, 0x11);
+
+			mmu.setPageDirectoryBase(DIRECTORY);
+			expect(mmu.readPhysical(0x7000, 1)).to.equal(0);
+			expect(() => mmu.destroyPageDirectory(DIRECTORY)).to.throw("Unknown page directory");
+
+			// every frame goes back to the pool, so the next directory fits again
+			mmu.destroyPageDirectory(directory);
+			const again = mmu.createPageDirectory(DIRECTORY);
+			mmu.setPageDirectoryBase(again);
+			mmu.mapPage(0x3000, true, false);
+		});
+	});
+
+	describe("address spaces", () => {
+		it("should keep the pages and TLB entries of each address space apart without flushing", () => {
+			const mmu = new MMU(0x10000);
+			mmu.writeByte(0x3000, 1);
+			const asid = mmu.createAddressSpace();
+			mmu.switchAddressSpace(asid);
+			expect(mmu.readByte(0x3000)).to.equal(0);
+			mmu.writeByte(0x3000, 2);
+
+			mmu.switchAddressSpace(MMU.KERNEL_ASID);
+			const hits = mmu.getStatistics().tlbHits;
+			expect(mmu.readByte(0x3000)).to.equal(1);
+			expect(mmu.getStatistics().tlbHits).to.equal(hits + 1);
+			mmu.switchAddressSpace(asid);
+			expect(mmu.readByte(0x3000)).to.equal(2);
+
+			expect(() => mmu.destroyAddressSpace(asid)).to.throw("while it is active");
+			expect(() => mmu.destroyAddressSpace(MMU.KERNEL_ASID)).to.throw("while it is");
+			mmu.switchAddressSpace(MMU.KERNEL_ASID);
+			mmu.destroyAddressSpace(asid);
+			expect(() => mmu.switchAddressSpace(asid)).to.throw("Unknown address space");
+		});
+
+		it("should tear down process state on clearCaches and keep host pages out of the pool", () => {
+			const mmu = pagedMMU();
+			mmu.reserveFrames(0xc000, 0x4000);
+			mmu.mapPage(0x400000, true, false);
+			const directory = mmu.createPageDirectory(DIRECTORY);
+			const asid = mmu.createAddressSpace();
+			mmu.switchAddressSpace(asid);
+
+			mmu.clearCaches();
+			expect(mmu.getAddressSpace()).to.equal(MMU.KERNEL_ASID);
+			expect(() => mmu.switchAddressSpace(asid)).to.throw("Unknown address space");
+			expect(() => mmu.destroyPageDirectory(directory)).to.throw("Unknown page directory");
+			expect(mmu.createAddressSpace()).to.equal(asid);
+
+			// the kernel directory keeps its table at 0xc000, the directory frame is free again
+			mmu.setPagingEnabled(false);
+			for (let page = 0xc000; page < 0x10000; page += 0x1000) {
+				mmu.writeByte(page, 0x77);
+			}
+			expect(mmu.readPhysical(0xc000, 4) & 0xfffff000).to.equal(0xd000);
+			expect(mmu.readPhysical(0xe000, 1)).never.to.equal(0x77);
+			expect(mmu.createPageDirectory(DIRECTORY)).to.equal(0xe000);
+		});
+	});
+
+	describe("memory-mapped I/O", () => {
+		it("should route accesses in a region to its device at region offsets", () => {
+			const mmu = new MMU(0x10000);
+			const device = new RecordingDevice();
+			device.value = 0xabcd;
+			mmu.mapDevice(device, 0xb8000, 4000, "vga");
+
+			mmu.writeDWord(0xb8000, 0x0741);
+			mmu.writeByte(0xb8002, 0x42);
+			expect(mmu.readWord(0xb8010)).to.equal(0xabcd);
+			expect(mmu.readPhysical(0xb8004, 2)).to.equal(0xabcd);
+			expect(device.accesses.join(",")).to.equal("W 0/4=741,W 2/1=42,R 10/2,R 4/2");
+		});
+
+		it("should never cache device registers", () => {
+			const mmu = new MMU(0x10000);
+			const device = new RecordingDevice();
+			mmu.mapDevice(device, 0xb8000, 0x1000);
+			mmu.readByte(0xb8000);
+			const before = mmu.getStatistics();
+
+			device.value = 7;
+			expect(mmu.readByte(0xb8000)).to.equal(7);
+			const after = mmu.getStatistics();
+			expect(after.cacheHits).to.equal(before.cacheHits);
+			expect(after.cacheMisses).to.equal(before.cacheMisses);
+		});
+
+		it("should reject overlapping regions and stop routing after unmapDevice", () => {
+			const mmu = new MMU(0x10000);
+			const device = new RecordingDevice();
+			mmu.mapDevice(device, 0xb8000, 4000, "vga");
+			expect(() => mmu.mapDevice(new RecordingDevice(), 0xb8f00, 0x100, "other")).to.throw("overlaps vga");
+
+			mmu.unmapDevice(device);
+			mmu.writeByte(0xb8000, 1);
+			expect(mmu.readByte(0xb8000)).to.equal(1);
+			expect(device.accesses.size()).to.equal(0);
+		});
+
+		it("should reach devices through guest page tables", () => {
+			const mmu = pagedMMU();
+			const device = new RecordingDevice();
+			mmu.mapDevice(device, 0xb8000, 0x1000);
+			mapPhysical(mmu, 0x3000, 0xb8000, PTE_WRITABLE);
+
+			mmu.writeWord(0x3020, 0x1234);
+			expect(device.accesses.join(",")).to.equal("W 20/2=1234");
+		});
+	});
+};
@@ -1,19 +1,46 @@
-import { Byte, Word, DWord, PAGE_SIZE, MemoryAccessType } from "./types";
+import {
+	Byte,
+	Word,
+	DWord,
+	PAGE_SIZE,
+	PAGE_FRAME_MASK,
+	PTE_PRESENT,
+	PTE_WRITABLE,
+	PTE_USER,
+	PTE_ACCESSED,
+	PTE_DIRTY,
+	MemoryAccessType,
+} from "./types";
+import { MemoryMappedDevice } from "../devices/types";
+import { GeneralProtectionFault, PageFault, PF_INSTRUCTION, PF_PRESENT, PF_USER, PF_WRITE } from "./Faults";
 
 /**
  * Memory Management Unit
  * Handles memory virtualization, paging, and caching
  */
 export class MMU {
+	static readonly KERNEL_ASID = 0; // address space active after construction and reset
+
 	private physicalMemory: number[];
 	private memorySize: number;
-	private pageDirectory: Map<number, PageTableEntry>;
-	private tlbCache: Map<number, number>; // translation lookaside buffer
+	private pageDirectory: Map<number, PageTableEntry>; // host page map of the active address space
+	private tlbCache: Map<number, Translation>; // translation lookaside buffer, tagged by ASID
 	private l1Cache: Map<number, CacheEntry>; // L1 Cache
 	private l2Cache: Map<number, CacheEntry>; // L2 Cache
 	private freeFrames: Set<number>; // track free physical frames
+	private poolFrames = new Set<number>(); // every frame set aside by reserveFrames
+	private reservedFrames = new Set<number>(); // free frames of that pool
 	private maxFrames: number;
 	private protectedPages: Set<number>; // pages that cannot be evicted (code pages)
+	private addressSpaces = new Map<number, AddressSpace>(); // host page maps by ASID
+	private processDirectories = new Map<DWord, ProcessDirectory>(); // page directories built by createPageDirectory
+	private currentASID = MMU.KERNEL_ASID;
+	private nextASID = MMU.KERNEL_ASID + 1;
+	private mmioRegions: MMIORegion[] = []; // physical ranges routed to devices
+	private pagingEnabled = false; // CR0.PG - walk guest page tables instead of the host map
+	private pageDirectoryBase: DWord = 0; // CR3
+	private privilegeLevel = 0; // CPL of the running code, 3 = user
+	private writeProtect = false; // CR0.WP - supervisor writes honour read-only pages
 
 	// stats
 	private pageFaults = 0;
@@ -30,6 +57,7 @@ export class MMU {
 		this.l1Cache = new Map();
 		this.l2Cache = new Map();
 		this.protectedPages = new Set(); // init a protected pages set
+		this.addressSpaces.set(MMU.KERNEL_ASID, { pages: this.pageDirectory, protectedPages: this.protectedPages });
 
 		// init  free frame tracking
 		this.maxFrames = math.floor(memorySize / PAGE_SIZE);
@@ -61,7 +89,13 @@ export class MMU {
 	/**
 	 * Allocate a physical frame with protection for code pages
 	 */
-	private allocateFrame(): number {
+	private allocateFrame(preferredFrame: number): number | undefined {
+		// identity-map when possible so physical addresses match virtual ones before paging is on
+		if (this.freeFrames.has(preferredFrame)) {
+			this.freeFrames.delete(preferredFrame);
+			return preferredFrame;
+		}
+
 		// check if we have free frames
 		if (this.freeFrames.size() > 0) {
 			// first available frame
@@ -96,7 +130,7 @@ export class MMU {
 					// remove from page directory
 					this.pageDirectory.delete(oldestPage);
 					// remove from TLB if present
-					this.tlbCache.delete(oldestPage);
+					this.tlbCache.delete(this.tlbKey(oldestPage));
 
 					// allocate the freed frame
 					this.freeFrames.delete(evictedEntry.frameNumber);
@@ -105,14 +139,27 @@ export class MMU {
 			}
 		}
 
-		// if we still can't allocate (all pages are protected), increase memory or throw error
-		throw "Out of physical memory - all pages are protected";
+		// every frame holds a protected page, so nothing can be allocated
+		return undefined;
 	}
 
 	/**
-	 * Clear all caches and reset memory, but preserve protected pages
+	 * Clear all caches and reset memory, but preserve the protected pages of the kernel address
+	 * space. Every other address space and every process page directory is torn down
 	 */
 	clearCaches(): void {
+		this.switchAddressSpace(MMU.KERNEL_ASID);
+		this.addressSpaces.forEach((_, asid) => {
+			if (asid !== MMU.KERNEL_ASID) this.addressSpaces.delete(asid);
+		});
+		this.nextASID = MMU.KERNEL_ASID + 1;
+		this.processDirectories.forEach((record) => {
+			for (const frame of record.frames) {
+				this.reservedFrames.add(frame);
+			}
+		});
+		this.processDirectories.clear();
+
 		this.tlbCache.clear();
 		this.l1Cache.clear();
 		this.l2Cache.clear();
@@ -130,7 +177,8 @@ export class MMU {
 			this.pageDirectory.set(pageNum, entry);
 		});
 
-		// reset free frames, account for protected pages
+		// reset free frames, keeping protected pages and the reserved pool out; the tables the pool
+		// gave the kernel directory stay allocated since CR3 may point at them again
 		this.freeFrames.clear();
 		const usedFrames = new Set<number>();
 		protectedEntries.forEach((entry) => {
@@ -138,7 +186,7 @@ export class MMU {
 		});
 
 		for (let i = 0; i < this.maxFrames; i++) {
-			if (!usedFrames.has(i)) {
+			if (!usedFrames.has(i) && !this.poolFrames.has(i)) {
 				this.freeFrames.add(i);
 			}
 		}
@@ -171,48 +219,346 @@ export class MMU {
 	 * Read a byte from memory
 	 */
 	readByte(virtualAddress: DWord): Byte {
-		const physicalAddress = this.translateAddress(virtualAddress, MemoryAccessType.READ);
-		return this.readFromCache(physicalAddress, 1);
+		return this.readVirtual(virtualAddress, 1, MemoryAccessType.READ);
 	}
 
 	/**
 	 * Read a word (16-bit) from memory
 	 */
 	readWord(virtualAddress: DWord): Word {
-		const physicalAddress = this.translateAddress(virtualAddress, MemoryAccessType.READ);
-		return this.readFromCache(physicalAddress, 2);
+		return this.readVirtual(virtualAddress, 2, MemoryAccessType.READ);
 	}
 
 	/**
 	 * Read a double word (32-bit) from memory
 	 */
 	readDWord(virtualAddress: DWord): DWord {
-		const physicalAddress = this.translateAddress(virtualAddress, MemoryAccessType.READ);
-		return this.readFromCache(physicalAddress, 4);
+		return this.readVirtual(virtualAddress, 4, MemoryAccessType.READ);
 	}
 
 	/**
 	 * Write a byte to memory
 	 */
 	writeByte(virtualAddress: DWord, value: Byte): void {
-		const physicalAddress = this.translateAddress(virtualAddress, MemoryAccessType.WRITE);
-		this.writeToCache(physicalAddress, value, 1);
+		this.writeVirtual(virtualAddress, value, 1);
 	}
 
 	/**
 	 * Write a word (16-bit) to memory
 	 */
 	writeWord(virtualAddress: DWord, value: Word): void {
-		const physicalAddress = this.translateAddress(virtualAddress, MemoryAccessType.WRITE);
-		this.writeToCache(physicalAddress, value, 2);
+		this.writeVirtual(virtualAddress, value, 2);
 	}
 
 	/**
 	 * Write a double word (32-bit) to memory
 	 */
 	writeDWord(virtualAddress: DWord, value: DWord): void {
-		const physicalAddress = this.translateAddress(virtualAddress, MemoryAccessType.WRITE);
-		this.writeToCache(physicalAddress, value, 4);
+		this.writeVirtual(virtualAddress, value, 4);
+	}
+
+	/**
+	 * Fetch an instruction byte (checked as an EXECUTE access)
+	 */
+	fetchByte(virtualAddress: DWord): Byte {
+		return this.readVirtual(virtualAddress, 1, MemoryAccessType.EXECUTE);
+	}
+
+	/**
+	 * Fetch an instruction word (checked as an EXECUTE access)
+	 */
+	fetchWord(virtualAddress: DWord): Word {
+		return this.readVirtual(virtualAddress, 2, MemoryAccessType.EXECUTE);
+	}
+
+	/**
+	 * Fetch an instruction double word (checked as an EXECUTE access)
+	 */
+	fetchDWord(virtualAddress: DWord): DWord {
+		return this.readVirtual(virtualAddress, 4, MemoryAccessType.EXECUTE);
+	}
+
+	/**
+	 * Read from physical memory, bypassing translation (page tables, DMA, debugging)
+	 */
+	readPhysical(physicalAddress: DWord, size: number): number {
+		const region = this.findMMIORegion(physicalAddress);
+		if (region) {
+			return region.device.readMemory(physicalAddress - region.base, size);
+		}
+		return this.readFromMemory(physicalAddress, size);
+	}
+
+	/**
+	 * Write to physical memory, bypassing translation
+	 */
+	writePhysical(physicalAddress: DWord, value: number, size: number): void {
+		this.writeToCache(physicalAddress, value, size);
+	}
+
+	/**
+	 * Map a device onto the physical range [base, base + size); accesses there skip RAM and the caches
+	 */
+	mapDevice(device: MemoryMappedDevice, base: DWord, size: number, name: string = "device"): void {
+		for (const region of this.mmioRegions) {
+			if (base < region.base + region.size && region.base < base + size) {
+				throw `MMIO range 0x${string.format("%X", base)} of ${name} overlaps ${region.name}`;
+			}
+		}
+		this.mmioRegions.push({ base, size, name, device });
+		this.flushTLB();
+	}
+
+	/**
+	 * Remove every region mapped for a device
+	 */
+	unmapDevice(device: MemoryMappedDevice): void {
+		this.mmioRegions = this.mmioRegions.filter((region) => region.device !== device);
+		this.flushTLB();
+	}
+
+	/**
+	 * Enable or disable page-table translation (CR0.PG)
+	 */
+	setPagingEnabled(enabled: boolean): void {
+		this.pagingEnabled = enabled;
+		this.flushTLB();
+	}
+
+	isPagingEnabled(): boolean {
+		return this.pagingEnabled;
+	}
+
+	/**
+	 * Load the page directory base (CR3); like on x86 this flushes the TLB
+	 */
+	setPageDirectoryBase(physicalAddress: DWord): void {
+		this.pageDirectoryBase = physicalAddress;
+		this.flushTLB();
+	}
+
+	/**
+	 * Set the privilege level used for user/supervisor checks (CS & 3)
+	 */
+	setPrivilegeLevel(level: number): void {
+		this.privilegeLevel = level;
+	}
+
+	/**
+	 * Make supervisor writes fault on read-only pages (CR0.WP)
+	 */
+	setWriteProtect(enabled: boolean): void {
+		this.writeProtect = enabled;
+	}
+
+	/**
+	 * Set aside the physical range [base, base + size) for the page directories, page tables and
+	 * pages the MMU builds itself under paging (mapPage, createPageDirectory); the guest must keep
+	 * its own structures out of it. Throws when a frame of the range is already in use
+	 */
+	reserveFrames(base: DWord, size: number): void {
+		if (base % PAGE_SIZE !== 0 || size % PAGE_SIZE !== 0 || base + size > this.maxFrames * PAGE_SIZE) {
+			throw `Cannot reserve 0x${string.format("%X", size)} bytes at 0x${string.format("%X", base)}`;
+		}
+		const first = base / PAGE_SIZE;
+		const last = first + size / PAGE_SIZE;
+		for (let frame = first; frame < last; frame++) {
+			if (!this.freeFrames.has(frame)) {
+				throw `Frame 0x${string.format("%X", frame * PAGE_SIZE)} is already in use`;
+			}
+		}
+		for (let frame = first; frame < last; frame++) {
+			this.freeFrames.delete(frame);
+			this.poolFrames.add(frame);
+			this.reservedFrames.add(frame);
+		}
+	}
+
+	/**
+	 * Make a page present with the given access rights, allocating a frame when it is not mapped
+	 * yet; while paging is on the PTE goes into the page tables under CR3, whose directory entry
+	 * must already grant the rights
+	 */
+	mapPage(virtualAddress: DWord, writable: boolean, userMode: boolean): void {
+		const pageNumber = math.floor(virtualAddress / PAGE_SIZE);
+		if (this.pagingEnabled) {
+			const tableEntryAddress =
+				this.tableEntryAddress(virtualAddress, writable, userMode) ?? this.createPageTable(virtualAddress);
+			let tableEntry = this.readFromMemory(tableEntryAddress, 4);
+
+			// a process directory gets its own frame instead of one inherited from its template
+			const record = this.processDirectories.get(this.pageDirectoryBase & PAGE_FRAME_MASK);
+			if ((tableEntry & PTE_PRESENT) === 0 || (record && !record.mappedPages.has(pageNumber))) {
+				tableEntry = this.allocateTableFrame() * PAGE_SIZE;
+				record?.mappedPages.add(pageNumber);
+			}
+			this.writeToMemory(tableEntryAddress, pageRights(tableEntry, writable, userMode), 4);
+		} else {
+			let pageEntry = this.pageDirectory.get(pageNumber);
+			if (!pageEntry || !pageEntry.present) {
+				pageEntry = this.handlePageFault(virtualAddress, MemoryAccessType.WRITE);
+			}
+			pageEntry.writable = writable;
+			pageEntry.userMode = userMode;
+		}
+		this.tlbCache.delete(this.tlbKey(pageNumber));
+	}
+
+	/**
+	 * Change the access rights of a mapped page: its PTE under CR3 while paging is on, its host
+	 * page map entry otherwise. Throws when the page is not mapped
+	 */
+	setPagePermissions(virtualAddress: DWord, writable: boolean, userMode: boolean): void {
+		const pageNumber = math.floor(virtualAddress / PAGE_SIZE);
+		if (this.pagingEnabled) {
+			const tableEntryAddress = this.tableEntryAddress(virtualAddress, writable, userMode);
+			const tableEntry = tableEntryAddress !== undefined ? this.readFromMemory(tableEntryAddress, 4) : 0;
+			if (tableEntryAddress === undefined || (tableEntry & PTE_PRESENT) === 0) {
+				throw `Page 0x${string.format("%X", pageNumber * PAGE_SIZE)} is not mapped`;
+			}
+			this.writeToMemory(tableEntryAddress, pageRights(tableEntry, writable, userMode), 4);
+		} else {
+			const pageEntry = this.pageDirectory.get(pageNumber);
+			if (!pageEntry || !pageEntry.present) {
+				throw `Page 0x${string.format("%X", pageNumber * PAGE_SIZE)} is not mapped`;
+			}
+			pageEntry.writable = writable;
+			pageEntry.userMode = userMode;
+		}
+		this.tlbCache.delete(this.tlbKey(pageNumber));
+	}
+
+	/**
+	 * Drop every cached translation
+	 */
+	flushTLB(): void {
+		this.tlbCache.clear();
+	}
+
+	/**
+	 * Drop the cached translation of one page in the active address space (INVLPG)
+	 */
+	invalidatePage(virtualAddress: DWord): void {
+		this.tlbCache.delete(this.tlbKey(math.floor(virtualAddress / PAGE_SIZE)));
+	}
+
+	/**
+	 * Create an empty host page map and return its address space id
+	 */
+	createAddressSpace(): number {
+		const asid = this.nextASID++;
+		this.addressSpaces.set(asid, { pages: new Map(), protectedPages: new Set() });
+		return asid;
+	}
+
+	/**
+	 * Make another address space active; TLB entries are tagged, so nothing is flushed
+	 */
+	switchAddressSpace(asid: number): void {
+		const space = this.addressSpaces.get(asid);
+		if (!space) {
+			throw `Unknown address space ${asid}`;
+		}
+		this.currentASID = asid;
+		this.pageDirectory = space.pages;
+		this.protectedPages = space.protectedPages;
+	}
+
+	getAddressSpace(): number {
+		return this.currentASID;
+	}
+
+	/**
+	 * Release every frame of an inactive address space, including its protected pages
+	 */
+	destroyAddressSpace(asid: number): void {
+		const space = this.addressSpaces.get(asid);
+		if (!space) {
+			throw `Unknown address space ${asid}`;
+		}
+		if (asid === MMU.KERNEL_ASID || asid === this.currentASID) {
+			throw `Cannot destroy address space ${asid} while it is ${asid === this.currentASID ? "active" : "the kernel's"}`;
+		}
+
+		space.pages.forEach((entry, pageNumber) => {
+			this.freeFrames.add(entry.frameNumber);
+			this.tlbCache.delete(asid * ASID_STRIDE + pageNumber);
+		});
+		this.addressSpaces.delete(asid);
+	}
+
+	/**
+	 * Build a page directory for a new address space under paging: it starts with the entries of
+	 * the template directory (the kernel's mappings), and page tables are copied before the first
+	 * change through it so other directories never see its pages. Returns the physical address for CR3
+	 */
+	createPageDirectory(template: DWord): DWord {
+		const frameNumber = this.allocateTableFrame();
+		const directoryBase = frameNumber * PAGE_SIZE;
+		const templateBase = template & PAGE_FRAME_MASK;
+		for (let i = 0; i < PAGE_SIZE; i++) {
+			this.physicalMemory[directoryBase + i] = this.physicalMemory[templateBase + i];
+		}
+		this.processDirectories.set(directoryBase, {
+			frames: [frameNumber],
+			privateTables: new Set(),
+			mappedPages: new Set(),
+		});
+		return directoryBase;
+	}
+
+	/**
+	 * Release a directory built by createPageDirectory with every table and page mapped through it
+	 */
+	destroyPageDirectory(directoryBase: DWord): void {
+		const record = this.processDirectories.get(directoryBase & PAGE_FRAME_MASK);
+		if (!record) {
+			throw `Unknown page directory 0x${string.format("%X", directoryBase)}`;
+		}
+		if ((directoryBase & PAGE_FRAME_MASK) === (this.pageDirectoryBase & PAGE_FRAME_MASK)) {
+			throw `Cannot destroy page directory 0x${string.format("%X", directoryBase)} while it is in CR3`;
+		}
+
+		for (const frame of record.frames) {
+			this.reservedFrames.add(frame);
+		}
+		this.processDirectories.delete(directoryBase & PAGE_FRAME_MASK);
+		this.flushTLB();
+	}
+
+	/**
+	 * Read through translation, splitting accesses that straddle a page boundary
+	 */
+	private readVirtual(virtualAddress: DWord, size: number, accessType: MemoryAccessType): number {
+		if ((virtualAddress % PAGE_SIZE) + size <= PAGE_SIZE) {
+			return this.readFromCache(this.translateAddress(virtualAddress, accessType), size);
+		}
+
+		let value = 0;
+		for (let i = 0; i < size; i++) {
+			const physicalAddress = this.translateAddress(virtualAddress + i, accessType);
+			value |= this.readFromCache(physicalAddress, 1) << (i * 8);
+		}
+		return value >>> 0;
+	}
+
+	/**
+	 * Write through translation; every page is translated before any byte is stored
+	 * so a fault on the second page leaves memory untouched
+	 */
+	private writeVirtual(virtualAddress: DWord, value: number, size: number): void {
+		if ((virtualAddress % PAGE_SIZE) + size <= PAGE_SIZE) {
+			this.writeToCache(this.translateAddress(virtualAddress, MemoryAccessType.WRITE), value, size);
+			return;
+		}
+
+		const physicalAddresses: DWord[] = [];
+		for (let i = 0; i < size; i++) {
+			physicalAddresses.push(this.translateAddress(virtualAddress + i, MemoryAccessType.WRITE));
+		}
+		for (let i = 0; i < size; i++) {
+			this.writeToCache(physicalAddresses[i], (value >> (i * 8)) & 0xff, 1);
+		}
 	}
 
 	/**
@@ -222,25 +568,223 @@ export class MMU {
 		const pageNumber = math.floor(virtualAddress / PAGE_SIZE);
 		const pageOffset = virtualAddress % PAGE_SIZE;
 
-		// check TLB first
-		const cachedPhysicalPage = this.tlbCache.get(pageNumber);
-		if (cachedPhysicalPage !== undefined) {
+		// check TLB first (a write through a clean entry must walk again to set the dirty bit)
+		const cached = this.tlbCache.get(this.tlbKey(pageNumber));
+		if (cached && (accessType !== MemoryAccessType.WRITE || cached.dirty)) {
 			this.tlbHits++;
-			return cachedPhysicalPage * PAGE_SIZE + pageOffset;
+			this.checkAccess(cached, virtualAddress, accessType);
+			return cached.frameNumber * PAGE_SIZE + pageOffset;
 		}
 
 		this.tlbMisses++;
 
-		// check page directory
+		let translation: Translation;
+		if (this.pagingEnabled) {
+			// accessed/dirty bits are only set once the access is known to be allowed
+			const walk = this.walkPageTables(virtualAddress, accessType);
+			this.checkAccess(walk.translation, virtualAddress, accessType);
+			this.markAccessed(walk, accessType === MemoryAccessType.WRITE);
+			translation = walk.translation;
+		} else {
+			translation = this.lookupHostPage(virtualAddress, accessType);
+			this.checkAccess(translation, virtualAddress, accessType);
+		}
+		this.cacheTranslation(pageNumber, translation);
+
+		return translation.frameNumber * PAGE_SIZE + pageOffset;
+	}
+
+	/**
+	 * Enforce the user/supervisor and read/write bits of a translation
+	 */
+	private checkAccess(translation: Translation, virtualAddress: DWord, accessType: MemoryAccessType): void {
+		const userAccess = this.privilegeLevel === 3;
+
+		if (userAccess && !translation.userMode) {
+			throw new PageFault(
+				virtualAddress,
+				this.pageFaultErrorCode(accessType, true),
+				"User-mode access to a supervisor page",
+			);
+		}
+
+		// supervisor writes ignore R/W unless CR0.WP is set
+		if (accessType === MemoryAccessType.WRITE && !translation.writable && (userAccess || this.writeProtect)) {
+			throw new PageFault(virtualAddress, this.pageFaultErrorCode(accessType, true), "Write to a read-only page");
+		}
+	}
+
+	/**
+	 * Legacy translation through the host-side page map, allocating frames on first touch
+	 */
+	private lookupHostPage(virtualAddress: DWord, accessType: MemoryAccessType): Translation {
+		const pageNumber = math.floor(virtualAddress / PAGE_SIZE);
+
+		// device pages are identity-mapped so guests reach them at their physical address
+		if (this.isMMIOPage(pageNumber)) {
+			return { frameNumber: pageNumber, writable: true, userMode: true, dirty: true };
+		}
+
 		let pageEntry = this.pageDirectory.get(pageNumber);
 		if (!pageEntry || !pageEntry.present) {
 			this.pageFaults++;
 			pageEntry = this.handlePageFault(virtualAddress, accessType);
 		}
 
-		// update TLB
-		const physicalPage = pageEntry.frameNumber;
-		this.tlbCache.set(pageNumber, physicalPage);
+		return {
+			frameNumber: pageEntry.frameNumber,
+			writable: pageEntry.writable,
+			userMode: pageEntry.userMode,
+			dirty: true, // the host map does not track dirty pages
+		};
+	}
+
+	/**
+	 * Walk the two-level x86 page tables rooted at CR3 in physical memory; nothing is written, the
+	 * caller marks the entries accessed once the access passed the protection checks
+	 */
+	private walkPageTables(virtualAddress: DWord, accessType: MemoryAccessType): PageWalk {
+		const directoryIndex = (virtualAddress >>> 22) & 0x3ff;
+		const tableIndex = (virtualAddress >>> 12) & 0x3ff;
+
+		const directoryEntryAddress = (this.pageDirectoryBase & PAGE_FRAME_MASK) + directoryIndex * 4;
+		const directoryEntry = this.readFromMemory(directoryEntryAddress, 4);
+		if ((directoryEntry & PTE_PRESENT) === 0) {
+			this.pageFaults++;
+			throw new PageFault(virtualAddress, this.pageFaultErrorCode(accessType, false));
+		}
+
+		const tableEntryAddress = (directoryEntry & PAGE_FRAME_MASK) + tableIndex * 4;
+		const tableEntry = this.readFromMemory(tableEntryAddress, 4);
+		if ((tableEntry & PTE_PRESENT) === 0) {
+			this.pageFaults++;
+			throw new PageFault(virtualAddress, this.pageFaultErrorCode(accessType, false));
+		}
+
+		// effective rights are the most restrictive of the two levels
+		const rights = directoryEntry & tableEntry;
+		return {
+			translation: {
+				frameNumber: tableEntry >>> 12,
+				writable: (rights & PTE_WRITABLE) !== 0,
+				userMode: (rights & PTE_USER) !== 0,
+				dirty: (tableEntry & PTE_DIRTY) !== 0,
+			},
+			directoryEntryAddress,
+			directoryEntry,
+			tableEntryAddress,
+			tableEntry,
+		};
+	}
+
+	/**
+	 * Mark both levels of a walk accessed and the page dirty on writes
+	 */
+	private markAccessed(walk: PageWalk, isWrite: boolean): void {
+		if ((walk.directoryEntry & PTE_ACCESSED) === 0) {
+			this.writeToMemory(walk.directoryEntryAddress, walk.directoryEntry | PTE_ACCESSED, 4);
+		}
+		const updatedEntry = walk.tableEntry | PTE_ACCESSED | (isWrite ? PTE_DIRTY : 0);
+		if (updatedEntry !== walk.tableEntry) {
+			this.writeToMemory(walk.tableEntryAddress, updatedEntry, 4);
+		}
+		walk.translation.dirty = (updatedEntry & PTE_DIRTY) !== 0;
+	}
+
+	/**
+	 * Physical address of the PTE of a page in the tables under CR3, or undefined when its page
+	 * table is missing. Directory entries are never widened: throws when the entry covering the
+	 * page does not already grant the rights asked for
+	 */
+	private tableEntryAddress(virtualAddress: DWord, writable: boolean, userMode: boolean): DWord | undefined {
+		const directoryEntryAddress = this.directoryEntryAddress(virtualAddress);
+		let directoryEntry = this.readFromMemory(directoryEntryAddress, 4);
+		if ((directoryEntry & PTE_PRESENT) === 0) return undefined;
+
+		const rights = (writable ? PTE_WRITABLE : 0) | (userMode ? PTE_USER : 0);
+		if ((directoryEntry & rights) !== rights) {
+			const access = `${userMode ? "user" : "supervisor"} ${writable ? "writes" : "reads"}`;
+			throw `The page directory entry covering 0x${string.format("%X", virtualAddress)} does not allow ${access}`;
+		}
+
+		// a process directory copies a table it still shares with its template before changing it
+		const directoryIndex = (virtualAddress >>> 22) & 0x3ff;
+		const record = this.processDirectories.get(this.pageDirectoryBase & PAGE_FRAME_MASK);
+		if (record && !record.privateTables.has(directoryIndex)) {
+			const sharedBase = directoryEntry & PAGE_FRAME_MASK;
+			const tableBase = this.allocateTableFrame() * PAGE_SIZE;
+			for (let i = 0; i < PAGE_SIZE; i++) {
+				this.physicalMemory[tableBase + i] = this.physicalMemory[sharedBase + i];
+			}
+			record.privateTables.add(directoryIndex);
+			directoryEntry = (tableBase | (directoryEntry & ~PAGE_FRAME_MASK)) >>> 0;
+			this.writeToMemory(directoryEntryAddress, directoryEntry, 4);
+		}
+
+		return (directoryEntry & PAGE_FRAME_MASK) + ((virtualAddress >>> 12) & 0x3ff) * 4;
+	}
+
+	/**
+	 * Install an empty page table for a page under CR3 and return the address of its PTE; the
+	 * table is the MMU's own, so its directory entry leaves the rights to the PTEs
+	 */
+	private createPageTable(virtualAddress: DWord): DWord {
+		const tableBase = this.allocateTableFrame() * PAGE_SIZE;
+		this.processDirectories
+			.get(this.pageDirectoryBase & PAGE_FRAME_MASK)
+			?.privateTables.add((virtualAddress >>> 22) & 0x3ff);
+		this.writeToMemory(
+			this.directoryEntryAddress(virtualAddress),
+			tableBase | PTE_PRESENT | PTE_WRITABLE | PTE_USER,
+			4,
+		);
+		return tableBase + ((virtualAddress >>> 12) & 0x3ff) * 4;
+	}
+
+	private directoryEntryAddress(virtualAddress: DWord): DWord {
+		return (this.pageDirectoryBase & PAGE_FRAME_MASK) + ((virtualAddress >>> 22) & 0x3ff) * 4;
+	}
+
+	/**
+	 * Take a frame of the reserved pool for a page directory, a page table or a page mapped
+	 * through one and zero it; the pool keeps these away from memory the guest uses itself.
+	 * Frames taken for a process directory go back to the pool with it
+	 */
+	private allocateTableFrame(): number {
+		let frameNumber: number | undefined;
+		for (const frame of this.reservedFrames) {
+			if (frameNumber === undefined || frame < frameNumber) {
+				frameNumber = frame;
+			}
+		}
+		if (frameNumber === undefined) {
+			throw "No reserved frames left for page tables (see MMU.reserveFrames)";
+		}
+
+		this.reservedFrames.delete(frameNumber);
+		this.processDirectories.get(this.pageDirectoryBase & PAGE_FRAME_MASK)?.frames.push(frameNumber);
+		for (let i = 0; i < PAGE_SIZE; i++) {
+			this.physicalMemory[frameNumber * PAGE_SIZE + i] = 0;
+		}
+		return frameNumber;
+	}
+
+	/**
+	 * Build a #PF error code for an access
+	 */
+	private pageFaultErrorCode(accessType: MemoryAccessType, present: boolean): number {
+		let errorCode = present ? PF_PRESENT : 0;
+		if (this.privilegeLevel === 3) errorCode |= PF_USER;
+		if (accessType === MemoryAccessType.WRITE) errorCode |= PF_WRITE;
+		if (accessType === MemoryAccessType.EXECUTE) errorCode |= PF_INSTRUCTION;
+		return errorCode;
+	}
+
+	/**
+	 * Insert a translation into the TLB
+	 */
+	private cacheTranslation(pageNumber: number, translation: Translation): void {
+		this.tlbCache.set(this.tlbKey(pageNumber), translation);
 
 		// evict old TLB entries if necessary (simple FIFO)
 		if (this.tlbCache.size() > 64) {
@@ -254,14 +798,18 @@ export class MMU {
 				this.tlbCache.delete(firstKey);
 			}
 		}
-
-		return physicalPage * PAGE_SIZE + pageOffset;
 	}
 
 	/**
 	 * Read from cache hierarchy
 	 */
 	private readFromCache(physicalAddress: DWord, size: number): number {
+		// device registers are never cached
+		const region = this.findMMIORegion(physicalAddress);
+		if (region) {
+			return region.device.readMemory(physicalAddress - region.base, size);
+		}
+
 		const cacheLineAddress = math.floor(physicalAddress / 64) * 64; // 64-byte cache lines
 
 		// check L1 cache
@@ -296,6 +844,12 @@ export class MMU {
 	 * Write to cache hierarchy
 	 */
 	private writeToCache(physicalAddress: DWord, value: number, size: number): void {
+		const region = this.findMMIORegion(physicalAddress);
+		if (region) {
+			region.device.writeMemory(physicalAddress - region.base, value, size);
+			return;
+		}
+
 		// write-through cache policy
 		this.writeToMemory(physicalAddress, value, size);
 
@@ -311,7 +865,7 @@ export class MMU {
 	 */
 	private readFromMemory(address: DWord, size: number): number {
 		if (address + size > this.memorySize) {
-			throw `Memory access violation at address 0x${string.format("%X", address)}`;
+			throw new GeneralProtectionFault(`Memory access violation at address 0x${string.format("%X", address)}`);
 		}
 
 		let value = 0;
@@ -326,7 +880,7 @@ export class MMU {
 	 */
 	private writeToMemory(address: DWord, value: number, size: number): void {
 		if (address + size > this.memorySize) {
-			throw `Memory access violation at address 0x${string.format("%X", address)}`;
+			throw new GeneralProtectionFault(`Memory access violation at address 0x${string.format("%X", address)}`);
 		}
 
 		for (let i = 0; i < size; i++) {
@@ -334,6 +888,31 @@ export class MMU {
 		}
 	}
 
+	/**
+	 * Find the MMIO region containing a physical address
+	 */
+	private findMMIORegion(physicalAddress: DWord): MMIORegion | undefined {
+		for (const region of this.mmioRegions) {
+			if (physicalAddress >= region.base && physicalAddress < region.base + region.size) {
+				return region;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Check whether any MMIO region overlaps a page
+	 */
+	private isMMIOPage(pageNumber: number): boolean {
+		const pageStart = pageNumber * PAGE_SIZE;
+		for (const region of this.mmioRegions) {
+			if (pageStart < region.base + region.size && region.base < pageStart + PAGE_SIZE) {
+				return true;
+			}
+		}
+		return false;
+	}
+
 	/**
 	 * Add entry to cache with LRU eviction
 	 */
@@ -369,13 +948,20 @@ export class MMU {
 		const pageNumber = math.floor(virtualAddress / PAGE_SIZE);
 
 		// allocate a new physical frame
-		const frameNumber = this.allocateFrame();
+		const frameNumber = this.allocateFrame(pageNumber);
+		if (frameNumber === undefined) {
+			throw new PageFault(
+				virtualAddress,
+				this.pageFaultErrorCode(accessType, false),
+				"Out of physical memory - all pages are protected",
+			);
+		}
 
 		// create page table entry
 		const pageEntry: PageTableEntry = {
 			present: true,
 			writable: true,
-			userMode: false,
+			userMode: true, // the host map is flat; use setPagePermissions to restrict pages
 			writeThrough: false,
 			cacheDisabled: false,
 			accessed: false,
@@ -402,11 +988,18 @@ export class MMU {
 				// remove from page directory
 				this.pageDirectory.delete(pageNumber);
 				// remove from TLB
-				this.tlbCache.delete(pageNumber);
+				this.tlbCache.delete(this.tlbKey(pageNumber));
 			}
 		}
 	}
 
+	/**
+	 * TLB key of a page in the active address space
+	 */
+	private tlbKey(pageNumber: number): number {
+		return this.currentASID * ASID_STRIDE + pageNumber;
+	}
+
 	/**
 	 * Get memory statistics
 	 */
@@ -434,7 +1027,28 @@ export class MMU {
 	}
 }
 
+/**
+ * Present PTE for the frame of an entry with R/W and U/S replaced
+ */
+function pageRights(entry: number, writable: boolean, userMode: boolean): number {
+	const rights = PTE_PRESENT | (writable ? PTE_WRITABLE : 0) | (userMode ? PTE_USER : 0);
+	return ((entry & ~(PTE_WRITABLE | PTE_USER)) | rights) >>> 0;
+}
+
 // internal types
+const ASID_STRIDE = 0x100000; // one TLB key per virtual page of each address space
+
+interface AddressSpace {
+	pages: Map<number, PageTableEntry>;
+	protectedPages: Set<number>;
+}
+
+interface ProcessDirectory {
+	frames: number[]; // the directory, its private tables and the pages mapped into them
+	privateTables: Set<number>; // directory indices whose table is no longer shared with the template
+	mappedPages: Set<number>; // virtual pages mapped to frames of this directory by mapPage
+}
+
 interface PageTableEntry {
 	present: boolean;
 	writable: boolean;
@@ -446,6 +1060,28 @@ interface PageTableEntry {
 	frameNumber: number;
 }
 
+interface Translation {
+	frameNumber: number;
+	writable: boolean;
+	userMode: boolean;
+	dirty: boolean; // writes through a clean translation re-walk to set the dirty bit
+}
+
+interface PageWalk {
+	translation: Translation;
+	directoryEntryAddress: DWord;
+	directoryEntry: number;
+	tableEntryAddress: DWord;
+	tableEntry: number;
+}
+
+interface MMIORegion {
+	base: DWord;
+	size: number;
+	name: string;
+	device: MemoryMappedDevice;
+}
+
 interface CacheEntry {
 	valid: boolean;
 	dirty: boolean;
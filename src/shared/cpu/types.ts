@@ -56,12 +56,25 @@ export interface InstructionPointer {
 	EIP: DWord; // Extended Instruction Pointer
 }
 
+// Descriptor Table Register (IDTR)
+export interface DescriptorTableRegister {
+	base: DWord; // Linear address of the table
+	limit: Word; // Size of the table in bytes minus one
+}
+
 // Instruction Format
 export interface Instruction {
 	opcode: Byte;
 	operands: Operand[];
 	size: number; // Instruction size in bytes
 	mnemonic: string; // Human-readable instruction name
+	repeat?: RepeatPrefix; // only set on string instructions
+}
+
+// Repeat prefixes of the string instructions
+export enum RepeatPrefix {
+	REPE, // 0xF3: REP for MOVS/STOS/LODS, repeat while equal for CMPS/SCAS
+	REPNE, // 0xF2: repeat while not equal
 }
 
 // Operand Types
@@ -78,12 +91,27 @@ export interface Operand {
 	type: OperandType;
 	value: number;
 	size: number; // 1 = byte, 2 = word, 4 = dword
-	register?: string;
-	displacement?: number;
+	register?: string; // register, or base register of a memory operand
+	displacement?: number; // signed
+	index?: string; // index register of a SIB memory operand
+	scale?: number; // index multiplier: 1, 2, 4 or 8
 }
 
 // Memory Page (4KB)
 export const PAGE_SIZE = 4096;
+export const PAGE_FRAME_MASK = 0xfffff000; // physical frame bits of a PDE/PTE or CR3
+
+// Page directory / page table entry bits
+export const PTE_PRESENT = 0x001; // P
+export const PTE_WRITABLE = 0x002; // R/W
+export const PTE_USER = 0x004; // U/S
+export const PTE_ACCESSED = 0x020; // A - set by the MMU on any access
+export const PTE_DIRTY = 0x040; // D - set by the MMU on writes (page tables only)
+
+// CR0 bits
+export const CR0_PE = 0x00000001; // Protection Enable
+export const CR0_WP = 0x00010000; // Write Protect (supervisor writes honour R/W)
+export const CR0_PG = 0x80000000; // Paging
 
 // CPU Statistics
 export interface CPUStatistics {
@@ -105,16 +133,49 @@ export interface CPUState {
 	controlRegisters: ControlRegisters;
 	instructionPointer: InstructionPointer;
 	flags: CPUFlags;
+	interruptDescriptorTable: DescriptorTableRegister;
+	taskRegister: DescriptorTableRegister; // Linear address and limit of the TSS
+	privilegeLevel: number; // CPL, the RPL of CS (0 = kernel, 3 = user)
 	halted: boolean;
 	interruptEnabled: boolean;
 }
 
-// Interrupt Vector Table Entry
-// export interface InterruptHandler {
-// 	vector: number;
-// 	handler: (cpu: unknown) => void;
-// }
-// soon
+// Registers saved and restored by a context switch
+export interface CPUContext {
+	generalRegisters: GeneralRegisters;
+	segmentRegisters: SegmentRegisters;
+	flags: CPUFlags;
+	EIP: DWord;
+	CR3: DWord;
+}
+
+// First instruction fetched after reset, 16 bytes below 4 GiB like on a PC
+export const RESET_VECTOR = 0xfffffff0;
+
+// Hardware IRQ lines 0-15 are delivered on vectors 0x30-0x3F, clear of the CPU exceptions and
+// of the software interrupts served by host code (INT 19h, INT 21h, INT 80h)
+export const IRQ_BASE_VECTOR = 0x30;
+
+// Interrupt Descriptor Table Entry (8 bytes in memory)
+export const IDT_ENTRY_SIZE = 8;
+
+export enum GateType {
+	INTERRUPT = 0xe, // 32-bit interrupt gate, clears IF on entry
+	TRAP = 0xf, // 32-bit trap gate, leaves IF untouched
+}
+
+export interface InterruptGate {
+	offset: DWord; // Handler entry point
+	selector: Word; // Code segment loaded into CS
+	type: GateType;
+	dpl: number; // Descriptor privilege level
+	present: boolean;
+}
+
+// Task State Segment fields used for inner-ring stack switches (x86 TSS layout)
+export const TSS_ESP0_OFFSET = 4;
+export const TSS_SS0_OFFSET = 8;
+export const TSS_MINIMUM_LIMIT = 103; // a 32-bit TSS is at least 104 bytes
 
 // Memory Access Types
 export enum MemoryAccessType {
@@ -0,0 +1,152 @@
+/// <reference types="@rbxts/testez/globals" />
+import { MemoryBlockStore } from "../storage/MemoryBlockStore";
+import { SECTOR_SIZE } from "../storage/types";
+import { ATADisk } from "./ATADisk";
+
+const READY = ATADisk.STATUS_DRDY;
+const DATA_REQUEST = ATADisk.STATUS_DRDY | ATADisk.STATUS_DRQ;
+const FAILED = ATADisk.STATUS_DRDY | ATADisk.STATUS_ERR;
+
+/**
+ * Disk whose sector n is filled with the byte n + 1
+ */
+function setup(sectorCount: number = 16) {
+	const image: number[] = [];
+	for (let i = 0; i < sectorCount * SECTOR_SIZE; i++) {
+		image.push(math.floor(i / SECTOR_SIZE) + 1);
+	}
+	const store = MemoryBlockStore.fromBytes(image);
+	const irqs: number[] = [];
+	const disk = new ATADisk(store, (line) => irqs.push(line));
+	return { disk, store, irqs };
+}
+
+function command(disk: ATADisk, code: number, lba: number, count: number, drive: number = 0xe0): void {
+	disk.writePort(ATADisk.SECTOR_COUNT_PORT, count, 1);
+	disk.writePort(ATADisk.LBA_LOW_PORT, lba & 0xff, 1);
+	disk.writePort(ATADisk.LBA_MID_PORT, (lba >> 8) & 0xff, 1);
+	disk.writePort(ATADisk.LBA_HIGH_PORT, (lba >> 16) & 0xff, 1);
+	disk.writePort(ATADisk.DRIVE_PORT, drive | ((lba >> 24) & 0x0f), 1);
+	disk.writePort(ATADisk.STATUS_PORT, code, 1);
+}
+
+function status(disk: ATADisk): number {
+	return disk.readPort(ATADisk.STATUS_PORT, 1);
+}
+
+function readWords(disk: ATADisk, count: number): number[] {
+	const words: number[] = [];
+	for (let i = 0; i < count; i++) {
+		words.push(disk.readPort(ATADisk.DATA_PORT, 2));
+	}
+	return words;
+}
+
+export = () => {
+	describe("PIO read", () => {
+		it("should hand out each sector with DRQ set and an IRQ per sector", () => {
+			const { disk, irqs } = setup();
+			command(disk, ATADisk.COMMAND_READ_SECTORS, 2, 2);
+			expect(status(disk)).to.equal(DATA_REQUEST);
+			expect(irqs.join(",")).to.equal(`${ATADisk.IRQ_LINE}`);
+
+			const first = readWords(disk, SECTOR_SIZE / 2);
+			expect(first[0]).to.equal(0x0303);
+			expect(first[255]).to.equal(0x0303);
+			expect(status(disk)).to.equal(DATA_REQUEST);
+			expect(irqs.size()).to.equal(2);
+
+			expect(disk.readPort(ATADisk.DATA_PORT, 4)).to.equal(0x04040404);
+			readWords(disk, SECTOR_SIZE / 2 - 2);
+			expect(status(disk)).to.equal(READY);
+			expect(disk.readPort(ATADisk.DATA_PORT, 2)).to.equal(0);
+		});
+
+		it("should describe the drive with IDENTIFY", () => {
+			const { disk } = setup(100);
+			disk.writePort(ATADisk.STATUS_PORT, ATADisk.COMMAND_IDENTIFY, 1);
+			expect(status(disk)).to.equal(DATA_REQUEST);
+
+			const words = readWords(disk, 256);
+			expect(words[49] & 0x0200).to.equal(0x0200);
+			expect(words[60] | (words[61] << 16)).to.equal(100);
+			expect(words[27]).to.equal((string.byte("R")[0] << 8) | string.byte("O")[0]);
+			expect(status(disk)).to.equal(READY);
+		});
+	});
+
+	describe("PIO write", () => {
+		it("should request the first sector without an IRQ and store each sector as it fills", () => {
+			const { disk, store, irqs } = setup();
+			command(disk, ATADisk.COMMAND_WRITE_SECTORS, 5, 2);
+			expect(status(disk)).to.equal(DATA_REQUEST);
+			expect(irqs.size()).to.equal(0);
+
+			for (let i = 0; i < SECTOR_SIZE / 4; i++) {
+				disk.writePort(ATADisk.DATA_PORT, 0xaabbccdd, 4);
+			}
+			expect(store.readSector(5)[0]).to.equal(0xdd);
+			expect(store.readSector(5)[3]).to.equal(0xaa);
+			expect(status(disk)).to.equal(DATA_REQUEST);
+			expect(irqs.size()).to.equal(1);
+
+			for (let i = 0; i < SECTOR_SIZE / 2; i++) {
+				disk.writePort(ATADisk.DATA_PORT, 0x1234, 2);
+			}
+			expect(store.readSector(6)[1]).to.equal(0x12);
+			expect(store.readSector(7)[0]).to.equal(8);
+			expect(status(disk)).to.equal(READY);
+			expect(irqs.size()).to.equal(2);
+		});
+
+		it("should ignore data port writes outside a write command", () => {
+			const { disk, store } = setup();
+			disk.writePort(ATADisk.DATA_PORT, 0xffff, 2);
+			command(disk, ATADisk.COMMAND_READ_SECTORS, 0, 1);
+			disk.writePort(ATADisk.DATA_PORT, 0xffff, 2);
+			expect(store.readSector(0)[0]).to.equal(1);
+		});
+	});
+
+	describe("errors", () => {
+		it("should fail transfers past the end of the disk with ID not found", () => {
+			const { disk, irqs } = setup();
+			command(disk, ATADisk.COMMAND_READ_SECTORS, 15, 2);
+			expect(status(disk)).to.equal(FAILED);
+			expect(disk.readPort(ATADisk.ERROR_PORT, 1)).to.equal(ATADisk.ERROR_ID_NOT_FOUND);
+			expect(irqs.size()).to.equal(1);
+
+			// a sector count of 0 means 256 sectors
+			command(disk, ATADisk.COMMAND_WRITE_SECTORS, 0, 0);
+			expect(status(disk)).to.equal(FAILED);
+			command(disk, ATADisk.COMMAND_READ_SECTORS, 0x1000000, 1);
+			expect(status(disk)).to.equal(FAILED);
+		});
+
+		it("should reject CHS addressing and unknown commands", () => {
+			const { disk } = setup();
+			command(disk, ATADisk.COMMAND_READ_SECTORS, 0, 1, 0xa0);
+			expect(disk.readPort(ATADisk.ERROR_PORT, 1)).to.equal(ATADisk.ERROR_ID_NOT_FOUND);
+
+			disk.writePort(ATADisk.DRIVE_PORT, 0xe0, 1);
+			disk.writePort(ATADisk.STATUS_PORT, 0x91, 1);
+			expect(status(disk)).to.equal(FAILED);
+			expect(disk.readPort(ATADisk.ERROR_PORT, 1)).to.equal(ATADisk.ERROR_ABORTED);
+
+			// the next command clears the error
+			disk.writePort(ATADisk.STATUS_PORT, ATADisk.COMMAND_FLUSH_CACHE, 1);
+			expect(status(disk)).to.equal(READY);
+			expect(disk.readPort(ATADisk.ERROR_PORT, 1)).to.equal(0);
+		});
+
+		it("should float the status of the missing slave drive and ignore its commands", () => {
+			const { disk, irqs } = setup();
+			command(disk, ATADisk.COMMAND_READ_SECTORS, 0, 1, 0xf0);
+			expect(status(disk)).to.equal(0);
+			expect(irqs.size()).to.equal(0);
+
+			disk.writePort(ATADisk.DRIVE_PORT, 0xe0, 1);
+			expect(status(disk)).to.equal(READY);
+		});
+	});
+};
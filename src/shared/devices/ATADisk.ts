@@ -0,0 +1,262 @@
+import { Byte } from "../cpu/types";
+import { BlockStore, SECTOR_SIZE } from "../storage/types";
+import { IRQCallback, PortDevice } from "./types";
+
+// which way the sector buffer is being moved through the data port
+enum Transfer {
+	NONE,
+	READ,
+	WRITE,
+}
+
+/**
+ * ATA Disk
+ * Primary-channel ATA drive driven by PIO: 28-bit LBA READ/WRITE SECTORS, IDENTIFY and FLUSH,
+ * raising IRQ14 whenever a sector is ready or a command completes
+ */
+export class ATADisk implements PortDevice {
+	static readonly DATA_PORT = 0x1f0;
+	static readonly ERROR_PORT = 0x1f1; // features when written
+	static readonly SECTOR_COUNT_PORT = 0x1f2;
+	static readonly LBA_LOW_PORT = 0x1f3;
+	static readonly LBA_MID_PORT = 0x1f4;
+	static readonly LBA_HIGH_PORT = 0x1f5;
+	static readonly DRIVE_PORT = 0x1f6;
+	static readonly STATUS_PORT = 0x1f7; // command when written
+	static readonly IRQ_LINE = 14;
+
+	// status register bits
+	static readonly STATUS_ERR = 0x01;
+	static readonly STATUS_DRQ = 0x08; // the data port has data to read or wants data written
+	static readonly STATUS_DRDY = 0x40;
+	static readonly STATUS_BSY = 0x80;
+
+	// error register bits
+	static readonly ERROR_ABORTED = 0x04;
+	static readonly ERROR_ID_NOT_FOUND = 0x10;
+
+	// commands
+	static readonly COMMAND_READ_SECTORS = 0x20;
+	static readonly COMMAND_WRITE_SECTORS = 0x30;
+	static readonly COMMAND_FLUSH_CACHE = 0xe7;
+	static readonly COMMAND_IDENTIFY = 0xec;
+
+	private store: BlockStore;
+	private raiseIRQ: IRQCallback;
+
+	// task file registers
+	private sectorCount = 0;
+	private lba = 0; // 28-bit address assembled from the LBA ports and the drive register
+	private drive = 0xe0; // LBA mode, master
+	private status = ATADisk.STATUS_DRDY;
+	private errorRegister = 0;
+
+	// PIO transfer state
+	private transfer = Transfer.NONE;
+	private buffer: number[] = [];
+	private bufferIndex = 0;
+	private remainingSectors = 0;
+	private currentLBA = 0;
+
+	constructor(store: BlockStore, raiseIRQ: IRQCallback) {
+		this.store = store;
+		this.raiseIRQ = raiseIRQ;
+	}
+
+	/**
+	 * Get the backing store (e.g. to persist it)
+	 */
+	getStore(): BlockStore {
+		return this.store;
+	}
+
+	readPort(port: number, size: number): number {
+		switch (port) {
+			case ATADisk.DATA_PORT:
+				return this.readData(size);
+			case ATADisk.ERROR_PORT:
+				return this.errorRegister;
+			case ATADisk.SECTOR_COUNT_PORT:
+				return this.sectorCount;
+			case ATADisk.LBA_LOW_PORT:
+				return this.lba & 0xff;
+			case ATADisk.LBA_MID_PORT:
+				return (this.lba >> 8) & 0xff;
+			case ATADisk.LBA_HIGH_PORT:
+				return (this.lba >> 16) & 0xff;
+			case ATADisk.DRIVE_PORT:
+				return this.drive;
+			case ATADisk.STATUS_PORT:
+				// there is no slave drive, so its status floats to zero
+				return this.slaveSelected() ? 0 : this.status;
+			default:
+				return 0xff;
+		}
+	}
+
+	writePort(port: number, value: number, size: number): void {
+		switch (port) {
+			case ATADisk.DATA_PORT:
+				this.writeData(value, size);
+				break;
+			case ATADisk.SECTOR_COUNT_PORT:
+				this.sectorCount = value & 0xff;
+				break;
+			case ATADisk.LBA_LOW_PORT:
+				this.lba = (this.lba & 0xfffff00) | (value & 0xff);
+				break;
+			case ATADisk.LBA_MID_PORT:
+				this.lba = (this.lba & 0xfff00ff) | ((value & 0xff) << 8);
+				break;
+			case ATADisk.LBA_HIGH_PORT:
+				this.lba = (this.lba & 0xf00ffff) | ((value & 0xff) << 16);
+				break;
+			case ATADisk.DRIVE_PORT:
+				this.drive = value & 0xff;
+				this.lba = (this.lba & 0x0ffffff) | ((value & 0x0f) << 24);
+				break;
+			case ATADisk.STATUS_PORT:
+				if (!this.slaveSelected()) {
+					this.executeCommand(value & 0xff);
+				}
+				break;
+		}
+	}
+
+	private executeCommand(command: Byte): void {
+		this.errorRegister = 0;
+		this.transfer = Transfer.NONE;
+
+		switch (command) {
+			case ATADisk.COMMAND_READ_SECTORS:
+			case ATADisk.COMMAND_WRITE_SECTORS: {
+				const count = this.sectorCount === 0 ? 256 : this.sectorCount;
+				if ((this.drive & 0x40) === 0 || this.lba + count > this.store.getSectorCount()) {
+					// CHS addressing is not supported and the range must fit on the disk
+					this.fail(ATADisk.ERROR_ID_NOT_FOUND);
+					return;
+				}
+
+				this.currentLBA = this.lba;
+				this.remainingSectors = count;
+				if (command === ATADisk.COMMAND_READ_SECTORS) {
+					this.transfer = Transfer.READ;
+					this.loadSector();
+				} else {
+					// the first sector is requested without an interrupt
+					this.transfer = Transfer.WRITE;
+					this.buffer = [];
+					this.bufferIndex = 0;
+					this.status = ATADisk.STATUS_DRDY | ATADisk.STATUS_DRQ;
+				}
+				break;
+			}
+			case ATADisk.COMMAND_IDENTIFY:
+				this.transfer = Transfer.READ;
+				this.remainingSectors = 1;
+				this.buffer = this.identify();
+				this.bufferIndex = 0;
+				this.status = ATADisk.STATUS_DRDY | ATADisk.STATUS_DRQ;
+				this.raiseIRQ(ATADisk.IRQ_LINE);
+				break;
+			case ATADisk.COMMAND_FLUSH_CACHE:
+				// writes reach the store immediately
+				this.status = ATADisk.STATUS_DRDY;
+				this.raiseIRQ(ATADisk.IRQ_LINE);
+				break;
+			default:
+				this.fail(ATADisk.ERROR_ABORTED);
+				break;
+		}
+	}
+
+	private readData(size: number): number {
+		if (this.transfer !== Transfer.READ) return 0;
+
+		let value = 0;
+		for (let i = 0; i < size; i++) {
+			value |= (this.buffer[this.bufferIndex] ?? 0) << (i * 8);
+			this.bufferIndex++;
+		}
+
+		if (this.bufferIndex >= SECTOR_SIZE) {
+			this.remainingSectors--;
+			this.currentLBA++;
+			if (this.remainingSectors > 0) {
+				this.loadSector();
+			} else {
+				this.transfer = Transfer.NONE;
+				this.status = ATADisk.STATUS_DRDY;
+			}
+		}
+		return value >>> 0;
+	}
+
+	private writeData(value: number, size: number): void {
+		if (this.transfer !== Transfer.WRITE) return;
+
+		for (let i = 0; i < size; i++) {
+			this.buffer[this.bufferIndex] = (value >>> (i * 8)) & 0xff;
+			this.bufferIndex++;
+		}
+
+		if (this.bufferIndex >= SECTOR_SIZE) {
+			this.store.writeSector(this.currentLBA, this.buffer);
+			this.buffer = [];
+			this.bufferIndex = 0;
+			this.remainingSectors--;
+			this.currentLBA++;
+			if (this.remainingSectors === 0) {
+				this.transfer = Transfer.NONE;
+				this.status = ATADisk.STATUS_DRDY;
+			}
+			this.raiseIRQ(ATADisk.IRQ_LINE);
+		}
+	}
+
+	/**
+	 * Fill the buffer with the current sector and signal that it can be read
+	 */
+	private loadSector(): void {
+		this.buffer = this.store.readSector(this.currentLBA);
+		this.bufferIndex = 0;
+		this.status = ATADisk.STATUS_DRDY | ATADisk.STATUS_DRQ;
+		this.raiseIRQ(ATADisk.IRQ_LINE);
+	}
+
+	private fail(code: Byte): void {
+		this.errorRegister = code;
+		this.status = ATADisk.STATUS_DRDY | ATADisk.STATUS_ERR;
+		this.raiseIRQ(ATADisk.IRQ_LINE);
+	}
+
+	/**
+	 * 256-word IDENTIFY DEVICE block (little-endian words)
+	 */
+	private identify(): number[] {
+		const words: number[] = table.create(256, 0);
+		words[0] = 0x0040; // fixed disk
+		words[49] = 0x0200; // LBA supported
+		const sectors = this.store.getSectorCount();
+		words[60] = sectors & 0xffff;
+		words[61] = (sectors >> 16) & 0x0fff;
+
+		// model number, two characters per word with the first in the high byte
+		const model = "RO-OS VIRTUAL DISK";
+		for (let i = 0; i < 20; i++) {
+			const high = string.byte(model, i * 2 + 1)[0] ?? 0x20;
+			const low = string.byte(model, i * 2 + 2)[0] ?? 0x20;
+			words[27 + i] = (high << 8) | low;
+		}
+
+		const bytes: number[] = [];
+		for (const word of words) {
+			bytes.push(word & 0xff, (word >> 8) & 0xff);
+		}
+		return bytes;
+	}
+
+	private slaveSelected(): boolean {
+		return (this.drive & 0x10) !== 0;
+	}
+}
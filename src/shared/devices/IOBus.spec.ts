@@ -0,0 +1,76 @@
+/// <reference types="@rbxts/testez/globals" />
+import { IOBus } from "./IOBus";
+import { PortDevice } from "./types";
+
+class RecordingDevice implements PortDevice {
+	readonly accesses: string[] = [];
+
+	constructor(private value: number) {}
+
+	readPort(port: number, size: number): number {
+		this.accesses.push(`in ${string.format("%X", port)}/${size}`);
+		return this.value;
+	}
+
+	writePort(port: number, value: number, size: number): void {
+		this.accesses.push(`out ${string.format("%X", port)}/${size}=${string.format("%X", value)}`);
+	}
+}
+
+export = () => {
+	it("should dispatch reads and writes to the device that claimed the port", () => {
+		const bus = new IOBus();
+		const timer = new RecordingDevice(0x11);
+		const disk = new RecordingDevice(0x22);
+		bus.register(timer, 0x40, 0x43, "timer");
+		bus.register(disk, 0x1f0, 0x1f7, "disk");
+
+		expect(bus.read(0x41, 1)).to.equal(0x11);
+		expect(bus.read(0x1f0, 2)).to.equal(0x22);
+		bus.write(0x43, 0x34, 1);
+		bus.write(0x1f0, 0xbeef, 2);
+		expect(timer.accesses.join(";")).to.equal("in 41/1;out 43/1=34");
+		expect(disk.accesses.join(";")).to.equal("in 1F0/2;out 1F0/2=BEEF");
+	});
+
+	it("should mask values to the access width and wrap port numbers", () => {
+		const bus = new IOBus();
+		const device = new RecordingDevice(0x12345678);
+		bus.register(device, 0x60);
+
+		expect(bus.read(0x60, 1)).to.equal(0x78);
+		expect(bus.read(0x60, 2)).to.equal(0x5678);
+		expect(bus.read(0x10060, 4)).to.equal(0x12345678);
+		bus.write(0x60, 0x1ff, 1);
+		expect(device.accesses[3]).to.equal("out 60/1=FF");
+	});
+
+	it("should float unclaimed reads high and ignore unclaimed writes", () => {
+		const bus = new IOBus();
+		expect(bus.read(0x80, 1)).to.equal(0xff);
+		expect(bus.read(0x80, 2)).to.equal(0xffff);
+		expect(bus.read(0x80, 4)).to.equal(0xffffffff);
+		bus.write(0x80, 1, 1);
+	});
+
+	it("should reject overlapping and invalid ranges", () => {
+		const bus = new IOBus();
+		bus.register(new RecordingDevice(0), 0x20, 0x21, "pic");
+		expect(() => bus.register(new RecordingDevice(0), 0x21, 0x22, "other")).to.throw("already claimed by pic");
+		expect(() => bus.register(new RecordingDevice(0), 0x30, 0x2f)).to.throw("Invalid port range");
+		expect(() => bus.register(new RecordingDevice(0), 0xffff, 0x10000)).to.throw("Invalid port range");
+		expect(bus.getRanges().size()).to.equal(1);
+	});
+
+	it("should release every range of a device on unregister", () => {
+		const bus = new IOBus();
+		const device = new RecordingDevice(0x42);
+		bus.register(device, 0x20, 0x21);
+		bus.register(device, 0xa0, 0xa1);
+		bus.unregister(device);
+
+		expect(bus.getRanges().size()).to.equal(0);
+		expect(bus.read(0xa0, 1)).to.equal(0xff);
+		bus.register(new RecordingDevice(0), 0x20, 0x21);
+	});
+};
@@ -0,0 +1,89 @@
+import { PortDevice } from "./types";
+
+/**
+ * I/O Bus
+ * Routes IN/OUT accesses to the devices that registered the port ranges
+ */
+export class IOBus {
+	static readonly PORT_COUNT = 0x10000;
+
+	private ranges: PortRange[] = [];
+	private portMap = new Map<number, PortRange>(); // per-port lookup
+
+	/**
+	 * Register a device for ports [first, last]
+	 */
+	register(device: PortDevice, first: number, last: number = first, name: string = "device"): void {
+		if (first < 0 || last >= IOBus.PORT_COUNT || last < first) {
+			throw `Invalid port range 0x${string.format("%X", first)}-0x${string.format("%X", last)}`;
+		}
+
+		for (let port = first; port <= last; port++) {
+			const existing = this.portMap.get(port);
+			if (existing) {
+				throw `Port 0x${string.format("%X", port)} of ${name} is already claimed by ${existing.name}`;
+			}
+		}
+
+		const range: PortRange = { first, last, name, device };
+		this.ranges.push(range);
+		for (let port = first; port <= last; port++) {
+			this.portMap.set(port, range);
+		}
+	}
+
+	/**
+	 * Remove every port range registered by a device
+	 */
+	unregister(device: PortDevice): void {
+		this.ranges = this.ranges.filter((range) => {
+			if (range.device !== device) return true;
+			for (let port = range.first; port <= range.last; port++) {
+				this.portMap.delete(port);
+			}
+			return false;
+		});
+	}
+
+	/**
+	 * Read from a port; unclaimed ports float high like an empty ISA bus
+	 */
+	read(port: number, size: number): number {
+		const range = this.portMap.get(port & 0xffff);
+		if (!range) {
+			return sizeMask(size);
+		}
+		return range.device.readPort(port & 0xffff, size) & sizeMask(size);
+	}
+
+	/**
+	 * Write to a port; writes to unclaimed ports are ignored
+	 */
+	write(port: number, value: number, size: number): void {
+		const range = this.portMap.get(port & 0xffff);
+		if (range) {
+			range.device.writePort(port & 0xffff, value & sizeMask(size), size);
+		}
+	}
+
+	/**
+	 * List the registered port ranges (for debugging/visualization)
+	 */
+	getRanges(): ReadonlyArray<PortRange> {
+		return this.ranges;
+	}
+}
+
+// public types
+export interface PortRange {
+	first: number;
+	last: number;
+	name: string;
+	device: PortDevice;
+}
+
+function sizeMask(size: number): number {
+	if (size === 1) return 0xff;
+	if (size === 2) return 0xffff;
+	return 0xffffffff;
+}
@@ -0,0 +1,145 @@
+/// <reference types="@rbxts/testez/globals" />
+import { Keyboard } from "./Keyboard";
+
+const LEFT_SHIFT = 0x2a;
+const CAPS_LOCK = 0x3a;
+const KEY_A = 0x1e;
+const KEY_1 = 0x02;
+const KEY_ENTER = 0x1c;
+const KEY_UP = 0x48;
+
+function setup() {
+	const irqs: number[] = [];
+	const keyboard = new Keyboard((line) => irqs.push(line));
+	return { keyboard, irqs };
+}
+
+function readData(keyboard: Keyboard, count: number): number[] {
+	const bytes: number[] = [];
+	for (let i = 0; i < count; i++) {
+		bytes.push(keyboard.readPort(Keyboard.DATA_PORT));
+	}
+	return bytes;
+}
+
+function typed(keyboard: Keyboard): string {
+	let text = "";
+	let char = keyboard.readCharacter();
+	while (char !== undefined) {
+		text += string.char(char);
+		char = keyboard.readCharacter();
+	}
+	return text;
+}
+
+export = () => {
+	describe("FIFO", () => {
+		it("should queue make and break codes in order", () => {
+			const { keyboard } = setup();
+			keyboard.tapKey(KEY_A);
+			keyboard.keyDown(KEY_1);
+			expect(keyboard.getPendingCount()).to.equal(3);
+			expect(readData(keyboard, 3).join(",")).to.equal(`${KEY_A},${KEY_A | 0x80},${KEY_1}`);
+			expect(keyboard.getPendingCount()).to.equal(0);
+		});
+
+		it("should drop bytes once the FIFO is full", () => {
+			const { keyboard } = setup();
+			for (let i = 0; i < Keyboard.FIFO_SIZE; i++) {
+				keyboard.keyDown(KEY_A);
+			}
+			keyboard.keyDown(KEY_1);
+			expect(keyboard.getPendingCount()).to.equal(Keyboard.FIFO_SIZE);
+
+			readData(keyboard, Keyboard.FIFO_SIZE - 1);
+			expect(keyboard.readPort(Keyboard.DATA_PORT)).to.equal(KEY_A);
+			expect(keyboard.getPendingCount()).to.equal(0);
+		});
+	});
+
+	describe("IRQ1", () => {
+		it("should raise IRQ1 when the output buffer fills and again while bytes remain", () => {
+			const { keyboard, irqs } = setup();
+			keyboard.tapKey(KEY_A);
+			expect(irqs.join(",")).to.equal("1");
+
+			keyboard.readPort(Keyboard.DATA_PORT);
+			expect(irqs.size()).to.equal(2);
+			keyboard.readPort(Keyboard.DATA_PORT);
+			expect(irqs.size()).to.equal(2);
+		});
+
+		it("should not raise IRQ1 when the command byte disables it", () => {
+			const { keyboard, irqs } = setup();
+			keyboard.writePort(Keyboard.STATUS_PORT, 0x60);
+			keyboard.writePort(Keyboard.DATA_PORT, 0x00);
+			keyboard.keyDown(KEY_A);
+			expect(irqs.size()).to.equal(0);
+			expect(keyboard.getPendingCount()).to.equal(1);
+		});
+	});
+
+	describe("status register", () => {
+		it("should set the output buffer full bit only while bytes are waiting", () => {
+			const { keyboard } = setup();
+			expect(keyboard.readPort(Keyboard.STATUS_PORT)).to.equal(Keyboard.STATUS_SYSTEM);
+
+			keyboard.keyDown(KEY_A);
+			expect(keyboard.readPort(Keyboard.STATUS_PORT)).to.equal(
+				Keyboard.STATUS_SYSTEM | Keyboard.STATUS_OUTPUT_FULL,
+			);
+
+			keyboard.readPort(Keyboard.DATA_PORT);
+			expect(keyboard.readPort(Keyboard.STATUS_PORT) & Keyboard.STATUS_OUTPUT_FULL).to.equal(0);
+		});
+	});
+
+	describe("extended keys", () => {
+		it("should send the E0 prefix before extended make and break codes", () => {
+			const { keyboard } = setup();
+			keyboard.tapKey(KEY_UP, true);
+			expect(readData(keyboard, 4).join(",")).to.equal(`${0xe0},${KEY_UP},${0xe0},${KEY_UP | 0x80}`);
+		});
+
+		it("should not type characters for extended keys that share a code with one", () => {
+			const { keyboard } = setup();
+			keyboard.tapKey(KEY_ENTER, true);
+			keyboard.tapKey(KEY_A);
+			expect(typed(keyboard)).to.equal("a");
+		});
+	});
+
+	describe("readCharacter", () => {
+		it("should apply shift to letters and symbols", () => {
+			const { keyboard } = setup();
+			keyboard.tapKey(KEY_A);
+			keyboard.keyDown(LEFT_SHIFT);
+			keyboard.tapKey(KEY_A);
+			keyboard.tapKey(KEY_1);
+			keyboard.keyUp(LEFT_SHIFT);
+			keyboard.tapKey(KEY_1);
+			expect(typed(keyboard)).to.equal("aA!1");
+		});
+
+		it("should let caps lock shift letters only and shift reverse it", () => {
+			const { keyboard } = setup();
+			keyboard.tapKey(CAPS_LOCK);
+			keyboard.tapKey(KEY_A);
+			keyboard.tapKey(KEY_1);
+			keyboard.keyDown(LEFT_SHIFT);
+			keyboard.tapKey(KEY_A);
+			keyboard.keyUp(LEFT_SHIFT);
+			keyboard.tapKey(CAPS_LOCK);
+			keyboard.tapKey(KEY_A);
+			expect(typed(keyboard)).to.equal("A1aa");
+		});
+
+		it("should track modifiers the guest consumed through the data port", () => {
+			const { keyboard } = setup();
+			keyboard.keyDown(LEFT_SHIFT);
+			readData(keyboard, 1);
+			keyboard.tapKey(KEY_A);
+			expect(typed(keyboard)).to.equal("A");
+		});
+	});
+};
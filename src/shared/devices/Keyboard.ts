@@ -0,0 +1,300 @@
+import { Byte } from "../cpu/types";
+import { CharacterSource, IRQCallback, PortDevice } from "./types";
+
+// scancode set 1 rows and the characters they produce without and with shift
+const CHARACTER_ROWS: Array<[Byte, string, string]> = [
+	[0x02, "1234567890-=", "!@#$%^&*()_+"],
+	[0x10, "qwertyuiop[]", "QWERTYUIOP{}"],
+	[0x1e, "asdfghjkl;'`", 'ASDFGHJKL:"~'],
+	[0x2b, "\\zxcvbnm,./", "|ZXCVBNM<>?"],
+	[0x39, " ", " "],
+];
+
+// keys that produce control characters
+const CONTROL_CHARACTERS = new Map<Byte, Byte>([
+	[0x01, 0x1b], // escape
+	[0x0e, 0x08], // backspace
+	[0x0f, 0x09], // tab
+	[0x1c, 0x0d], // enter
+]);
+
+const LEFT_SHIFT = 0x2a;
+const RIGHT_SHIFT = 0x36;
+const CAPS_LOCK = 0x3a;
+const EXTENDED_PREFIX = 0xe0;
+const BREAK_BIT = 0x80;
+
+/**
+ * Keyboard Controller
+ * PS/2-style (8042) controller with a scancode set 1 output FIFO; a byte waiting in the
+ * output buffer raises IRQ1
+ */
+export class Keyboard implements PortDevice, CharacterSource {
+	static readonly DATA_PORT = 0x60;
+	static readonly STATUS_PORT = 0x64; // reads return status, writes are controller commands
+	static readonly IRQ_LINE = 1;
+	static readonly FIFO_SIZE = 16;
+
+	// status register bits
+	static readonly STATUS_OUTPUT_FULL = 0x01;
+	static readonly STATUS_SYSTEM = 0x04; // set once the self test passed
+
+	// controller command byte bits
+	private static readonly COMMAND_IRQ_ENABLE = 0x01;
+	private static readonly COMMAND_KEYBOARD_DISABLE = 0x10;
+
+	private raiseIRQ: IRQCallback;
+	private fifo: Byte[] = [];
+	private commandByte = Keyboard.COMMAND_IRQ_ENABLE;
+	private pendingCommand: Byte | undefined; // controller or keyboard command waiting for its data byte
+	private scanning = true; // cleared by the keyboard's disable command (0xF5)
+	private leds = 0;
+
+	// modifier state tracked for character translation
+	private shiftDown = false;
+	private capsLock = false;
+	private extended = false; // the previous scancode was the E0 prefix
+
+	constructor(raiseIRQ: IRQCallback) {
+		this.raiseIRQ = raiseIRQ;
+	}
+
+	/**
+	 * Empty the FIFO and return the controller to its power-on state
+	 */
+	reset(): void {
+		this.fifo = [];
+		this.commandByte = Keyboard.COMMAND_IRQ_ENABLE;
+		this.pendingCommand = undefined;
+		this.scanning = true;
+		this.leds = 0;
+		this.shiftDown = false;
+		this.capsLock = false;
+		this.extended = false;
+	}
+
+	/**
+	 * Report a key press; extended keys (arrows, right ctrl/alt, ...) are sent with the E0 prefix
+	 */
+	keyDown(scancode: Byte, extended: boolean = false): void {
+		this.sendKey(scancode & 0x7f, extended);
+	}
+
+	/**
+	 * Report a key release (the make code with bit 7 set)
+	 */
+	keyUp(scancode: Byte, extended: boolean = false): void {
+		this.sendKey((scancode & 0x7f) | BREAK_BIT, extended);
+	}
+
+	/**
+	 * Press and release a key
+	 */
+	tapKey(scancode: Byte, extended: boolean = false): void {
+		this.keyDown(scancode, extended);
+		this.keyUp(scancode, extended);
+	}
+
+	/**
+	 * Read from the data or status port
+	 */
+	readPort(port: number): Byte {
+		if (port === Keyboard.STATUS_PORT) {
+			return Keyboard.STATUS_SYSTEM | (this.fifo.size() > 0 ? Keyboard.STATUS_OUTPUT_FULL : 0);
+		}
+		if (port !== Keyboard.DATA_PORT) {
+			return 0xff;
+		}
+
+		// an empty output buffer keeps returning the last byte on hardware; 0 is close enough
+		const value = this.fifo.shift() ?? 0;
+		this.trackModifiers(value);
+		if (this.fifo.size() > 0) {
+			this.signal();
+		}
+		return value;
+	}
+
+	/**
+	 * Write a controller command (0x64) or a keyboard command/data byte (0x60)
+	 */
+	writePort(port: number, value: Byte): void {
+		value &= 0xff;
+		if (port === Keyboard.STATUS_PORT) {
+			this.writeControllerCommand(value);
+		} else if (port === Keyboard.DATA_PORT) {
+			this.writeData(value);
+		}
+	}
+
+	/**
+	 * Take the next typed character from the FIFO, skipping releases and non-character keys
+	 */
+	readCharacter(): Byte | undefined {
+		while (this.fifo.size() > 0) {
+			const scancode = this.fifo.shift()!;
+			const char = this.trackModifiers(scancode);
+			if (char !== undefined) {
+				return char;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Number of bytes waiting in the output FIFO
+	 */
+	getPendingCount(): number {
+		return this.fifo.size();
+	}
+
+	/**
+	 * Get the LED state set with keyboard command 0xED (bit 0 scroll, 1 num, 2 caps lock)
+	 */
+	getLEDs(): number {
+		return this.leds;
+	}
+
+	private sendKey(code: Byte, extended: boolean): void {
+		if (!this.scanning || (this.commandByte & Keyboard.COMMAND_KEYBOARD_DISABLE) !== 0) return;
+		if (extended) {
+			this.enqueue(EXTENDED_PREFIX);
+		}
+		this.enqueue(code);
+	}
+
+	/**
+	 * Controller commands written to port 0x64
+	 */
+	private writeControllerCommand(command: Byte): void {
+		switch (command) {
+			case 0x20: // read command byte
+				this.enqueue(this.commandByte);
+				break;
+			case 0x60: // write command byte (next data byte)
+				this.pendingCommand = command;
+				break;
+			case 0xaa: // controller self test
+				this.enqueue(0x55);
+				break;
+			case 0xab: // keyboard interface test
+				this.enqueue(0x00);
+				break;
+			case 0xad: // disable keyboard
+				this.commandByte |= Keyboard.COMMAND_KEYBOARD_DISABLE;
+				break;
+			case 0xae: // enable keyboard
+				this.commandByte &= ~Keyboard.COMMAND_KEYBOARD_DISABLE;
+				break;
+		}
+	}
+
+	/**
+	 * Bytes written to port 0x60 go to the keyboard unless a controller command is waiting for them
+	 */
+	private writeData(value: Byte): void {
+		const pending = this.pendingCommand;
+		this.pendingCommand = undefined;
+		if (pending === 0x60) {
+			this.commandByte = value;
+			return;
+		}
+		if (pending === 0xed) {
+			this.leds = value & 0x7;
+			this.enqueue(0xfa);
+			return;
+		}
+
+		switch (value) {
+			case 0xed: // set LEDs (next data byte)
+				this.pendingCommand = value;
+				this.enqueue(0xfa);
+				break;
+			case 0xee: // echo
+				this.enqueue(0xee);
+				break;
+			case 0xf4: // enable scanning
+				this.scanning = true;
+				this.enqueue(0xfa);
+				break;
+			case 0xf5: // disable scanning
+				this.scanning = false;
+				this.enqueue(0xfa);
+				break;
+			case 0xff: // reset and self test
+				this.fifo = [];
+				this.scanning = true;
+				this.enqueue(0xfa);
+				this.enqueue(0xaa);
+				break;
+			default:
+				this.enqueue(0xfa); // acknowledge everything else
+				break;
+		}
+	}
+
+	/**
+	 * Queue a byte for the guest, dropping it when the FIFO is full like a real buffer overrun
+	 */
+	private enqueue(value: Byte): void {
+		if (this.fifo.size() >= Keyboard.FIFO_SIZE) return;
+		this.fifo.push(value);
+		if (this.fifo.size() === 1) {
+			this.signal();
+		}
+	}
+
+	private signal(): void {
+		if ((this.commandByte & Keyboard.COMMAND_IRQ_ENABLE) !== 0) {
+			this.raiseIRQ(Keyboard.IRQ_LINE);
+		}
+	}
+
+	/**
+	 * Update shift/caps state from a consumed scancode and return the character it types, if any
+	 */
+	private trackModifiers(scancode: Byte): Byte | undefined {
+		if (scancode === EXTENDED_PREFIX) {
+			this.extended = true;
+			return undefined;
+		}
+		const extended = this.extended;
+		this.extended = false;
+
+		const released = (scancode & BREAK_BIT) !== 0;
+		const code = scancode & 0x7f;
+		if (extended) return undefined; // arrows and friends have no ASCII code
+
+		if (code === LEFT_SHIFT || code === RIGHT_SHIFT) {
+			this.shiftDown = !released;
+			return undefined;
+		}
+		if (released) return undefined;
+		if (code === CAPS_LOCK) {
+			this.capsLock = !this.capsLock;
+			return undefined;
+		}
+
+		return translateScancode(code, this.shiftDown, this.capsLock);
+	}
+}
+
+/**
+ * Translate a scancode set 1 make code to ASCII
+ */
+export function translateScancode(code: Byte, shift: boolean, capsLock: boolean = false): Byte | undefined {
+	const control = CONTROL_CHARACTERS.get(code);
+	if (control !== undefined) return control;
+
+	for (const [first, lower, upper] of CHARACTER_ROWS) {
+		const index = code - first + 1;
+		if (index < 1 || index > lower.size()) continue;
+
+		const char = lower.sub(index, index);
+		// caps lock only affects letters, and shift reverses it
+		const isLetter = char.upper() !== char;
+		const shifted = isLetter && capsLock ? !shift : shift;
+		return string.byte(shifted ? upper : lower, index)[0];
+	}
+	return undefined;
+}
@@ -0,0 +1,196 @@
+/// <reference types="@rbxts/testez/globals" />
+import { Assembler } from "../cpu/Assembler";
+import { CPU } from "../cpu/CPU";
+import { GateType, IRQ_BASE_VECTOR } from "../cpu/types";
+import { PIC } from "./PIC";
+
+const EOI = 0x20;
+
+/**
+ * Program both chips like a PC BIOS: edge triggered, cascaded, 8086 mode
+ */
+function initialize(pic: PIC, masterBase: number, slaveBase: number, icw4: number = 0x01): void {
+	pic.writePort(PIC.MASTER_COMMAND_PORT, 0x11);
+	pic.writePort(PIC.MASTER_DATA_PORT, masterBase);
+	pic.writePort(PIC.MASTER_DATA_PORT, 0x04);
+	pic.writePort(PIC.MASTER_DATA_PORT, icw4);
+	pic.writePort(PIC.SLAVE_COMMAND_PORT, 0x11);
+	pic.writePort(PIC.SLAVE_DATA_PORT, slaveBase);
+	pic.writePort(PIC.SLAVE_DATA_PORT, 0x02);
+	pic.writePort(PIC.SLAVE_DATA_PORT, icw4);
+}
+
+export = () => {
+	describe("delivery", () => {
+		it("should deliver IRQ n on IRQ_BASE_VECTOR + n before being programmed", () => {
+			const pic = new PIC();
+			pic.raiseIRQ(0);
+			pic.raiseIRQ(9);
+			expect(pic.acknowledge()).to.equal(IRQ_BASE_VECTOR);
+			pic.writePort(PIC.MASTER_COMMAND_PORT, EOI);
+			expect(pic.acknowledge()).to.equal(IRQ_BASE_VECTOR + 9);
+
+			// the slave line is in service on the slave and the cascade line on the master
+			expect(pic.getRegisters(0)[1]).to.equal(1 << PIC.CASCADE_LINE);
+			expect(pic.getRegisters(1)[1]).to.equal(1 << 1);
+			expect(pic.acknowledge()).to.equal(undefined);
+		});
+
+		it("should use the vector bases written in ICW2", () => {
+			const pic = new PIC();
+			initialize(pic, 0x20, 0x28);
+			expect(pic.isIRQVector(0x21)).to.equal(true);
+			expect(pic.isIRQVector(0x2f)).to.equal(true);
+			expect(pic.isIRQVector(IRQ_BASE_VECTOR)).to.equal(false);
+
+			pic.raiseIRQ(12);
+			expect(pic.acknowledge()).to.equal(0x2c);
+		});
+
+		it("should answer a request on the cascade line alone with a spurious IRQ 15", () => {
+			const pic = new PIC();
+			pic.raiseIRQ(PIC.CASCADE_LINE);
+			expect(pic.acknowledge()).to.equal(IRQ_BASE_VECTOR + 15);
+			expect(pic.getRegisters(1)[1]).to.equal(0);
+		});
+	});
+
+	describe("priority", () => {
+		it("should serve lower lines first and hold lower priorities until EOI", () => {
+			const pic = new PIC();
+			pic.raiseIRQ(3);
+			pic.raiseIRQ(1);
+			expect(pic.acknowledge()).to.equal(IRQ_BASE_VECTOR + 1);
+			expect(pic.hasPendingInterrupt()).to.equal(false);
+
+			// a higher priority line still gets through
+			pic.raiseIRQ(0);
+			expect(pic.acknowledge()).to.equal(IRQ_BASE_VECTOR);
+			pic.writePort(PIC.MASTER_COMMAND_PORT, EOI);
+			expect(pic.hasPendingInterrupt()).to.equal(false);
+			pic.writePort(PIC.MASTER_COMMAND_PORT, EOI);
+			expect(pic.acknowledge()).to.equal(IRQ_BASE_VECTOR + 3);
+		});
+
+		it("should end a given line with a specific EOI and rotate priorities", () => {
+			const pic = new PIC();
+			pic.raiseIRQ(1);
+			pic.acknowledge();
+			pic.writePort(PIC.MASTER_COMMAND_PORT, 0x60 | 1);
+			expect(pic.getRegisters(0)[1]).to.equal(0);
+
+			// rotate on non-specific EOI makes line 1 the lowest priority
+			pic.raiseIRQ(1);
+			pic.acknowledge();
+			pic.writePort(PIC.MASTER_COMMAND_PORT, 0xa0);
+			pic.raiseIRQ(1);
+			pic.raiseIRQ(5);
+			expect(pic.acknowledge()).to.equal(IRQ_BASE_VECTOR + 5);
+		});
+
+		it("should not put requests in service in auto-EOI mode", () => {
+			const pic = new PIC();
+			initialize(pic, 0x20, 0x28, 0x03);
+			pic.raiseIRQ(1);
+			pic.raiseIRQ(3);
+			expect(pic.acknowledge()).to.equal(0x21);
+			expect(pic.acknowledge()).to.equal(0x23);
+		});
+	});
+
+	describe("registers", () => {
+		it("should keep masked requests pending until they are unmasked", () => {
+			const pic = new PIC();
+			pic.writePort(PIC.MASTER_DATA_PORT, 0x01);
+			pic.raiseIRQ(0);
+			expect(pic.hasPendingInterrupt()).to.equal(false);
+			expect(pic.readPort(PIC.MASTER_DATA_PORT)).to.equal(0x01);
+
+			pic.writePort(PIC.MASTER_DATA_PORT, 0x00);
+			expect(pic.acknowledge()).to.equal(IRQ_BASE_VECTOR);
+		});
+
+		it("should read back IRR or ISR as selected by OCW3", () => {
+			const pic = new PIC();
+			pic.raiseIRQ(4);
+			expect(pic.readPort(PIC.MASTER_COMMAND_PORT)).to.equal(1 << 4);
+			pic.acknowledge();
+			pic.writePort(PIC.MASTER_COMMAND_PORT, 0x0b);
+			expect(pic.readPort(PIC.MASTER_COMMAND_PORT)).to.equal(1 << 4);
+			pic.writePort(PIC.MASTER_COMMAND_PORT, 0x0a);
+			expect(pic.readPort(PIC.MASTER_COMMAND_PORT)).to.equal(0);
+		});
+	});
+
+	it("should interrupt a guest that acknowledges with an EOI through port 0x20", () => {
+		const result = new Assembler(0x1000).assemble(`
+			STI
+		idle:
+			HLT
+			JMP idle
+		handler:
+			INC EBX
+			MOV AL, 0x20
+			OUT 0x20, AL
+			IRET
+		`);
+		const cpu = new CPU(0x10000);
+		const pic = new PIC();
+		cpu.attachInterruptController(pic);
+		cpu.getIOBus().register(pic, PIC.MASTER_COMMAND_PORT, PIC.MASTER_DATA_PORT, "pic");
+		cpu.loadProgram(result.bytes, 0x1000);
+		cpu.setInstructionPointer(0x1000);
+		cpu.setRegister("ESP", 0x7000);
+		cpu.setInterruptDescriptorTable(0x800);
+		cpu.setInterruptGate(IRQ_BASE_VECTOR, {
+			offset: result.labels.get("handler")!,
+			selector: 0,
+			type: GateType.INTERRUPT,
+			dpl: 0,
+			present: true,
+		});
+
+		for (let i = 0; i < 3; i++) {
+			cpu.raiseIRQ(0);
+			for (let j = 0; j < 10; j++) cpu.step();
+		}
+		expect(cpu.getRegister("EBX")).to.equal(3);
+		expect(pic.getRegisters(0)[1]).to.equal(0);
+	});
+
+	it("should give a service vector to the guest's IRQ handler once ICW2 moves the IRQ range onto it", () => {
+		const result = new Assembler(0x1000).assemble(`
+			INT 0x21
+			INT 0x21
+			HLT
+		handler:
+			INC EBX
+			IRET
+		`);
+		const cpu = new CPU(0x10000);
+		const pic = new PIC();
+		cpu.attachInterruptController(pic);
+		let calls = 0;
+		cpu.registerHLEHandler(0x21, () => calls++);
+		cpu.loadProgram(result.bytes, 0x1000);
+		cpu.setInstructionPointer(0x1000);
+		cpu.setRegister("ESP", 0x7000);
+		cpu.setInterruptDescriptorTable(0x800);
+		cpu.setInterruptGate(0x21, {
+			offset: result.labels.get("handler")!,
+			selector: 0,
+			type: GateType.INTERRUPT,
+			dpl: 0,
+			present: true,
+		});
+
+		cpu.step();
+		expect(calls).to.equal(1);
+
+		initialize(pic, 0x20, 0x28);
+		for (let i = 0; i < 10; i++) cpu.step();
+		expect(calls).to.equal(1);
+		expect(cpu.getRegister("EBX")).to.equal(1);
+		expect(cpu.isHalted()).to.equal(true);
+	});
+};
@@ -0,0 +1,298 @@
+import { Byte, IRQ_BASE_VECTOR } from "../cpu/types";
+import { InterruptController, PortDevice } from "./types";
+
+// initialization sequence position of a chip
+enum InitState {
+	READY,
+	ICW2, // waiting for the vector base
+	ICW3, // waiting for the cascade configuration
+	ICW4, // waiting for the mode byte
+}
+
+/**
+ * One 8259 chip: request (IRR), in-service (ISR) and mask (IMR) registers with rotating priority
+ */
+class InterruptChip {
+	irr = 0; // edge-triggered requests waiting for acknowledge
+	isr = 0; // requests being serviced until EOI
+	imr = 0;
+	vectorBase: number;
+	lowestPriority = 7; // the highest priority line is the one after this
+	autoEOI = false;
+	readISR = false; // OCW3 selects which register the command port returns
+	private initState = InitState.READY;
+	private single = false;
+	private expectICW4 = false;
+	private readonly defaultVectorBase: number;
+
+	constructor(vectorBase: number) {
+		this.vectorBase = vectorBase;
+		this.defaultVectorBase = vectorBase;
+	}
+
+	reset(): void {
+		this.irr = 0;
+		this.isr = 0;
+		this.imr = 0;
+		this.vectorBase = this.defaultVectorBase;
+		this.lowestPriority = 7;
+		this.autoEOI = false;
+		this.readISR = false;
+		this.initState = InitState.READY;
+	}
+
+	readCommand(): Byte {
+		return this.readISR ? this.isr : this.irr;
+	}
+
+	readData(): Byte {
+		return this.imr;
+	}
+
+	/**
+	 * Command port: ICW1 (bit 4 set), OCW3 (bit 3 set) or OCW2
+	 */
+	writeCommand(value: Byte): void {
+		if ((value & 0x10) !== 0) {
+			// ICW1 restarts initialization and clears the mask and in-service state
+			this.single = (value & 0x02) !== 0;
+			this.expectICW4 = (value & 0x01) !== 0;
+			this.imr = 0;
+			this.isr = 0;
+			this.lowestPriority = 7;
+			this.autoEOI = false;
+			this.readISR = false;
+			this.initState = InitState.ICW2;
+			return;
+		}
+
+		if ((value & 0x08) !== 0) {
+			// OCW3: RR/RIS select the register read back from the command port
+			if ((value & 0x02) !== 0) {
+				this.readISR = (value & 0x01) !== 0;
+			}
+			return;
+		}
+
+		this.writeOCW2(value);
+	}
+
+	/**
+	 * Data port: the next ICW during initialization, otherwise OCW1 (the mask)
+	 */
+	writeData(value: Byte): void {
+		switch (this.initState) {
+			case InitState.ICW2:
+				this.vectorBase = value & 0xf8;
+				this.initState = this.single ? this.afterICW3() : InitState.ICW3;
+				break;
+			case InitState.ICW3:
+				// the cascade wiring is fixed (slave on master line 2), so the value is not needed
+				this.initState = this.afterICW3();
+				break;
+			case InitState.ICW4:
+				this.autoEOI = (value & 0x02) !== 0;
+				this.initState = InitState.READY;
+				break;
+			default:
+				this.imr = value;
+				break;
+		}
+	}
+
+	/**
+	 * Latch a rising edge on an input line
+	 */
+	request(line: number): void {
+		this.irr |= 1 << line;
+	}
+
+	/**
+	 * Highest priority unmasked request that is not blocked by an equal or higher priority
+	 * in-service line
+	 */
+	highestPending(extraRequests: number = 0): number | undefined {
+		const requests = (this.irr | extraRequests) & ~this.imr;
+		for (let i = 1; i <= 8; i++) {
+			const line = (this.lowestPriority + i) % 8;
+			if ((this.isr & (1 << line)) !== 0) return undefined;
+			if ((requests & (1 << line)) !== 0) return line;
+		}
+		return undefined;
+	}
+
+	/**
+	 * INTA cycle: move the request into service
+	 */
+	acknowledge(line: number): void {
+		this.irr &= ~(1 << line);
+		if (!this.autoEOI) {
+			this.isr |= 1 << line;
+		}
+	}
+
+	/**
+	 * OCW2: end of interrupt and priority rotation commands (bits R, SL, EOI and the level)
+	 */
+	private writeOCW2(value: Byte): void {
+		const command = (value >> 5) & 0x7;
+		const level = value & 0x7;
+
+		switch (command) {
+			case 0x1: // non-specific EOI
+				this.endHighestInService();
+				break;
+			case 0x3: // specific EOI
+				this.isr &= ~(1 << level);
+				break;
+			case 0x5: {
+				// rotate on non-specific EOI
+				const line = this.endHighestInService();
+				if (line !== undefined) this.lowestPriority = line;
+				break;
+			}
+			case 0x6: // set priority
+				this.lowestPriority = level;
+				break;
+			case 0x7: // rotate on specific EOI
+				this.isr &= ~(1 << level);
+				this.lowestPriority = level;
+				break;
+		}
+	}
+
+	private endHighestInService(): number | undefined {
+		for (let i = 1; i <= 8; i++) {
+			const line = (this.lowestPriority + i) % 8;
+			if ((this.isr & (1 << line)) !== 0) {
+				this.isr &= ~(1 << line);
+				return line;
+			}
+		}
+		return undefined;
+	}
+
+	private afterICW3(): InitState {
+		return this.expectICW4 ? InitState.ICW4 : InitState.READY;
+	}
+}
+
+/**
+ * Programmable Interrupt Controller
+ * Master/slave 8259 pair; IRQ 0-7 go to the master, IRQ 8-15 to the slave cascaded on master line 2.
+ * Until the guest reprograms them the chips deliver IRQ n on IRQ_BASE_VECTOR + n with nothing masked
+ */
+export class PIC implements InterruptController, PortDevice {
+	static readonly MASTER_COMMAND_PORT = 0x20;
+	static readonly MASTER_DATA_PORT = 0x21;
+	static readonly SLAVE_COMMAND_PORT = 0xa0;
+	static readonly SLAVE_DATA_PORT = 0xa1;
+	static readonly CASCADE_LINE = 2;
+	static readonly SPURIOUS_LINE = 7;
+
+	private master = new InterruptChip(IRQ_BASE_VECTOR);
+	private slave = new InterruptChip(IRQ_BASE_VECTOR + 8);
+
+	/**
+	 * Return both chips to their default (pre-programmed) state
+	 */
+	reset(): void {
+		this.master.reset();
+		this.slave.reset();
+	}
+
+	/**
+	 * Latch an edge on IRQ line 0-15
+	 */
+	raiseIRQ(line: number): void {
+		if (line < 8) {
+			this.master.request(line);
+		} else if (line < 16) {
+			this.slave.request(line - 8);
+		}
+	}
+
+	/**
+	 * Check whether an unmasked request would be delivered now
+	 */
+	hasPendingInterrupt(): boolean {
+		return this.master.highestPending(this.cascadeRequest()) !== undefined;
+	}
+
+	/**
+	 * INTA cycle: return the vector of the highest priority request and mark it in service
+	 */
+	acknowledge(): number | undefined {
+		const line = this.master.highestPending(this.cascadeRequest());
+		if (line === undefined) return undefined;
+
+		this.master.acknowledge(line);
+		if (line !== PIC.CASCADE_LINE) {
+			return this.master.vectorBase + line;
+		}
+
+		// with nothing left on the slave (or line 2 raised directly) the slave answers with a
+		// spurious IRQ 15 that is not put in service; only the master needs an EOI
+		const slaveLine = this.slave.highestPending();
+		if (slaveLine === undefined) {
+			return this.slave.vectorBase + PIC.SPURIOUS_LINE;
+		}
+		this.slave.acknowledge(slaveLine);
+		return this.slave.vectorBase + slaveLine;
+	}
+
+	/**
+	 * Check whether a vector falls in the 8-vector block of either chip
+	 */
+	isIRQVector(vector: number): boolean {
+		return (vector & 0xf8) === this.master.vectorBase || (vector & 0xf8) === this.slave.vectorBase;
+	}
+
+	readPort(port: number): Byte {
+		switch (port) {
+			case PIC.MASTER_COMMAND_PORT:
+				return this.master.readCommand();
+			case PIC.MASTER_DATA_PORT:
+				return this.master.readData();
+			case PIC.SLAVE_COMMAND_PORT:
+				return this.slave.readCommand();
+			case PIC.SLAVE_DATA_PORT:
+				return this.slave.readData();
+			default:
+				return 0xff;
+		}
+	}
+
+	writePort(port: number, value: Byte): void {
+		value &= 0xff;
+		switch (port) {
+			case PIC.MASTER_COMMAND_PORT:
+				this.master.writeCommand(value);
+				break;
+			case PIC.MASTER_DATA_PORT:
+				this.master.writeData(value);
+				break;
+			case PIC.SLAVE_COMMAND_PORT:
+				this.slave.writeCommand(value);
+				break;
+			case PIC.SLAVE_DATA_PORT:
+				this.slave.writeData(value);
+				break;
+		}
+	}
+
+	/**
+	 * Get [IRR, ISR, IMR] of the master (chip 0) or slave (chip 1) for debugging
+	 */
+	getRegisters(chip: number): [Byte, Byte, Byte] {
+		const target = chip === 0 ? this.master : this.slave;
+		return [target.irr, target.isr, target.imr];
+	}
+
+	/**
+	 * The slave's INT output drives master line 2 while it has a deliverable request
+	 */
+	private cascadeRequest(): number {
+		return this.slave.highestPending() !== undefined ? 1 << PIC.CASCADE_LINE : 0;
+	}
+}
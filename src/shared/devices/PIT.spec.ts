@@ -0,0 +1,130 @@
+/// <reference types="@rbxts/testez/globals" />
+import { PIT } from "./PIT";
+
+// command bytes: channel 0, low then high byte, in the given mode
+const RATE_GENERATOR = 0x34;
+const ONE_SHOT = 0x30;
+
+function setup(cyclesPerTick?: number) {
+	const irqs: number[] = [];
+	const pit = new PIT((line) => irqs.push(line), cyclesPerTick);
+	return { pit, irqs };
+}
+
+function program(pit: PIT, command: number, reload: number, port: number = PIT.CHANNEL_0_PORT): void {
+	pit.writePort(PIT.COMMAND_PORT, command);
+	pit.writePort(port, reload & 0xff);
+	pit.writePort(port, (reload >> 8) & 0xff);
+}
+
+function readCount(pit: PIT): number {
+	const low = pit.readPort(PIT.CHANNEL_0_PORT);
+	return low | (pit.readPort(PIT.CHANNEL_0_PORT) << 8);
+}
+
+export = () => {
+	describe("counting", () => {
+		it("should fire IRQ0 every reload ticks in rate generator mode", () => {
+			const { pit, irqs } = setup();
+			program(pit, RATE_GENERATOR, 100);
+			pit.tick(99);
+			expect(irqs.size()).to.equal(0);
+			pit.tick(1);
+			expect(irqs.join(",")).to.equal(`${PIT.IRQ_LINE}`);
+
+			// several periods in one call fire once per period
+			pit.tick(250);
+			expect(irqs.size()).to.equal(3);
+			expect(readCount(pit)).to.equal(50);
+		});
+
+		it("should fire once and stop at terminal count in one-shot mode", () => {
+			const { pit, irqs } = setup();
+			program(pit, ONE_SHOT, 10);
+			pit.tick(20);
+			expect(irqs.size()).to.equal(1);
+			expect(pit.isCounting(0)).to.equal(false);
+
+			pit.tick(100);
+			expect(irqs.size()).to.equal(1);
+		});
+
+		it("should convert CPU cycles into timer ticks", () => {
+			const { pit } = setup(4);
+			program(pit, RATE_GENERATOR, 100);
+			pit.tick(3);
+			expect(readCount(pit)).to.equal(100);
+			pit.tick(5);
+			expect(readCount(pit)).to.equal(98);
+		});
+
+		it("should only raise IRQ0 for channel 0", () => {
+			const { pit, irqs } = setup();
+			program(pit, 0xb4, 10, PIT.CHANNEL_2_PORT);
+			pit.tick(50);
+			expect(pit.isCounting(2)).to.equal(true);
+			expect(irqs.size()).to.equal(0);
+		});
+	});
+
+	describe("programming", () => {
+		it("should treat a reload value of 0 as 65536", () => {
+			const { pit } = setup();
+			program(pit, RATE_GENERATOR, 0);
+			expect(pit.getReload(0)).to.equal(0x10000);
+		});
+
+		it("should stop counting on a new command until the reload value arrives", () => {
+			const { pit } = setup();
+			program(pit, RATE_GENERATOR, 100);
+			pit.writePort(PIT.COMMAND_PORT, RATE_GENERATOR);
+			expect(pit.isCounting(0)).to.equal(false);
+			pit.writePort(PIT.CHANNEL_0_PORT, 20);
+			expect(pit.isCounting(0)).to.equal(false);
+			pit.writePort(PIT.CHANNEL_0_PORT, 0);
+			expect(pit.getReload(0)).to.equal(20);
+			expect(pit.isCounting(0)).to.equal(true);
+		});
+
+		it("should load single-byte counters in low byte and high byte access modes", () => {
+			const { pit } = setup();
+			pit.writePort(PIT.COMMAND_PORT, 0x14);
+			pit.writePort(PIT.CHANNEL_0_PORT, 0x12);
+			expect(pit.getReload(0)).to.equal(0x12);
+
+			pit.writePort(PIT.COMMAND_PORT, 0x24);
+			pit.writePort(PIT.CHANNEL_0_PORT, 0x12);
+			expect(pit.getReload(0)).to.equal(0x1200);
+			expect(pit.readPort(PIT.CHANNEL_0_PORT)).to.equal(0x12);
+		});
+
+		it("should wait for a gate edge in modes 1 and 5 and alias modes 6 and 7", () => {
+			const { pit, irqs } = setup();
+			program(pit, 0x32, 10);
+			expect(pit.isCounting(0)).to.equal(false);
+			program(pit, 0x3a, 10);
+			expect(pit.isCounting(0)).to.equal(false);
+
+			program(pit, 0x3c, 10);
+			pit.tick(30);
+			expect(irqs.size()).to.equal(3);
+		});
+	});
+
+	describe("reading", () => {
+		it("should hold a latched count until both bytes are read", () => {
+			const { pit } = setup();
+			program(pit, RATE_GENERATOR, 1000);
+			pit.tick(10);
+			pit.writePort(PIT.COMMAND_PORT, 0x00);
+			pit.tick(100);
+			expect(readCount(pit)).to.equal(990);
+			expect(readCount(pit)).to.equal(890);
+		});
+
+		it("should return all ones for the write-only command register", () => {
+			const { pit } = setup();
+			expect(pit.readPort(PIT.COMMAND_PORT)).to.equal(0xff);
+		});
+	});
+};
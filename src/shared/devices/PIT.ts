@@ -0,0 +1,231 @@
+import { Byte } from "../cpu/types";
+import { ClockedDevice, IRQCallback, PortDevice } from "./types";
+
+// Counter operating modes
+enum TimerMode {
+	INTERRUPT_ON_TERMINAL_COUNT = 0,
+	HARDWARE_ONE_SHOT = 1,
+	RATE_GENERATOR = 2,
+	SQUARE_WAVE = 3,
+	SOFTWARE_STROBE = 4,
+	HARDWARE_STROBE = 5,
+}
+
+// How the 16-bit counter is accessed through its 8-bit port
+enum AccessMode {
+	LOBYTE = 1,
+	HIBYTE = 2,
+	LOBYTE_HIBYTE = 3,
+}
+
+/**
+ * Programmable Interval Timer
+ * 8253/8254-style timer with three 16-bit down counters; channel 0 drives IRQ0
+ */
+export class PIT implements ClockedDevice, PortDevice {
+	static readonly CHANNEL_0_PORT = 0x40;
+	static readonly CHANNEL_1_PORT = 0x41;
+	static readonly CHANNEL_2_PORT = 0x42;
+	static readonly COMMAND_PORT = 0x43;
+	static readonly IRQ_LINE = 0;
+
+	private channels: TimerChannel[] = [];
+	private raiseIRQ: IRQCallback;
+	private cyclesPerTick: number;
+	private pendingCycles = 0; // cycles not yet converted into timer ticks
+
+	/**
+	 * @param raiseIRQ called with IRQ_LINE whenever channel 0 fires
+	 * @param cyclesPerTick CPU cycles per input clock tick of the timer
+	 */
+	constructor(raiseIRQ: IRQCallback, cyclesPerTick: number = 1) {
+		this.raiseIRQ = raiseIRQ;
+		this.cyclesPerTick = cyclesPerTick;
+		this.reset();
+	}
+
+	/**
+	 * Return every channel to its unprogrammed, stopped state
+	 */
+	reset(): void {
+		this.channels = [];
+		for (let i = 0; i < 3; i++) {
+			this.channels.push({
+				mode: TimerMode.INTERRUPT_ON_TERMINAL_COUNT,
+				access: AccessMode.LOBYTE_HIBYTE,
+				reload: 0x10000,
+				count: 0,
+				counting: false,
+				writeLow: undefined,
+				latched: undefined,
+				readHigh: false,
+			});
+		}
+		this.pendingCycles = 0;
+	}
+
+	/**
+	 * Advance the counters by a number of CPU cycles
+	 */
+	tick(cycles: number): void {
+		this.pendingCycles += cycles;
+		const ticks = math.floor(this.pendingCycles / this.cyclesPerTick);
+		if (ticks === 0) return;
+		this.pendingCycles -= ticks * this.cyclesPerTick;
+
+		for (let i = 0; i < this.channels.size(); i++) {
+			const channel = this.channels[i];
+			if (!channel.counting) continue;
+
+			channel.count -= ticks;
+			while (channel.count <= 0) {
+				if (i === 0) {
+					this.raiseIRQ(PIT.IRQ_LINE);
+				}
+
+				if (channel.mode === TimerMode.RATE_GENERATOR || channel.mode === TimerMode.SQUARE_WAVE) {
+					channel.count += channel.reload;
+				} else {
+					// one-shot modes stop at terminal count until reprogrammed
+					channel.count = 0;
+					channel.counting = false;
+					break;
+				}
+			}
+		}
+	}
+
+	/**
+	 * Handle a read from one of the timer ports
+	 */
+	readPort(port: number): Byte {
+		const channel = this.channels[port - PIT.CHANNEL_0_PORT];
+		if (!channel || port === PIT.COMMAND_PORT) {
+			return 0xff; // the command register is write-only
+		}
+
+		const value = channel.latched ?? this.currentCount(channel);
+		let result: Byte;
+		switch (channel.access) {
+			case AccessMode.LOBYTE:
+				result = value & 0xff;
+				channel.latched = undefined;
+				break;
+			case AccessMode.HIBYTE:
+				result = (value >> 8) & 0xff;
+				channel.latched = undefined;
+				break;
+			default:
+				// low byte first, then high byte; the latch is released after the high byte
+				result = channel.readHigh ? (value >> 8) & 0xff : value & 0xff;
+				if (channel.readHigh) {
+					channel.latched = undefined;
+				}
+				channel.readHigh = !channel.readHigh;
+				break;
+		}
+		return result;
+	}
+
+	/**
+	 * Handle a write to one of the timer ports
+	 */
+	writePort(port: number, value: Byte): void {
+		value &= 0xff;
+		if (port === PIT.COMMAND_PORT) {
+			this.writeCommand(value);
+			return;
+		}
+
+		const channel = this.channels[port - PIT.CHANNEL_0_PORT];
+		if (!channel) return;
+
+		switch (channel.access) {
+			case AccessMode.LOBYTE:
+				this.loadCounter(channel, value);
+				break;
+			case AccessMode.HIBYTE:
+				this.loadCounter(channel, value << 8);
+				break;
+			default:
+				if (channel.writeLow === undefined) {
+					channel.writeLow = value;
+				} else {
+					this.loadCounter(channel, channel.writeLow | (value << 8));
+					channel.writeLow = undefined;
+				}
+				break;
+		}
+	}
+
+	/**
+	 * Get the reload value of a channel (65536 when programmed with 0)
+	 */
+	getReload(channelIndex: number): number {
+		return this.channels[channelIndex].reload;
+	}
+
+	/**
+	 * Check whether a channel has been programmed and is counting
+	 */
+	isCounting(channelIndex: number): boolean {
+		return this.channels[channelIndex].counting;
+	}
+
+	/**
+	 * Mode/command register: SC1 SC0 RW1 RW0 M2 M1 M0 BCD
+	 */
+	private writeCommand(value: Byte): void {
+		const channelIndex = (value >> 6) & 0x3;
+		if (channelIndex === 3) return; // read-back command (8254 only) is not supported
+
+		const channel = this.channels[channelIndex];
+		const access = (value >> 4) & 0x3;
+
+		// access mode 0 latches the current count without touching the configuration
+		if (access === 0) {
+			if (channel.latched === undefined) {
+				channel.latched = this.currentCount(channel);
+				channel.readHigh = false;
+			}
+			return;
+		}
+
+		let mode = (value >> 1) & 0x7;
+		if (mode > 5) mode -= 4; // modes 6 and 7 alias 2 and 3
+
+		channel.access = access;
+		channel.mode = mode;
+		channel.counting = false; // a new command stops the counter until a reload value arrives
+		channel.writeLow = undefined;
+		channel.latched = undefined;
+		channel.readHigh = false;
+	}
+
+	/**
+	 * Load a new reload value and (re)start counting
+	 */
+	private loadCounter(channel: TimerChannel, value: number): void {
+		channel.reload = value === 0 ? 0x10000 : value;
+		channel.count = channel.reload;
+
+		// modes 1 and 5 wait for a gate edge, which never arrives on these channels
+		channel.counting = channel.mode !== TimerMode.HARDWARE_ONE_SHOT && channel.mode !== TimerMode.HARDWARE_STROBE;
+	}
+
+	private currentCount(channel: TimerChannel): number {
+		return channel.count & 0xffff;
+	}
+}
+
+// internal types
+interface TimerChannel {
+	mode: TimerMode;
+	access: AccessMode;
+	reload: number; // 1..65536
+	count: number;
+	counting: boolean;
+	writeLow: Byte | undefined; // low byte received while waiting for the high byte
+	latched: number | undefined; // value captured by a counter latch command
+	readHigh: boolean; // next lobyte/hibyte read returns the high byte
+}
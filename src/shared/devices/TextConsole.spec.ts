@@ -0,0 +1,94 @@
+/// <reference types="@rbxts/testez/globals" />
+import { TextConsole } from "./TextConsole";
+
+function setCursorThroughCRTC(console: TextConsole, location: number): void {
+	console.writePort(TextConsole.CRTC_INDEX_PORT, 0x0e);
+	console.writePort(TextConsole.CRTC_DATA_PORT, location >> 8);
+	console.writePort(TextConsole.CRTC_INDEX_PORT, 0x0f);
+	console.writePort(TextConsole.CRTC_DATA_PORT, location & 0xff);
+}
+
+export = () => {
+	describe("teletype output", () => {
+		it("should handle carriage return, line feed, backspace and tab", () => {
+			const console = new TextConsole();
+			console.write("abc\rX\nde\bF\tG");
+			expect(console.getLine(0)).to.equal("Xbc");
+			expect(console.getLine(1)).to.equal("dF      G");
+			expect(console.getCursorPosition()[0]).to.equal(9);
+		});
+
+		it("should wrap at the last column and scroll at the last row", () => {
+			const console = new TextConsole();
+			console.write(string.rep("x", TextConsole.COLUMNS) + "y");
+			expect(console.getLine(1)).to.equal("y");
+
+			console.setCursorPosition(0, TextConsole.ROWS - 1);
+			console.write("bottom\n");
+			expect(console.getLine(0)).to.equal("y");
+			expect(console.getLine(TextConsole.ROWS - 2)).to.equal("bottom");
+			expect(console.getLine(TextConsole.ROWS - 1)).to.equal("");
+			const [column, row] = console.getCursorPosition();
+			expect(column).to.equal(0);
+			expect(row).to.equal(TextConsole.ROWS - 1);
+		});
+
+		it("should store the attribute of each character", () => {
+			const console = new TextConsole();
+			console.write("A", 0x1f);
+			const [char, attribute] = console.getCell(0, 0);
+			expect(char).to.equal(0x41);
+			expect(attribute).to.equal(0x1f);
+			expect(console.getCell(1, 0)[1]).to.equal(TextConsole.DEFAULT_ATTRIBUTE);
+		});
+	});
+
+	describe("framebuffer", () => {
+		it("should expose the cells as character and attribute bytes", () => {
+			const console = new TextConsole();
+			console.writeMemory((TextConsole.COLUMNS + 2) * 2, 0x4e48, 2);
+			expect(console.getCell(2, 1)[0]).to.equal(0x48);
+			expect(console.getCell(2, 1)[1]).to.equal(0x4e);
+			expect(console.getLine(1)).to.equal("  H");
+			expect(console.readMemory(0, 4)).to.equal(0x07200720);
+		});
+
+		it("should ignore writes past the framebuffer and float reads there high", () => {
+			const console = new TextConsole();
+			console.writeMemory(TextConsole.FRAMEBUFFER_SIZE - 1, 0x4141, 2);
+			expect(console.readMemory(TextConsole.FRAMEBUFFER_SIZE - 1, 2)).to.equal(0xff41);
+		});
+
+		it("should bump the revision on every change", () => {
+			const console = new TextConsole();
+			const revision = console.getRevision();
+			console.writeMemory(0, 0x41, 1);
+			console.putChar(0x42);
+			expect(console.getRevision() > revision + 1).to.equal(true);
+		});
+	});
+
+	describe("CRTC", () => {
+		it("should move the cursor through the location registers", () => {
+			const console = new TextConsole();
+			setCursorThroughCRTC(console, 2 * TextConsole.COLUMNS + 5);
+			const [column, row] = console.getCursorPosition();
+			expect(column).to.equal(5);
+			expect(row).to.equal(2);
+
+			console.putChar(0x5a);
+			expect(console.getLine(2)).to.equal("     Z");
+			console.writePort(TextConsole.CRTC_INDEX_PORT, 0x0f);
+			expect(console.readPort(TextConsole.CRTC_DATA_PORT)).to.equal(2 * TextConsole.COLUMNS + 6);
+		});
+
+		it("should hide the cursor with the cursor start disable bit", () => {
+			const console = new TextConsole();
+			expect(console.isCursorVisible()).to.equal(true);
+			console.writePort(TextConsole.CRTC_INDEX_PORT, 0x0a);
+			console.writePort(TextConsole.CRTC_DATA_PORT, 0x20);
+			expect(console.isCursorVisible()).to.equal(false);
+			expect(console.readPort(TextConsole.CRTC_INDEX_PORT)).to.equal(0x0a);
+		});
+	});
+};
@@ -0,0 +1,225 @@
+import { Byte } from "../cpu/types";
+import { MemoryMappedDevice, PortDevice } from "./types";
+
+/**
+ * Text Console
+ * VGA-style 80x25 text framebuffer (character + attribute byte per cell) with a CRTC hardware cursor
+ */
+export class TextConsole implements MemoryMappedDevice, PortDevice {
+	static readonly COLUMNS = 80;
+	static readonly ROWS = 25;
+	static readonly FRAMEBUFFER_BASE = 0xb8000;
+	static readonly FRAMEBUFFER_SIZE = TextConsole.COLUMNS * TextConsole.ROWS * 2;
+	static readonly CRTC_INDEX_PORT = 0x3d4;
+	static readonly CRTC_DATA_PORT = 0x3d5;
+	static readonly DEFAULT_ATTRIBUTE = 0x07; // light grey on black
+
+	// CRTC registers used for the cursor
+	private static readonly CURSOR_START = 0x0a; // bit 5 disables the cursor
+	private static readonly CURSOR_LOCATION_HIGH = 0x0e;
+	private static readonly CURSOR_LOCATION_LOW = 0x0f;
+
+	private buffer: number[];
+	private crtcIndex = 0;
+	private crtcRegisters: number[];
+	private revision = 0; // bumped on every change so views can skip redundant redraws
+
+	constructor() {
+		this.buffer = table.create(TextConsole.FRAMEBUFFER_SIZE, 0);
+		this.crtcRegisters = table.create(0x19, 0);
+		this.clear();
+	}
+
+	/**
+	 * Blank the screen with the default attribute and home the cursor
+	 */
+	clear(attribute: number = TextConsole.DEFAULT_ATTRIBUTE): void {
+		for (let i = 0; i < TextConsole.FRAMEBUFFER_SIZE; i += 2) {
+			this.buffer[i] = 0x20;
+			this.buffer[i + 1] = attribute;
+		}
+		this.setCursorPosition(0, 0);
+		this.revision++;
+	}
+
+	/**
+	 * MMIO read from the framebuffer
+	 */
+	readMemory(offset: number, size: number): number {
+		let value = 0;
+		for (let i = 0; i < size; i++) {
+			value |= (this.buffer[offset + i] ?? 0xff) << (i * 8);
+		}
+		return value >>> 0;
+	}
+
+	/**
+	 * MMIO write to the framebuffer
+	 */
+	writeMemory(offset: number, value: number, size: number): void {
+		for (let i = 0; i < size; i++) {
+			if (offset + i < TextConsole.FRAMEBUFFER_SIZE) {
+				this.buffer[offset + i] = (value >>> (i * 8)) & 0xff;
+			}
+		}
+		this.revision++;
+	}
+
+	/**
+	 * CRTC port read (index register at 0x3D4, data at 0x3D5)
+	 */
+	readPort(port: number): number {
+		if (port === TextConsole.CRTC_INDEX_PORT) {
+			return this.crtcIndex;
+		}
+		if (port === TextConsole.CRTC_DATA_PORT) {
+			return this.crtcRegisters[this.crtcIndex] ?? 0xff;
+		}
+		return 0xff;
+	}
+
+	/**
+	 * CRTC port write
+	 */
+	writePort(port: number, value: number): void {
+		if (port === TextConsole.CRTC_INDEX_PORT) {
+			this.crtcIndex = value & 0xff;
+		} else if (port === TextConsole.CRTC_DATA_PORT && this.crtcIndex < this.crtcRegisters.size()) {
+			this.crtcRegisters[this.crtcIndex] = value & 0xff;
+			this.revision++;
+		}
+	}
+
+	/**
+	 * Print a character at the cursor, handling control characters and scrolling (teletype output)
+	 */
+	putChar(char: Byte, attribute: number = TextConsole.DEFAULT_ATTRIBUTE): void {
+		let [column, row] = this.getCursorPosition();
+
+		switch (char) {
+			case 0x0a: // line feed
+				column = 0;
+				row++;
+				break;
+			case 0x0d: // carriage return
+				column = 0;
+				break;
+			case 0x08: // backspace
+				if (column > 0) column--;
+				break;
+			case 0x09: // tab to the next multiple of 8
+				column = math.min(column + 8 - (column % 8), TextConsole.COLUMNS - 1);
+				break;
+			default: {
+				const index = (row * TextConsole.COLUMNS + column) * 2;
+				this.buffer[index] = char & 0xff;
+				this.buffer[index + 1] = attribute;
+				column++;
+				break;
+			}
+		}
+
+		if (column >= TextConsole.COLUMNS) {
+			column = 0;
+			row++;
+		}
+		if (row >= TextConsole.ROWS) {
+			this.scroll();
+			row = TextConsole.ROWS - 1;
+		}
+
+		this.setCursorPosition(column, row);
+		this.revision++;
+	}
+
+	/**
+	 * Print a string at the cursor
+	 */
+	write(text: string, attribute: number = TextConsole.DEFAULT_ATTRIBUTE): void {
+		for (let i = 1; i <= text.size(); i++) {
+			this.putChar(string.byte(text, i)[0], attribute);
+		}
+	}
+
+	/**
+	 * Get the character and attribute of a cell
+	 */
+	getCell(column: number, row: number): [Byte, Byte] {
+		const index = (row * TextConsole.COLUMNS + column) * 2;
+		return [this.buffer[index], this.buffer[index + 1]];
+	}
+
+	/**
+	 * Get a row as text with trailing blanks removed
+	 */
+	getLine(row: number): string {
+		const chars: string[] = [];
+		for (let column = 0; column < TextConsole.COLUMNS; column++) {
+			const [char] = this.getCell(column, row);
+			chars.push(char >= 0x20 && char < 0x7f ? string.char(char) : " ");
+		}
+
+		let line = chars.join("");
+		while (line.size() > 0 && line.sub(-1) === " ") {
+			line = line.sub(1, -2);
+		}
+		return line;
+	}
+
+	/**
+	 * Get the whole screen as text, one line per row (for headless inspection)
+	 */
+	getText(): string {
+		const lines: string[] = [];
+		for (let row = 0; row < TextConsole.ROWS; row++) {
+			lines.push(this.getLine(row));
+		}
+		return lines.join("\n");
+	}
+
+	/**
+	 * Get the cursor as [column, row]
+	 */
+	getCursorPosition(): [number, number] {
+		const location =
+			(this.crtcRegisters[TextConsole.CURSOR_LOCATION_HIGH] << 8) |
+			this.crtcRegisters[TextConsole.CURSOR_LOCATION_LOW];
+		const clamped = math.min(location, TextConsole.COLUMNS * TextConsole.ROWS - 1);
+		return [clamped % TextConsole.COLUMNS, math.floor(clamped / TextConsole.COLUMNS)];
+	}
+
+	/**
+	 * Move the cursor (updates the CRTC location registers like a BIOS would)
+	 */
+	setCursorPosition(column: number, row: number): void {
+		const location = row * TextConsole.COLUMNS + column;
+		this.crtcRegisters[TextConsole.CURSOR_LOCATION_HIGH] = (location >> 8) & 0xff;
+		this.crtcRegisters[TextConsole.CURSOR_LOCATION_LOW] = location & 0xff;
+		this.revision++;
+	}
+
+	isCursorVisible(): boolean {
+		return (this.crtcRegisters[TextConsole.CURSOR_START] & 0x20) === 0;
+	}
+
+	/**
+	 * Change counter for views (increments on every framebuffer or cursor update)
+	 */
+	getRevision(): number {
+		return this.revision;
+	}
+
+	/**
+	 * Move every row up by one and blank the last row
+	 */
+	private scroll(): void {
+		const rowBytes = TextConsole.COLUMNS * 2;
+		for (let i = 0; i < TextConsole.FRAMEBUFFER_SIZE - rowBytes; i++) {
+			this.buffer[i] = this.buffer[i + rowBytes];
+		}
+		for (let i = TextConsole.FRAMEBUFFER_SIZE - rowBytes; i < TextConsole.FRAMEBUFFER_SIZE; i += 2) {
+			this.buffer[i] = 0x20;
+			this.buffer[i + 1] = TextConsole.DEFAULT_ATTRIBUTE;
+		}
+	}
+}
@@ -0,0 +1,37 @@
+/**
+ * Device Type Definitions
+ * Shared interfaces for peripherals attached to the CPU
+ */
+
+// Devices that advance with emulated time (driven by CPU cycles, never wall-clock)
+export interface ClockedDevice {
+	tick(cycles: number): void;
+}
+
+// Asserts an interrupt request line (IRQ0 = timer, IRQ1 = keyboard, ...)
+export type IRQCallback = (line: number) => void;
+
+// Devices reachable through IN/OUT; size is the access width in bytes (1, 2 or 4)
+export interface PortDevice {
+	readPort(port: number, size: number): number;
+	writePort(port: number, value: number, size: number): void;
+}
+
+// Devices mapped onto a physical address range; offsets are relative to the region base
+export interface MemoryMappedDevice {
+	readMemory(offset: number, size: number): number;
+	writeMemory(offset: number, value: number, size: number): void;
+}
+
+// Devices that deliver typed characters to host services; undefined when nothing is waiting
+export interface CharacterSource {
+	readCharacter(): number | undefined;
+}
+
+// Arbitrates IRQ lines and hands the CPU one vector at a time (the INTA cycle)
+export interface InterruptController {
+	raiseIRQ(line: number): void;
+	hasPendingInterrupt(): boolean;
+	acknowledge(): number | undefined;
+	isIRQVector(vector: number): boolean; // whether the vector is currently assigned to an IRQ line
+}
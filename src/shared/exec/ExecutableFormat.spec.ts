@@ -0,0 +1,91 @@
+/// <reference types="@rbxts/testez/globals" />
+import { decodeExecutable, encodeExecutable } from "./ExecutableFormat";
+import { linkProgram } from "./Linker";
+import { Executable, RXE_HEADER_SIZE } from "./types";
+
+function sample(): Executable {
+	const result = linkProgram({
+		text: "_start:\nMOV EAX, [value]\nHLT",
+		data: "value DD 0x1234",
+		bss: "buffer RESB 32",
+		base: 0x10000,
+		stackSize: 0x3000,
+	});
+	if (!result.executable) {
+		throw result.errors[0]?.message ?? "link failed";
+	}
+	return result.executable;
+}
+
+function describeSymbols(symbols: Map<string, number>): string {
+	const entries: string[] = [];
+	symbols.forEach((address, name) => entries.push(`${name}=${address}`));
+	entries.sort();
+	return entries.join(",");
+}
+
+function prefix(bytes: number[], size: number): number[] {
+	const result: number[] = [];
+	for (let i = 0; i < size; i++) {
+		result.push(bytes[i]);
+	}
+	return result;
+}
+
+export = () => {
+	it("should round-trip a linked executable", () => {
+		const executable = sample();
+		const decoded = decodeExecutable(encodeExecutable(executable));
+
+		expect(decoded.base).to.equal(0x10000);
+		expect(decoded.entry).to.equal(executable.entry);
+		expect(decoded.stackSize).to.equal(0x3000);
+		expect(decoded.relocations.join(",")).to.equal(executable.relocations.join(","));
+		expect(describeSymbols(decoded.symbols)).to.equal(describeSymbols(executable.symbols));
+		expect(decoded.sections.size()).to.equal(3);
+		for (let i = 0; i < 3; i++) {
+			const [original, copy] = [executable.sections[i], decoded.sections[i]];
+			expect(copy.kind).to.equal(original.kind);
+			expect(copy.writable).to.equal(original.writable);
+			expect(copy.address).to.equal(original.address);
+			expect(copy.size).to.equal(original.size);
+			expect(copy.data.join(",")).to.equal(original.data.join(","));
+		}
+	});
+
+	it("should encode the same bytes whatever order the symbols were added in", () => {
+		const executable = sample();
+		const reversed = new Map<string, number>();
+		const names: string[] = [];
+		executable.symbols.forEach((_, name) => names.push(name));
+		for (let i = names.size() - 1; i >= 0; i--) {
+			reversed.set(names[i], executable.symbols.get(names[i])!);
+		}
+
+		const bytes = encodeExecutable(executable);
+		expect(encodeExecutable({ ...executable, symbols: reversed }).join(",")).to.equal(bytes.join(","));
+	});
+
+	it("should reject malformed images", () => {
+		const bytes = encodeExecutable(sample());
+		const corrupt = (offset: number, value: number) => {
+			const copy = [...bytes];
+			copy[offset] = value;
+			return copy;
+		};
+
+		expect(() => decodeExecutable(corrupt(0, 0))).to.throw("bad magic");
+		expect(() => decodeExecutable(corrupt(4, 2))).to.throw("Unsupported RXE version 2");
+		expect(() => decodeExecutable(corrupt(RXE_HEADER_SIZE, 9))).to.throw("Section 0 has unknown kind 9");
+		expect(() => decodeExecutable(prefix(bytes, RXE_HEADER_SIZE + 4))).to.throw("Unexpected end of executable");
+		expect(() => decodeExecutable(prefix(bytes, bytes.size() - 1))).to.throw(
+			"Section 1 extends past the end of the file",
+		);
+	});
+
+	it("should refuse symbol names longer than 255 characters", () => {
+		const executable = sample();
+		executable.symbols.set(string.rep("x", 256), 0);
+		expect(() => encodeExecutable(executable)).to.throw("Symbol name too long");
+	});
+};
@@ -0,0 +1,172 @@
+import {
+	Executable,
+	ExecutableSection,
+	RXE_HEADER_SIZE,
+	RXE_MAGIC,
+	RXE_SECTION_ENTRY_SIZE,
+	RXE_VERSION,
+	SECTION_WRITABLE,
+	SectionKind,
+} from "./types";
+
+/**
+ * Serialize an executable into RXE bytes (see exec/types.ts for the layout)
+ */
+export function encodeExecutable(executable: Executable): number[] {
+	const header: number[] = [];
+	pushU32(header, RXE_MAGIC);
+	pushU16(header, RXE_VERSION);
+	pushU16(header, executable.sections.size());
+	pushU32(header, executable.base);
+	pushU32(header, executable.entry);
+	pushU32(header, executable.stackSize);
+	pushU32(header, executable.symbols.size());
+	pushU32(header, executable.relocations.size());
+	pushU32(header, 0);
+
+	// symbols sorted by address so the output does not depend on map ordering
+	const symbolTable: number[] = [];
+	const symbols: Array<[string, number]> = [];
+	executable.symbols.forEach((address, name) => symbols.push([name, address]));
+	symbols.sort((a, b) => (a[1] === b[1] ? a[0] < b[0] : a[1] < b[1]));
+	for (const [name, address] of symbols) {
+		if (name.size() > 0xff) {
+			throw `Symbol name too long: ${name}`;
+		}
+		pushU32(symbolTable, address);
+		symbolTable.push(name.size());
+		for (let i = 1; i <= name.size(); i++) {
+			symbolTable.push(string.byte(name, i)[0]);
+		}
+	}
+
+	const relocationTable: number[] = [];
+	for (const offset of executable.relocations) {
+		pushU32(relocationTable, offset);
+	}
+
+	// contents follow every table
+	let fileOffset =
+		RXE_HEADER_SIZE +
+		executable.sections.size() * RXE_SECTION_ENTRY_SIZE +
+		symbolTable.size() +
+		relocationTable.size();
+	const sectionTable: number[] = [];
+	for (const section of executable.sections) {
+		sectionTable.push(section.kind, section.writable ? SECTION_WRITABLE : 0);
+		pushU16(sectionTable, 0);
+		pushU32(sectionTable, section.address);
+		pushU32(sectionTable, section.size);
+		pushU32(sectionTable, section.kind === SectionKind.BSS ? 0 : fileOffset);
+		if (section.kind !== SectionKind.BSS) {
+			fileOffset += section.data.size();
+		}
+	}
+
+	const bytes = [...header, ...sectionTable, ...symbolTable, ...relocationTable];
+	for (const section of executable.sections) {
+		if (section.kind === SectionKind.BSS) continue;
+		for (const value of section.data) {
+			bytes.push(value);
+		}
+	}
+	return bytes;
+}
+
+/**
+ * Parse RXE bytes, throwing on malformed images
+ */
+export function decodeExecutable(bytes: ReadonlyArray<number>): Executable {
+	const reader = new ByteReader(bytes);
+	if (reader.u32() !== RXE_MAGIC) {
+		throw "Not an RXE executable (bad magic)";
+	}
+	const version = reader.u16();
+	if (version !== RXE_VERSION) {
+		throw `Unsupported RXE version ${version}`;
+	}
+
+	const sectionCount = reader.u16();
+	const base = reader.u32();
+	const entry = reader.u32();
+	const stackSize = reader.u32();
+	const symbolCount = reader.u32();
+	const relocationCount = reader.u32();
+	reader.u32(); // reserved
+
+	const sections: ExecutableSection[] = [];
+	for (let i = 0; i < sectionCount; i++) {
+		const kind = reader.u8();
+		if (kind !== SectionKind.TEXT && kind !== SectionKind.DATA && kind !== SectionKind.BSS) {
+			throw `Section ${i} has unknown kind ${kind}`;
+		}
+		const flags = reader.u8();
+		reader.u16(); // reserved
+		const address = reader.u32();
+		const size = reader.u32();
+		const fileOffset = reader.u32();
+
+		const data: number[] = [];
+		if (kind !== SectionKind.BSS) {
+			for (let j = 0; j < size; j++) {
+				const value = bytes[fileOffset + j];
+				if (value === undefined) {
+					throw `Section ${i} extends past the end of the file`;
+				}
+				data.push(value);
+			}
+		}
+		sections.push({ kind, writable: (flags & SECTION_WRITABLE) !== 0, address, size, data });
+	}
+
+	const symbols = new Map<string, number>();
+	for (let i = 0; i < symbolCount; i++) {
+		const address = reader.u32();
+		const length = reader.u8();
+		const chars: string[] = [];
+		for (let j = 0; j < length; j++) {
+			chars.push(string.char(reader.u8()));
+		}
+		symbols.set(chars.join(""), address);
+	}
+
+	const relocations: number[] = [];
+	for (let i = 0; i < relocationCount; i++) {
+		relocations.push(reader.u32());
+	}
+
+	return { base, entry, stackSize, sections, symbols, relocations };
+}
+
+// internal types
+class ByteReader {
+	private position = 0;
+
+	constructor(private readonly bytes: ReadonlyArray<number>) {}
+
+	u8(): number {
+		const value = this.bytes[this.position];
+		if (value === undefined) {
+			throw `Unexpected end of executable at offset ${this.position}`;
+		}
+		this.position++;
+		return value;
+	}
+
+	u16(): number {
+		return this.u8() | (this.u8() << 8);
+	}
+
+	u32(): number {
+		return (this.u16() | (this.u16() << 16)) >>> 0;
+	}
+}
+
+function pushU16(bytes: number[], value: number): void {
+	bytes.push(value & 0xff, (value >> 8) & 0xff);
+}
+
+function pushU32(bytes: number[], value: number): void {
+	pushU16(bytes, value & 0xffff);
+	pushU16(bytes, (value >>> 16) & 0xffff);
+}
@@ -0,0 +1,130 @@
+/// <reference types="@rbxts/testez/globals" />
+import { linkProgram } from "./Linker";
+import { SectionKind } from "./types";
+
+const BASE = 0x10000;
+
+function readU32(bytes: number[], offset: number): number {
+	return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+export = () => {
+	describe("sections", () => {
+		it("should place text, data and bss on their own pages", () => {
+			const { executable } = linkProgram({
+				text: "_start:\nMOV EAX, [value]\nJMP _start",
+				data: "value DD 7",
+				bss: "buffer RESB 16",
+				base: BASE,
+			});
+			expect(executable).to.be.ok();
+			const layout = executable!.sections.map(
+				(section) => `${section.kind}:${string.format("%X", section.address)}/${section.size}`,
+			);
+			expect(layout.join(",")).to.equal(
+				`${SectionKind.TEXT}:0/${executable!.sections[0].size},${SectionKind.DATA}:1000/4,${SectionKind.BSS}:2000/16`,
+			);
+			expect(executable!.sections[0].writable).to.equal(false);
+			expect(executable!.sections[1].writable).to.equal(true);
+			expect(executable!.sections[1].data.join(",")).to.equal("7,0,0,0");
+			expect(executable!.sections[2].data.size()).to.equal(0);
+		});
+
+		it("should drop empty sections", () => {
+			const { executable } = linkProgram({ text: "_start:\nHLT", base: BASE });
+			expect(executable!.sections.size()).to.equal(1);
+			expect(executable!.sections[0].kind).to.equal(SectionKind.TEXT);
+		});
+	});
+
+	describe("symbols", () => {
+		it("should record labels relative to the base and start at _start by default", () => {
+			const { executable } = linkProgram({
+				text: "NOP\n_start:\nHLT",
+				data: "value DD 7",
+				base: BASE,
+			});
+			expect(executable!.entry).to.equal(1);
+			expect(executable!.symbols.get("_start")).to.equal(1);
+			expect(executable!.symbols.get("value")).to.equal(0x1000);
+			expect(executable!.symbols.has("__rxe_bss")).to.equal(false);
+		});
+
+		it("should use the named entry point or fall back to the start of text", () => {
+			expect(linkProgram({ text: "NOP\nmain:\nHLT", entry: "main" }).executable!.entry).to.equal(1);
+			expect(linkProgram({ text: "NOP\nHLT" }).executable!.entry).to.equal(0);
+		});
+	});
+
+	describe("relocations", () => {
+		it("should list the offsets of absolute references and nothing else", () => {
+			const { executable } = linkProgram({
+				text: "_start:\nMOV EAX, [value]\nJMP _start\nMOV EBX, 5",
+				data: "value DD 7\npointer DD value",
+				base: BASE,
+			});
+			const relocations = executable!.relocations;
+			expect(relocations.size()).to.equal(2);
+
+			const text = executable!.sections[0].data;
+			expect(readU32(text, relocations[0])).to.equal(BASE + 0x1000);
+			expect(relocations[1]).to.equal(0x1004);
+			expect(readU32(executable!.sections[1].data, 4)).to.equal(BASE + 0x1000);
+		});
+	});
+
+	describe("errors", () => {
+		it("should report assembly errors against the section and line they came from", () => {
+			const { executable, errors } = linkProgram({ text: "_start:\nHLT", data: "value DD 1\nBOGUS 3" });
+			expect(executable).never.to.be.ok();
+			expect(errors.size()).to.equal(1);
+			expect(errors[0].section).to.equal(SectionKind.DATA);
+			expect(errors[0].line).to.equal(2);
+		});
+
+		it("should report bss lines that emit bytes", () => {
+			const { executable, errors } = linkProgram({ text: "_start:\nHLT", bss: "buffer RESB 4\nflag DB 1, 2" });
+			expect(executable).never.to.be.ok();
+			expect(errors.size()).to.equal(1);
+			expect(errors[0].section).to.equal(SectionKind.BSS);
+			expect(errors[0].line).to.equal(2);
+			expect(errors[0].message).to.equal("The bss section may only reserve space (RESB) and define labels");
+		});
+
+		it("should report a named entry point that is not defined", () => {
+			const { executable, errors } = linkProgram({ text: "_start:\nHLT", entry: "main" });
+			expect(executable).never.to.be.ok();
+			expect(errors[0].message).to.equal("Entry point main is not defined");
+			expect(errors[0].section).to.equal(SectionKind.TEXT);
+			expect(errors[0].line).to.equal(0);
+		});
+
+		it("should report references that are not 32-bit absolute addresses", () => {
+			const { executable, errors } = linkProgram({ text: "_start:\nJMP 0x5000", base: BASE });
+			expect(executable).never.to.be.ok();
+			expect(errors.size()).to.equal(1);
+			expect(errors[0].section).to.equal(SectionKind.TEXT);
+			expect(errors[0].line).to.equal(2);
+			expect(errors[0].message).to.equal(
+				"Reference near offset 0x2 is not a 32-bit absolute address and cannot be relocated",
+			);
+		});
+
+		it("should report references that only fit their field at the link base", () => {
+			const { executable, errors } = linkProgram({
+				text: "_start:\nHLT",
+				data: "value DD 0\nshort DW value",
+				base: 0,
+			});
+			expect(executable).never.to.be.ok();
+			expect(errors.size()).to.equal(1);
+			expect(errors[0].section).to.equal(SectionKind.DATA);
+			expect(errors[0].line).to.equal(2);
+			expect(errors[0].message).to.equal("Value 269492224 does not fit in 16 bits once relocated");
+		});
+
+		it("should reject a link base that is not page aligned", () => {
+			expect(() => linkProgram({ text: "HLT", base: 0x10010 })).to.throw("must be page aligned");
+		});
+	});
+};
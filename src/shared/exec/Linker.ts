@@ -0,0 +1,211 @@
+import { Assembler, AssemblyError } from "../cpu/Assembler";
+import { PAGE_SIZE } from "../cpu/types";
+import { Executable, ExecutableSection, SectionKind } from "./types";
+
+// second link address used to find absolute references; the low byte of every field stays put
+// while the next byte always changes, so a differing run pins down where each field starts
+const RELOCATION_PROBE_DELTA = 0x10101000;
+
+// labels that mark the section boundaries in the combined source
+const TEXT_END_MARKER = "__rxe_text_end";
+const DATA_MARKER = "__rxe_data";
+const DATA_END_MARKER = "__rxe_data_end";
+const BSS_MARKER = "__rxe_bss";
+const END_MARKER = "__rxe_end";
+const MARKERS = new Set([TEXT_END_MARKER, DATA_MARKER, DATA_END_MARKER, BSS_MARKER, END_MARKER]);
+
+export const DEFAULT_LINK_BASE = 0x400000;
+export const DEFAULT_STACK_SIZE = 0x2000;
+
+/**
+ * Assemble a program's text, data and bss sources into a relocatable executable; sections start
+ * on page boundaries so the loader can give each its own permissions
+ */
+export function linkProgram(options: LinkOptions): LinkResult {
+	const base = options.base ?? DEFAULT_LINK_BASE;
+	if (base % PAGE_SIZE !== 0) {
+		throw `Link base 0x${string.format("%X", base)} must be page aligned`;
+	}
+
+	const parts: Array<[SectionKind, string]> = [
+		[SectionKind.TEXT, `${options.text}\n${TEXT_END_MARKER}:`],
+		[SectionKind.DATA, `ALIGN ${PAGE_SIZE}\n${DATA_MARKER}:\n${options.data ?? ""}\n${DATA_END_MARKER}:`],
+		[SectionKind.BSS, `ALIGN ${PAGE_SIZE}\n${BSS_MARKER}:\n${options.bss ?? ""}\n${END_MARKER}:`],
+	];
+	const source = parts.map((part) => part[1]).join("\n");
+
+	const assembler = new Assembler();
+	const primary = assembler.assemble(source, base);
+	if (primary.errors.size() > 0) {
+		return { errors: primary.errors.map((problem) => attributeError(problem, parts)) };
+	}
+
+	const probeBase =
+		base + RELOCATION_PROBE_DELTA <= 0xffffffff ? base + RELOCATION_PROBE_DELTA : base - RELOCATION_PROBE_DELTA;
+	const probe = assembler.assemble(source, probeBase);
+	if (probe.errors.size() > 0) {
+		// a reference that only fits a field at the link base cannot be relocated either
+		return {
+			errors: probe.errors.map((problem) =>
+				attributeError({ ...problem, message: `${problem.message} once relocated` }, parts),
+			),
+		};
+	}
+
+	// one error per offending line, however many of its bytes are wrong
+	const errors: LinkError[] = [];
+	let reportedLine: number | undefined;
+	const reject = (offset: number, message: string) => {
+		const line = primary.lines[offset];
+		if (line !== reportedLine) {
+			reportedLine = line;
+			errors.push(attributeError({ line, column: 1, message }, parts));
+		}
+	};
+
+	const relocations = findRelocations(primary.bytes, probe.bytes, (probeBase - base) >>> 0, (offset) =>
+		reject(
+			offset,
+			`Reference near offset 0x${string.format("%X", offset)} is not a 32-bit absolute address and cannot be relocated`,
+		),
+	);
+
+	const textEnd = primary.labels.get(TEXT_END_MARKER)! - base;
+	const dataStart = primary.labels.get(DATA_MARKER)! - base;
+	const dataEnd = primary.labels.get(DATA_END_MARKER)! - base;
+	const bssStart = primary.labels.get(BSS_MARKER)! - base;
+	const imageEnd = primary.labels.get(END_MARKER)! - base;
+	for (let i = bssStart; i < imageEnd; i++) {
+		if (primary.bytes[i] !== 0) {
+			reject(i, "The bss section may only reserve space (RESB) and define labels");
+		}
+	}
+
+	const symbols = new Map<string, number>();
+	primary.labels.forEach((address, name) => {
+		if (!MARKERS.has(name)) {
+			symbols.set(name, address - base);
+		}
+	});
+
+	const entryName = options.entry ?? "_start";
+	const entry = symbols.get(entryName);
+	if (entry === undefined && options.entry !== undefined) {
+		errors.push({
+			line: 0,
+			column: 0,
+			message: `Entry point ${entryName} is not defined`,
+			section: SectionKind.TEXT,
+		});
+	}
+	if (errors.size() > 0) {
+		return { errors };
+	}
+
+	const slice = (first: number, last: number) => {
+		const data: number[] = [];
+		for (let i = first; i < last; i++) {
+			data.push(primary.bytes[i]);
+		}
+		return data;
+	};
+	const sections: ExecutableSection[] = [
+		{ kind: SectionKind.TEXT, writable: false, address: 0, size: textEnd, data: slice(0, textEnd) },
+		{
+			kind: SectionKind.DATA,
+			writable: true,
+			address: dataStart,
+			size: dataEnd - dataStart,
+			data: slice(dataStart, dataEnd),
+		},
+		{ kind: SectionKind.BSS, writable: true, address: bssStart, size: imageEnd - bssStart, data: [] },
+	];
+
+	return {
+		executable: {
+			base,
+			entry: entry ?? 0,
+			stackSize: options.stackSize ?? DEFAULT_STACK_SIZE,
+			sections: sections.filter((section) => section.size > 0),
+			symbols,
+			relocations,
+		},
+		errors: [],
+	};
+}
+
+/**
+ * Compare two assemblies of the same source at different origins and collect the offsets of the
+ * 32-bit fields that moved by exactly the origin difference, reporting any other difference
+ */
+function findRelocations(
+	primary: number[],
+	probe: number[],
+	delta: number,
+	onFailure: (offset: number) => void,
+): number[] {
+	const relocations: number[] = [];
+	let i = 0;
+	while (i < primary.size()) {
+		if (primary[i] === probe[i]) {
+			i++;
+			continue;
+		}
+
+		const offset = i - 1;
+		const difference = (readU32(probe, offset) - readU32(primary, offset)) >>> 0;
+		if (offset < 0 || difference !== delta) {
+			onFailure(i);
+			i++;
+			continue;
+		}
+		relocations.push(offset);
+		i = offset + 4;
+	}
+	return relocations;
+}
+
+/**
+ * Map an error in the combined source back to the line of the section it came from
+ */
+function attributeError(problem: AssemblyError, parts: Array<[SectionKind, string]>): LinkError {
+	let line = problem.line;
+	for (const [section, source] of parts) {
+		const lineCount = source.split("\n").size();
+		if (line <= lineCount) {
+			// the data and bss parts start with two generated lines
+			return { ...problem, line: section === SectionKind.TEXT ? line : line - 2, section };
+		}
+		line -= lineCount;
+	}
+	return { ...problem, section: SectionKind.BSS };
+}
+
+function readU32(bytes: number[], offset: number): number {
+	return (
+		((bytes[offset] ?? 0) |
+			((bytes[offset + 1] ?? 0) << 8) |
+			((bytes[offset + 2] ?? 0) << 16) |
+			((bytes[offset + 3] ?? 0) << 24)) >>>
+		0
+	);
+}
+
+// public types
+export interface LinkOptions {
+	text: string;
+	data?: string;
+	bss?: string; // RESB reservations and labels only
+	base?: number; // page aligned link address, defaults to DEFAULT_LINK_BASE
+	entry?: string; // entry label, defaults to _start or the start of text
+	stackSize?: number;
+}
+
+export interface LinkError extends AssemblyError {
+	section: SectionKind; // line is relative to this section's source, 0 when no line is to blame
+}
+
+export interface LinkResult {
+	executable?: Executable;
+	errors: LinkError[];
+}
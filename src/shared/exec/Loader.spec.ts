@@ -0,0 +1,109 @@
+/// <reference types="@rbxts/testez/globals" />
+import { CPU } from "../cpu/CPU";
+import { linkProgram } from "./Linker";
+import { loadExecutable, lookupSymbol } from "./Loader";
+import { Executable } from "./types";
+
+const LINK_BASE = 0x10000;
+const MEMORY_SIZE = 0x10000;
+
+function link(text: string, data?: string, bss?: string): Executable {
+	const result = linkProgram({ text, data, bss, base: LINK_BASE, stackSize: 0x1800 });
+	if (!result.executable) {
+		throw result.errors[0]?.message ?? "link failed";
+	}
+	return result.executable;
+}
+
+function run(cpu: CPU, steps: number): void {
+	for (let i = 0; i < steps && !cpu.isHalted(); i++) {
+		cpu.step();
+	}
+}
+
+const PROGRAM = link(
+	`_start:
+	MOV EAX, [value]
+	MOV EBX, [buffer]
+	main:
+	HLT`,
+	"value DD 0x1234",
+	"buffer RESB 8",
+);
+
+export = () => {
+	describe("loadExecutable", () => {
+		it("should copy the sections, zero bss and start at the entry point with a stack above the image", () => {
+			const cpu = new CPU(MEMORY_SIZE);
+			const mmu = cpu.getMMU();
+			for (let i = 0; i < 8; i++) {
+				mmu.writeByte(LINK_BASE + 0x2000 + i, 0xcc);
+			}
+
+			const program = loadExecutable(cpu, PROGRAM);
+			expect(program.base).to.equal(LINK_BASE);
+			expect(program.entry).to.equal(LINK_BASE);
+			expect(program.stackBase).to.equal(LINK_BASE + 0x3000);
+			expect(program.stackTop).to.equal(LINK_BASE + 0x5000);
+			expect(program.symbols.get("value")).to.equal(LINK_BASE + 0x1000);
+			expect(cpu.getState().instructionPointer.EIP).to.equal(LINK_BASE);
+			expect(cpu.getRegister("ESP")).to.equal(LINK_BASE + 0x5000);
+
+			run(cpu, 10);
+			expect(cpu.isHalted()).to.equal(true);
+			expect(cpu.getRegister("EAX")).to.equal(0x1234);
+			expect(cpu.getRegister("EBX")).to.equal(0);
+		});
+
+		it("should apply the relocations when loaded away from the link base", () => {
+			const cpu = new CPU(MEMORY_SIZE);
+			const program = loadExecutable(cpu, PROGRAM, { base: 0x20000 });
+			expect(program.entry).to.equal(0x20000);
+			expect(program.symbols.get("buffer")).to.equal(0x22000);
+
+			run(cpu, 10);
+			expect(cpu.isHalted()).to.equal(true);
+			expect(cpu.getRegister("EAX")).to.equal(0x1234);
+		});
+
+		it("should leave text read-only and data writable for user mode", () => {
+			const cpu = new CPU(MEMORY_SIZE);
+			const mmu = cpu.getMMU();
+			loadExecutable(cpu, PROGRAM, { userMode: true });
+
+			mmu.setPrivilegeLevel(3);
+			mmu.writeByte(LINK_BASE + 0x1000, 0x55);
+			mmu.writeByte(LINK_BASE + 0x2000, 0x66);
+			expect(() => mmu.writeByte(LINK_BASE, 0x90)).to.throw();
+			mmu.setPrivilegeLevel(0);
+			expect(mmu.readByte(LINK_BASE + 0x1000)).to.equal(0x55);
+		});
+
+		it("should reload over an earlier read-only image", () => {
+			const cpu = new CPU(MEMORY_SIZE);
+			loadExecutable(cpu, PROGRAM, { userMode: true });
+			loadExecutable(cpu, link("_start:\nMOV EAX, 7\nHLT"), { userMode: true });
+
+			run(cpu, 10);
+			expect(cpu.getRegister("EAX")).to.equal(7);
+		});
+
+		it("should reject a load address that is not page aligned", () => {
+			expect(() => loadExecutable(new CPU(MEMORY_SIZE), PROGRAM, { base: 0x20010 })).to.throw(
+				"must be page aligned",
+			);
+		});
+	});
+
+	describe("lookupSymbol", () => {
+		it("should name the nearest symbol at or below an address inside the program", () => {
+			const program = loadExecutable(new CPU(MEMORY_SIZE), PROGRAM, { base: 0x20000 });
+			const main = program.symbols.get("main")!;
+			expect(lookupSymbol(program, main)).to.equal("main");
+			expect(lookupSymbol(program, main + 0x10)).to.equal("main+0x10");
+			expect(lookupSymbol(program, 0x21002)).to.equal("value+0x2");
+			expect(lookupSymbol(program, 0x1ffff)).never.to.be.ok();
+			expect(lookupSymbol(program, program.stackTop)).never.to.be.ok();
+		});
+	});
+};
@@ -0,0 +1,99 @@
+import { CPU } from "../cpu/CPU";
+import { PAGE_SIZE } from "../cpu/types";
+import { Executable, SectionKind } from "./types";
+
+/**
+ * Load an executable at a page-aligned address (its link base by default): copy the sections,
+ * apply relocations, pin and protect the pages (text read-only, data and bss writable), allocate
+ * a stack above the image and point EIP/ESP at the entry point and stack top. With paging on the
+ * pages are mapped and protected in the page tables under CR3
+ */
+export function loadExecutable(cpu: CPU, executable: Executable, options: LoadOptions = {}): LoadedProgram {
+	const base = options.base ?? executable.base;
+	if (base % PAGE_SIZE !== 0) {
+		throw `Load address 0x${string.format("%X", base)} must be page aligned`;
+	}
+	const userMode = options.userMode ?? false;
+	const mmu = cpu.getMMU();
+
+	let imageEnd = 0;
+	for (const section of executable.sections) {
+		imageEnd = math.max(imageEnd, section.address + section.size);
+	}
+	const stackBase = base + pageAlign(imageEnd);
+	const stackTop = stackBase + pageAlign(executable.stackSize);
+
+	// map and open up every page first so a reload over an earlier read-only image succeeds
+	for (let page = base; page < stackTop; page += PAGE_SIZE) {
+		mmu.protectPage(page);
+		mmu.mapPage(page, true, userMode);
+	}
+
+	for (const section of executable.sections) {
+		const start = base + section.address;
+		for (let i = 0; i < section.size; i++) {
+			mmu.writeByte(start + i, section.kind === SectionKind.BSS ? 0 : (section.data[i] ?? 0));
+		}
+	}
+
+	const delta = (base - executable.base) >>> 0;
+	if (delta !== 0) {
+		for (const offset of executable.relocations) {
+			mmu.writeDWord(base + offset, (mmu.readDWord(base + offset) + delta) >>> 0);
+		}
+	}
+
+	for (const section of executable.sections) {
+		const first = base + section.address - (section.address % PAGE_SIZE);
+		for (let page = first; page < base + section.address + section.size; page += PAGE_SIZE) {
+			mmu.setPagePermissions(page, section.writable, userMode);
+		}
+	}
+
+	const symbols = new Map<string, number>();
+	executable.symbols.forEach((address, name) => symbols.set(name, base + address));
+
+	const entry = base + executable.entry;
+	cpu.setInstructionPointer(entry);
+	cpu.setRegister("ESP", stackTop);
+
+	return { base, entry, stackBase, stackTop, symbols };
+}
+
+/**
+ * Describe an address as the nearest symbol at or below it, e.g. "main+0x12"
+ */
+export function lookupSymbol(program: LoadedProgram, address: number): string | undefined {
+	if (address < program.base || address >= program.stackTop) return undefined;
+
+	let bestName: string | undefined;
+	let bestAddress = -1;
+	program.symbols.forEach((symbolAddress, name) => {
+		if (symbolAddress <= address && symbolAddress > bestAddress) {
+			bestName = name;
+			bestAddress = symbolAddress;
+		}
+	});
+
+	if (bestName === undefined) return undefined;
+	const offset = address - bestAddress;
+	return offset === 0 ? bestName : `${bestName}+0x${string.format("%X", offset)}`;
+}
+
+function pageAlign(size: number): number {
+	return math.ceil(size / PAGE_SIZE) * PAGE_SIZE;
+}
+
+// public types
+export interface LoadOptions {
+	base?: number; // page aligned load address, defaults to the link base
+	userMode?: boolean; // make the pages accessible from ring 3
+}
+
+export interface LoadedProgram {
+	base: number;
+	entry: number;
+	stackBase: number; // lowest address of the stack
+	stackTop: number; // initial ESP
+	symbols: Map<string, number>; // name -> absolute address
+}
@@ -0,0 +1,56 @@
+/**
+ * Executable Type Definitions
+ * RXE, the guest executable format (all values little-endian, addresses relative to the link base):
+ *
+ *   header (32 bytes)
+ *     0  u32  magic "RXE1"
+ *     4  u16  version (1)
+ *     6  u16  number of sections
+ *     8  u32  link base (address the image was assembled for)
+ *     12 u32  entry point
+ *     16 u32  stack size in bytes
+ *     20 u32  number of symbols
+ *     24 u32  number of relocations
+ *     28 u32  reserved (0)
+ *   section table, 16 bytes per section
+ *     0  u8   kind (1 text, 2 data, 3 bss)
+ *     1  u8   flags (bit 0 writable)
+ *     2  u16  reserved (0)
+ *     4  u32  address
+ *     8  u32  size in memory
+ *     12 u32  file offset of the contents (0 for bss, which is zero filled)
+ *   symbol table: u32 address, u8 name length, name bytes
+ *   relocation table: u32 address of each 32-bit field that holds an absolute address
+ *   section contents
+ */
+
+export const RXE_MAGIC = 0x31455852; // "RXE1" read as a little-endian u32
+export const RXE_VERSION = 1;
+export const RXE_HEADER_SIZE = 32;
+export const RXE_SECTION_ENTRY_SIZE = 16;
+export const SECTION_WRITABLE = 0x01;
+
+export enum SectionKind {
+	TEXT = 1,
+	DATA = 2,
+	BSS = 3,
+}
+
+// A section of a linked image
+export interface ExecutableSection {
+	kind: SectionKind;
+	writable: boolean;
+	address: number; // relative to the link base
+	size: number; // bytes in memory
+	data: number[]; // file contents; empty for bss
+}
+
+// A linked program ready to be serialized or loaded
+export interface Executable {
+	base: number; // link base
+	entry: number; // relative to the link base
+	stackSize: number;
+	sections: ExecutableSection[];
+	symbols: Map<string, number>; // name -> address relative to the link base
+	relocations: number[]; // addresses of 32-bit absolute references, relative to the link base
+}
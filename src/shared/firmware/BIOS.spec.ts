@@ -0,0 +1,98 @@
+/// <reference types="@rbxts/testez/globals" />
+import { Assembler } from "../cpu/Assembler";
+import { CPU } from "../cpu/CPU";
+import { IRQ_BASE_VECTOR, RESET_VECTOR } from "../cpu/types";
+import { PIC } from "../devices/PIC";
+import { TextConsole } from "../devices/TextConsole";
+import { DiskImageBuilder } from "../fs/DiskImageBuilder";
+import { DOSServices } from "../hle/DOSServices";
+import { MemoryBlockStore } from "../storage/MemoryBlockStore";
+import { SECTOR_SIZE, BlockStore } from "../storage/types";
+import { BIOS } from "./BIOS";
+
+const BOOT_SECTOR = `
+	MOV ESI, EDX
+	MOV EDX, banner
+	MOV EAX, 0x0900
+	INT 0x21
+	MOV EAX, 0x4C00
+	INT 0x21
+banner:
+	DB "booted", 13, 10, "$"
+`;
+
+/**
+ * A PC with the devices the POST programs, left dirty so the POST has something to clear
+ */
+function machine(disk?: BlockStore) {
+	const cpu = new CPU(0x10000);
+	const pic = new PIC();
+	cpu.attachInterruptController(pic);
+	cpu.getIOBus().register(pic, PIC.MASTER_COMMAND_PORT, PIC.MASTER_DATA_PORT, "pic master");
+	cpu.getIOBus().register(pic, PIC.SLAVE_COMMAND_PORT, PIC.SLAVE_DATA_PORT, "pic slave");
+
+	const console = new TextConsole();
+	console.write("garbage");
+	cpu.getMMU().mapDevice(console, TextConsole.FRAMEBUFFER_BASE, TextConsole.FRAMEBUFFER_SIZE, "console");
+	cpu.getIOBus().register(console, TextConsole.CRTC_INDEX_PORT, TextConsole.CRTC_DATA_PORT, "crtc");
+
+	new DOSServices(console).install(cpu);
+	new BIOS(disk, console).install(cpu);
+	return { cpu, console, pic };
+}
+
+function run(cpu: CPU): void {
+	for (let i = 0; i < 10000 && !cpu.isHalted(); i++) {
+		cpu.step();
+	}
+}
+
+export = () => {
+	it("should run the POST from the reset vector and boot a signed boot sector", () => {
+		const boot = new Assembler(BIOS.BOOT_ADDRESS).assemble(BOOT_SECTOR).bytes;
+		const { cpu, console, pic } = machine(new DiskImageBuilder(64).setBootSector(boot).build());
+		expect(cpu.getState().instructionPointer.EIP).to.equal(RESET_VECTOR);
+		run(cpu);
+
+		expect(cpu.getLastFault()).never.to.be.ok();
+		expect(console.getLine(0)).to.equal("booted");
+		expect(console.getCursorPosition()[1]).to.equal(1);
+		expect(cpu.getRegister("ESI")).to.equal(BIOS.BOOT_DRIVE);
+		expect(cpu.getMMU().readByte(BIOS.BOOT_ADDRESS + SECTOR_SIZE - 2)).to.equal(0x55);
+		expect(pic.isIRQVector(IRQ_BASE_VECTOR + 8)).to.equal(true);
+		expect(pic.getRegisters(0)[2]).to.equal(0);
+	});
+
+	it("should report a missing or unsigned boot sector and halt", () => {
+		const unsigned = new MemoryBlockStore(8);
+		unsigned.writeSector(0, new Assembler(BIOS.BOOT_ADDRESS).assemble(BOOT_SECTOR).bytes);
+
+		for (const disk of [undefined, new MemoryBlockStore(0), unsigned]) {
+			const { cpu, console } = machine(disk);
+			run(cpu);
+			expect(console.getLine(0)).to.equal("No bootable disk found");
+			expect(cpu.isHalted()).to.equal(true);
+			expect(cpu.getMMU().readByte(BIOS.BOOT_ADDRESS)).to.equal(0);
+		}
+	});
+
+	it("should map a read-only ROM with a jump to the POST at the reset vector", () => {
+		const { cpu } = machine();
+		const mmu = cpu.getMMU();
+		expect(mmu.readPhysical(RESET_VECTOR, 1)).to.equal(0xe9);
+		mmu.writePhysical(RESET_VECTOR, 0x90, 1);
+		expect(mmu.readPhysical(RESET_VECTOR, 1)).to.equal(0xe9);
+		expect(cpu.getDecoder().decodeInstruction(RESET_VECTOR).mnemonic).to.equal("JMP");
+	});
+
+	it("should boot again after a reset", () => {
+		const boot = new Assembler(BIOS.BOOT_ADDRESS).assemble(BOOT_SECTOR).bytes;
+		const { cpu, console } = machine(new DiskImageBuilder(64).setBootSector(boot).build());
+		run(cpu);
+		cpu.reset();
+		expect(cpu.isShutdown()).to.equal(false);
+		run(cpu);
+		expect(console.getLine(0)).to.equal("booted");
+		expect(console.getLine(1)).to.equal("");
+	});
+};
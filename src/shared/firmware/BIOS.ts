@@ -0,0 +1,143 @@
+import { Assembler } from "../cpu/Assembler";
+import { CPU } from "../cpu/CPU";
+import { IRQ_BASE_VECTOR, RESET_VECTOR } from "../cpu/types";
+import { MemoryMappedDevice } from "../devices/types";
+import { TextConsole } from "../devices/TextConsole";
+import { BlockStore, SECTOR_SIZE } from "../storage/types";
+
+// power-on self test: initialise the devices, then hand over to the INT 19h bootstrap
+const POST_SOURCE = `
+post:
+	CLI
+	MOV ESP, 0x7C00
+
+	; program the PIC pair for vectors IRQ_BASE_VECTOR/+8 with every line unmasked
+	MOV AL, 0x11
+	OUT 0x20, AL
+	OUT 0xA0, AL
+	MOV AL, ${IRQ_BASE_VECTOR}
+	OUT 0x21, AL
+	MOV AL, ${IRQ_BASE_VECTOR + 8}
+	OUT 0xA1, AL
+	MOV AL, 4
+	OUT 0x21, AL
+	MOV AL, 2
+	OUT 0xA1, AL
+	MOV AL, 1
+	OUT 0x21, AL
+	OUT 0xA1, AL
+	XOR EAX, EAX
+	OUT 0x21, AL
+	OUT 0xA1, AL
+
+	; blank the text screen (space, light grey on black)
+	MOV EDI, 0xB8000
+	MOV ECX, 1000
+	MOV EAX, 0x07200720
+clear_screen:
+	MOV [EDI], EAX
+	ADD EDI, 4
+	DEC ECX
+	JNZ clear_screen
+
+	; home the hardware cursor
+	MOV EDX, 0x3D4
+	MOV AL, 0x0E
+	OUT DX, AL
+	MOV EDX, 0x3D5
+	XOR EAX, EAX
+	OUT DX, AL
+	MOV EDX, 0x3D4
+	MOV AL, 0x0F
+	OUT DX, AL
+	MOV EDX, 0x3D5
+	XOR EAX, EAX
+	OUT DX, AL
+
+	; load the boot sector; INT 19h only returns when there is nothing to boot
+	INT 0x19
+no_boot:
+	HLT
+	JMP no_boot
+`;
+
+/**
+ * BIOS
+ * Firmware ROM mapped just below 4 GiB; the reset vector jumps to a POST routine that sets up
+ * the devices and calls the INT 19h bootstrap, which loads sector 0 of the boot disk to
+ * BOOT_ADDRESS and jumps to it when it carries the 0x55AA signature
+ */
+export class BIOS implements MemoryMappedDevice {
+	static readonly ROM_BASE = 0xffff0000;
+	static readonly ROM_SIZE = 0x10000;
+	static readonly BOOT_ADDRESS = 0x7c00;
+	static readonly BOOT_DRIVE = 0x80; // passed in DL like a PC BIOS
+	static readonly BOOTSTRAP_VECTOR = 0x19;
+
+	private rom: number[];
+	private bootDisk: BlockStore | undefined;
+	private console: TextConsole | undefined;
+
+	/**
+	 * @param bootDisk store whose first sector is booted
+	 * @param console receives the message printed when nothing is bootable
+	 */
+	constructor(bootDisk?: BlockStore, console?: TextConsole) {
+		this.bootDisk = bootDisk;
+		this.console = console;
+		this.rom = table.create(BIOS.ROM_SIZE, 0xff);
+
+		this.placeCode(BIOS.ROM_BASE, POST_SOURCE);
+		this.placeCode(RESET_VECTOR, `JMP 0x${string.format("%X", BIOS.ROM_BASE)}`);
+	}
+
+	/**
+	 * Map the ROM and register the bootstrap service
+	 */
+	install(cpu: CPU): void {
+		cpu.getMMU().mapDevice(this, BIOS.ROM_BASE, BIOS.ROM_SIZE, "BIOS ROM");
+		cpu.registerHLEHandler(BIOS.BOOTSTRAP_VECTOR, (target) => this.bootstrap(target));
+	}
+
+	readMemory(offset: number, size: number): number {
+		let value = 0;
+		for (let i = 0; i < size; i++) {
+			value |= (this.rom[offset + i] ?? 0xff) << (i * 8);
+		}
+		return value >>> 0;
+	}
+
+	writeMemory(): void {
+		// read-only
+	}
+
+	/**
+	 * INT 19h: load the boot sector and jump to it
+	 */
+	private bootstrap(cpu: CPU): void {
+		const sector = this.bootDisk && this.bootDisk.getSectorCount() > 0 ? this.bootDisk.readSector(0) : undefined;
+		if (!sector || sector[SECTOR_SIZE - 2] !== 0x55 || sector[SECTOR_SIZE - 1] !== 0xaa) {
+			this.console?.write("No bootable disk found\n");
+			return;
+		}
+
+		const mmu = cpu.getMMU();
+		sector.forEach((value, index) => mmu.writeByte(BIOS.BOOT_ADDRESS + index, value));
+		cpu.setRegister("EDX", BIOS.BOOT_DRIVE);
+		cpu.setInstructionPointer(BIOS.BOOT_ADDRESS);
+	}
+
+	/**
+	 * Assemble a routine into the ROM at an absolute address
+	 */
+	private placeCode(address: number, source: string): void {
+		const result = new Assembler(address).assemble(source);
+		if (result.errors.size() > 0) {
+			const first = result.errors[0];
+			throw `BIOS assembly failed at ${first.line}:${first.column}: ${first.message}`;
+		}
+
+		const offset = address - BIOS.ROM_BASE;
+		result.bytes.forEach((value, index) => (this.rom[offset + index] = value));
+	}
+}
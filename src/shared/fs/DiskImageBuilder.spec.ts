@@ -0,0 +1,38 @@
+/// <reference types="@rbxts/testez/globals" />
+import { SECTOR_SIZE } from "../storage/types";
+import { DiskImageBuilder } from "./DiskImageBuilder";
+import { FileSystem } from "./FileSystem";
+
+export = () => {
+	it("should write the boot code with the boot signature and the files behind it", () => {
+		const store = new DiskImageBuilder(64)
+			.setBootSector([0xfa, 0xf4])
+			.addFile("hello.txt", [0x48, 0x69])
+			.addFile("data.bin", [1, 2, 3])
+			.build();
+
+		const boot = store.readSector(0);
+		expect(boot[0]).to.equal(0xfa);
+		expect(boot[SECTOR_SIZE - 2]).to.equal(0x55);
+		expect(boot[SECTOR_SIZE - 1]).to.equal(0xaa);
+
+		const fileSystem = new FileSystem(store);
+		expect(fileSystem.listFiles().size()).to.equal(2);
+		expect(fileSystem.readFile("hello.txt").join(",")).to.equal("72,105");
+	});
+
+	it("should let a later file replace an earlier one with the same name", () => {
+		const store = new DiskImageBuilder(64).addFile("a", [1]).addFile("a", [2, 3]).build();
+		const fileSystem = new FileSystem(store);
+		expect(fileSystem.listFiles().size()).to.equal(1);
+		expect(fileSystem.readFile("a").join(",")).to.equal("2,3");
+	});
+
+	it("should leave the boot sector empty without boot code and reject code that does not fit", () => {
+		const store = new DiskImageBuilder(64).build();
+		expect(store.readSector(0)[SECTOR_SIZE - 2]).to.equal(0);
+		expect(() => new DiskImageBuilder().setBootSector(table.create(SECTOR_SIZE - 1, 0))).to.throw(
+			"the boot sector holds 510",
+		);
+	});
+};
@@ -0,0 +1,63 @@
+import { MemoryBlockStore } from "../storage/MemoryBlockStore";
+import { SECTOR_SIZE } from "../storage/types";
+import { FileSystem } from "./FileSystem";
+import { BOOT_SECTOR, BOOT_SIGNATURE } from "./types";
+
+/**
+ * Disk Image Builder
+ * Host tooling that lays out a RoFS image with an optional boot sector and a set of files
+ */
+export class DiskImageBuilder {
+	private sectorCount: number;
+	private directorySectors: number;
+	private bootCode: number[] | undefined;
+	private files: Array<[string, number[]]> = [];
+
+	/**
+	 * @param sectorCount image size in sectors (2880 = a 1.44 MB floppy)
+	 */
+	constructor(sectorCount: number = 2880, directorySectors: number = 4) {
+		this.sectorCount = sectorCount;
+		this.directorySectors = directorySectors;
+	}
+
+	/**
+	 * Place code in the boot sector; the signature is appended, so at most 510 bytes fit
+	 */
+	setBootSector(code: ReadonlyArray<number>): this {
+		if (code.size() > SECTOR_SIZE - 2) {
+			throw `Boot code is ${code.size()} bytes, the boot sector holds ${SECTOR_SIZE - 2}`;
+		}
+		this.bootCode = [...code];
+		return this;
+	}
+
+	/**
+	 * Add a file to the image (a later file with the same name replaces the earlier one)
+	 */
+	addFile(name: string, data: ReadonlyArray<number>): this {
+		this.files.push([name, [...data]]);
+		return this;
+	}
+
+	/**
+	 * Lay out the image in a new in-memory store
+	 */
+	build(): MemoryBlockStore {
+		const store = new MemoryBlockStore(this.sectorCount);
+
+		if (this.bootCode) {
+			const sector: number[] = table.create(SECTOR_SIZE, 0);
+			this.bootCode.forEach((value, index) => (sector[index] = value & 0xff));
+			sector[SECTOR_SIZE - 2] = BOOT_SIGNATURE & 0xff;
+			sector[SECTOR_SIZE - 1] = (BOOT_SIGNATURE >> 8) & 0xff;
+			store.writeSector(BOOT_SECTOR, sector);
+		}
+
+		const fileSystem = FileSystem.format(store, this.directorySectors);
+		for (const [name, data] of this.files) {
+			fileSystem.writeFile(name, data);
+		}
+		return store;
+	}
+}
@@ -0,0 +1,115 @@
+/// <reference types="@rbxts/testez/globals" />
+import { MemoryBlockStore } from "../storage/MemoryBlockStore";
+import { SECTOR_SIZE } from "../storage/types";
+import { FileSystem } from "./FileSystem";
+import { DIRECTORY_START } from "./types";
+
+function bytes(size: number, value: number): number[] {
+	const data: number[] = [];
+	for (let i = 0; i < size; i++) {
+		data.push((value + i) & 0xff);
+	}
+	return data;
+}
+
+function sameBytes(a: ReadonlyArray<number>, b: ReadonlyArray<number>): boolean {
+	if (a.size() !== b.size()) return false;
+	for (let i = 0; i < a.size(); i++) {
+		if (a[i] !== b[i]) return false;
+	}
+	return true;
+}
+
+export = () => {
+	describe("volume", () => {
+		it("should format a volume behind the boot sector and open it again", () => {
+			const store = new MemoryBlockStore(64);
+			store.writeSector(0, [0xeb, 0xfe]);
+			FileSystem.format(store, 2);
+
+			const superblock = new FileSystem(store).getSuperblock();
+			expect(superblock.totalSectors).to.equal(64);
+			expect(superblock.directoryStart).to.equal(DIRECTORY_START);
+			expect(superblock.dataStart).to.equal(DIRECTORY_START + 2);
+			expect(store.readSector(0)[0]).to.equal(0xeb);
+		});
+
+		it("should refuse stores that are not formatted or too small", () => {
+			expect(() => new FileSystem(new MemoryBlockStore(8))).to.throw("Not a RoFS volume");
+			expect(() => FileSystem.format(new MemoryBlockStore(4), 4)).to.throw("too small");
+		});
+	});
+
+	describe("files", () => {
+		it("should round-trip files spanning several sectors", () => {
+			const fileSystem = FileSystem.format(new MemoryBlockStore(64));
+			const data = bytes(SECTOR_SIZE * 2 + 10, 3);
+			const entry = fileSystem.writeFile("kernel.rxe", data);
+			fileSystem.writeFile("empty", []);
+
+			expect(entry.firstSector).to.equal(fileSystem.getSuperblock().dataStart);
+			expect(sameBytes(fileSystem.readFile("kernel.rxe"), data)).to.equal(true);
+			expect(fileSystem.readFile("empty").size()).to.equal(0);
+			expect(
+				fileSystem
+					.listFiles()
+					.map((file) => file.name)
+					.join(","),
+			).to.equal("kernel.rxe,empty");
+			expect(fileSystem.findFile("kernel.rxe")?.size).to.equal(data.size());
+		});
+
+		it("should place new files in the first gap that fits and count free sectors", () => {
+			const fileSystem = FileSystem.format(new MemoryBlockStore(64));
+			const dataStart = fileSystem.getSuperblock().dataStart;
+			fileSystem.writeFile("a", bytes(SECTOR_SIZE, 0));
+			fileSystem.writeFile("b", bytes(SECTOR_SIZE * 3, 0));
+			fileSystem.writeFile("c", bytes(SECTOR_SIZE, 0));
+			expect(fileSystem.getFreeSectors()).to.equal(64 - dataStart - 5);
+
+			fileSystem.deleteFile("b");
+			expect(fileSystem.writeFile("d", bytes(SECTOR_SIZE * 4, 0)).firstSector).to.equal(dataStart + 5);
+			expect(fileSystem.writeFile("e", bytes(SECTOR_SIZE * 2, 0)).firstSector).to.equal(dataStart + 1);
+			expect(() => fileSystem.readFile("b")).to.throw("File not found");
+		});
+
+		it("should replace a file in place and keep it when the new contents do not fit", () => {
+			const fileSystem = FileSystem.format(new MemoryBlockStore(12), 1);
+			const dataStart = fileSystem.getSuperblock().dataStart;
+			fileSystem.writeFile("a", bytes(SECTOR_SIZE * 4, 1));
+			fileSystem.writeFile("b", bytes(SECTOR_SIZE * 4, 2));
+			expect(fileSystem.getFreeSectors()).to.equal(1);
+
+			// four sectors only fit by reusing the old extent
+			const replaced = fileSystem.writeFile("a", bytes(SECTOR_SIZE * 4, 3));
+			expect(replaced.firstSector).to.equal(dataStart);
+			expect(
+				fileSystem
+					.listFiles()
+					.map((file) => file.name)
+					.join(","),
+			).to.equal("a,b");
+			expect(fileSystem.readFile("a")[0]).to.equal(3);
+
+			expect(() => fileSystem.writeFile("b", bytes(SECTOR_SIZE * 6, 4))).to.throw("Not enough contiguous space");
+			expect(fileSystem.findFile("b")?.size).to.equal(SECTOR_SIZE * 4);
+			expect(fileSystem.readFile("b")[0]).to.equal(2);
+		});
+
+		it("should reject bad names, a full directory and files that do not fit", () => {
+			const fileSystem = FileSystem.format(new MemoryBlockStore(40), 1);
+			expect(() => fileSystem.writeFile("", [])).to.throw("1-24 characters");
+			expect(() => fileSystem.writeFile(string.rep("x", 25), [])).to.throw("1-24 characters");
+			expect(() => fileSystem.writeFile("two words", [])).to.throw("printable ASCII");
+			expect(() => fileSystem.writeFile("big", bytes(SECTOR_SIZE * 40, 0))).to.throw(
+				"Not enough contiguous space",
+			);
+
+			for (let i = 0; i < SECTOR_SIZE / 32; i++) {
+				fileSystem.writeFile(`f${i}`, []);
+			}
+			expect(() => fileSystem.writeFile("one-more", [])).to.throw("Directory is full");
+			expect(() => fileSystem.deleteFile("missing")).to.throw("File not found");
+		});
+	});
+};
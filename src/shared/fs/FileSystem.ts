@@ -0,0 +1,271 @@
+import { BlockStore, SECTOR_SIZE } from "../storage/types";
+import {
+	DIRECTORY_ENTRY_SIZE,
+	DIRECTORY_START,
+	DirectoryEntry,
+	FS_MAGIC,
+	FS_VERSION,
+	MAX_NAME_LENGTH,
+	SUPERBLOCK_SECTOR,
+	Superblock,
+} from "./types";
+
+const ENTRIES_PER_SECTOR = SECTOR_SIZE / DIRECTORY_ENTRY_SIZE;
+
+/**
+ * File System
+ * Host-side access to a RoFS volume on a block store (see fs/types.ts for the layout)
+ */
+export class FileSystem {
+	private store: BlockStore;
+	private superblock: Superblock;
+
+	/**
+	 * Open an existing volume; throws if the store is not formatted
+	 */
+	constructor(store: BlockStore) {
+		this.store = store;
+
+		const sector = store.readSector(SUPERBLOCK_SECTOR);
+		if (readU32(sector, 0) !== FS_MAGIC) {
+			throw "Not a RoFS volume (bad superblock magic)";
+		}
+		this.superblock = {
+			version: readU16(sector, 4),
+			directorySectors: readU16(sector, 6),
+			totalSectors: readU32(sector, 8),
+			directoryStart: readU32(sector, 12),
+			dataStart: readU32(sector, 16),
+		};
+		if (this.superblock.version !== FS_VERSION) {
+			throw `Unsupported RoFS version ${this.superblock.version}`;
+		}
+	}
+
+	/**
+	 * Write an empty volume onto a store, keeping its boot sector
+	 */
+	static format(store: BlockStore, directorySectors: number = 4): FileSystem {
+		const totalSectors = store.getSectorCount();
+		const dataStart = DIRECTORY_START + directorySectors;
+		if (dataStart > totalSectors) {
+			throw `A ${totalSectors} sector store is too small for ${directorySectors} directory sectors`;
+		}
+
+		const sector: number[] = table.create(SECTOR_SIZE, 0);
+		writeU32(sector, 0, FS_MAGIC);
+		writeU16(sector, 4, FS_VERSION);
+		writeU16(sector, 6, directorySectors);
+		writeU32(sector, 8, totalSectors);
+		writeU32(sector, 12, DIRECTORY_START);
+		writeU32(sector, 16, dataStart);
+		store.writeSector(SUPERBLOCK_SECTOR, sector);
+
+		for (let i = 0; i < directorySectors; i++) {
+			store.writeSector(DIRECTORY_START + i, table.create(SECTOR_SIZE, 0));
+		}
+		return new FileSystem(store);
+	}
+
+	getSuperblock(): Superblock {
+		return { ...this.superblock };
+	}
+
+	/**
+	 * List the files in directory order
+	 */
+	listFiles(): DirectoryEntry[] {
+		return this.readDirectory()
+			.filter((slot) => slot.entry !== undefined)
+			.map((slot) => slot.entry!);
+	}
+
+	/**
+	 * Find a file by name
+	 */
+	findFile(name: string): DirectoryEntry | undefined {
+		return this.listFiles().find((entry) => entry.name === name);
+	}
+
+	/**
+	 * Read the contents of a file
+	 */
+	readFile(name: string): number[] {
+		const entry = this.findFile(name);
+		if (!entry) {
+			throw `File not found: ${name}`;
+		}
+
+		const data: number[] = [];
+		for (let lba = entry.firstSector; data.size() < entry.size; lba++) {
+			for (const value of this.store.readSector(lba)) {
+				if (data.size() >= entry.size) break;
+				data.push(value);
+			}
+		}
+		return data;
+	}
+
+	/**
+	 * Create or replace a file, placing it in the first gap large enough to hold it. A replaced
+	 * file's sectors count as free, but its entry only changes once the new data is written,
+	 * so a file that does not fit leaves the old one intact
+	 */
+	writeFile(name: string, data: ReadonlyArray<number>): DirectoryEntry {
+		validateName(name);
+
+		const slots = this.readDirectory();
+		const existing = slots.find((slot) => slot.entry?.name === name);
+		const target = existing ?? slots.find((slot) => slot.entry === undefined);
+		if (!target) {
+			throw `Directory is full, cannot add ${name}`;
+		}
+
+		const sectors = math.ceil(data.size() / SECTOR_SIZE);
+		const firstSector = this.allocate(
+			sectors,
+			slots.filter((slot) => slot !== existing),
+		);
+		if (firstSector === undefined) {
+			throw `Not enough contiguous space for ${name} (${sectors} sectors)`;
+		}
+
+		for (let i = 0; i < sectors; i++) {
+			const sector: number[] = [];
+			for (let j = 0; j < SECTOR_SIZE; j++) {
+				sector.push((data[i * SECTOR_SIZE + j] ?? 0) & 0xff);
+			}
+			this.store.writeSector(firstSector + i, sector);
+		}
+
+		const entry: DirectoryEntry = { name, firstSector, size: data.size() };
+		this.writeDirectoryEntry(target.index, entry);
+		return entry;
+	}
+
+	/**
+	 * Remove a file; its sectors become free for later files
+	 */
+	deleteFile(name: string): void {
+		const slot = this.readDirectory().find((candidate) => candidate.entry?.name === name);
+		if (!slot) {
+			throw `File not found: ${name}`;
+		}
+		this.writeDirectoryEntry(slot.index, undefined);
+	}
+
+	/**
+	 * Count the sectors not used by any file
+	 */
+	getFreeSectors(): number {
+		let used = 0;
+		for (const entry of this.listFiles()) {
+			used += math.ceil(entry.size / SECTOR_SIZE);
+		}
+		return this.superblock.totalSectors - this.superblock.dataStart - used;
+	}
+
+	/**
+	 * First-fit search for a run of free data sectors
+	 */
+	private allocate(sectors: number, slots: DirectorySlot[]): number | undefined {
+		const extents: Array<[number, number]> = [];
+		for (const slot of slots) {
+			if (slot.entry && slot.entry.size > 0) {
+				extents.push([slot.entry.firstSector, math.ceil(slot.entry.size / SECTOR_SIZE)]);
+			}
+		}
+		extents.sort((a, b) => a[0] < b[0]);
+
+		let candidate = this.superblock.dataStart;
+		for (const [start, length] of extents) {
+			if (start - candidate >= sectors) break;
+			candidate = math.max(candidate, start + length);
+		}
+		return this.superblock.totalSectors - candidate >= sectors ? candidate : undefined;
+	}
+
+	private readDirectory(): DirectorySlot[] {
+		const slots: DirectorySlot[] = [];
+		for (let i = 0; i < this.superblock.directorySectors; i++) {
+			const sector = this.store.readSector(this.superblock.directoryStart + i);
+			for (let j = 0; j < ENTRIES_PER_SECTOR; j++) {
+				const offset = j * DIRECTORY_ENTRY_SIZE;
+				slots.push({
+					index: i * ENTRIES_PER_SECTOR + j,
+					entry:
+						sector[offset] === 0
+							? undefined
+							: {
+									name: readName(sector, offset),
+									firstSector: readU32(sector, offset + MAX_NAME_LENGTH),
+									size: readU32(sector, offset + MAX_NAME_LENGTH + 4),
+								},
+				});
+			}
+		}
+		return slots;
+	}
+
+	private writeDirectoryEntry(index: number, entry: DirectoryEntry | undefined): void {
+		const lba = this.superblock.directoryStart + math.floor(index / ENTRIES_PER_SECTOR);
+		const offset = (index % ENTRIES_PER_SECTOR) * DIRECTORY_ENTRY_SIZE;
+		const sector = this.store.readSector(lba);
+
+		for (let i = 0; i < DIRECTORY_ENTRY_SIZE; i++) {
+			sector[offset + i] = 0;
+		}
+		if (entry) {
+			for (let i = 0; i < entry.name.size(); i++) {
+				sector[offset + i] = string.byte(entry.name, i + 1)[0];
+			}
+			writeU32(sector, offset + MAX_NAME_LENGTH, entry.firstSector);
+			writeU32(sector, offset + MAX_NAME_LENGTH + 4, entry.size);
+		}
+		this.store.writeSector(lba, sector);
+	}
+}
+
+// internal types
+interface DirectorySlot {
+	index: number;
+	entry: DirectoryEntry | undefined;
+}
+
+function validateName(name: string): void {
+	if (name.size() === 0 || name.size() > MAX_NAME_LENGTH) {
+		throw `File names must be 1-${MAX_NAME_LENGTH} characters: "${name}"`;
+	}
+	for (let i = 1; i <= name.size(); i++) {
+		const code = string.byte(name, i)[0];
+		if (code <= 0x20 || code >= 0x7f) {
+			throw `File names must be printable ASCII without spaces: "${name}"`;
+		}
+	}
+}
+
+function readName(sector: number[], offset: number): string {
+	const chars: string[] = [];
+	for (let i = 0; i < MAX_NAME_LENGTH && sector[offset + i] !== 0; i++) {
+		chars.push(string.char(sector[offset + i]));
+	}
+	return chars.join("");
+}
+
+function readU16(bytes: number[], offset: number): number {
+	return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readU32(bytes: number[], offset: number): number {
+	return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+function writeU16(bytes: number[], offset: number, value: number): void {
+	bytes[offset] = value & 0xff;
+	bytes[offset + 1] = (value >> 8) & 0xff;
+}
+
+function writeU32(bytes: number[], offset: number, value: number): void {
+	writeU16(bytes, offset, value & 0xffff);
+	writeU16(bytes, offset + 2, (value >>> 16) & 0xffff);
+}
@@ -0,0 +1,43 @@
+/**
+ * Filesystem Type Definitions
+ * On-disk layout of RoFS, a flat filesystem with contiguous files (all values little-endian):
+ *
+ *   sector 0     boot sector, left alone by the filesystem (0x55AA at offset 510 when bootable)
+ *   sector 1     superblock
+ *                  0  u32  magic "RoFS"
+ *                  4  u16  version (1)
+ *                  6  u16  number of directory sectors
+ *                  8  u32  total number of sectors
+ *                  12 u32  first directory sector (always 2)
+ *                  16 u32  first data sector
+ *   sector 2..   directory, 16 entries of 32 bytes per sector
+ *                  0  u8[24] name, ASCII padded with NULs (a leading NUL marks a free entry)
+ *                  24 u32    first sector of the file
+ *                  28 u32    size in bytes
+ *   data         file contents, each file in consecutive whole sectors
+ */
+
+export const FS_MAGIC = 0x53466f52; // "RoFS" read as a little-endian u32
+export const FS_VERSION = 1;
+export const BOOT_SECTOR = 0;
+export const SUPERBLOCK_SECTOR = 1;
+export const DIRECTORY_START = 2;
+export const DIRECTORY_ENTRY_SIZE = 32;
+export const MAX_NAME_LENGTH = 24;
+export const BOOT_SIGNATURE = 0xaa55; // bytes 0x55, 0xAA at offset 510 of the boot sector
+
+// Superblock fields
+export interface Superblock {
+	version: number;
+	directorySectors: number;
+	totalSectors: number;
+	directoryStart: number;
+	dataStart: number;
+}
+
+// Directory entry of a file
+export interface DirectoryEntry {
+	name: string;
+	firstSector: number;
+	size: number; // in bytes
+}
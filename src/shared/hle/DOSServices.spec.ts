@@ -0,0 +1,157 @@
+/// <reference types="@rbxts/testez/globals" />
+import { Assembler } from "../cpu/Assembler";
+import { CPU } from "../cpu/CPU";
+import { TextConsole } from "../devices/TextConsole";
+import { CharacterSource } from "../devices/types";
+import { DOSServices } from "./DOSServices";
+
+const ORIGIN = 0x1000;
+const HEAP_BASE = 0x8000;
+
+class TypedKeys implements CharacterSource {
+	readonly keys: number[] = [];
+
+	readCharacter(): number | undefined {
+		return this.keys.shift();
+	}
+}
+
+function boot(source: string, input?: CharacterSource, clock?: () => number) {
+	const result = new Assembler(ORIGIN).assemble(source);
+	if (result.errors.size() > 0) {
+		throw `${result.errors[0].line}: ${result.errors[0].message}`;
+	}
+
+	const cpu = new CPU(0x10000);
+	const console = new TextConsole();
+	const dos = new DOSServices(console, input, HEAP_BASE, 0x1000, clock);
+	dos.install(cpu);
+	cpu.loadProgram(result.bytes, ORIGIN);
+	cpu.setInstructionPointer(ORIGIN);
+	cpu.setRegister("ESP", 0x7000);
+	return { cpu, console, dos };
+}
+
+function run(cpu: CPU, steps: number = 500): void {
+	for (let i = 0; i < steps && !cpu.isHalted(); i++) {
+		cpu.step();
+	}
+}
+
+export = () => {
+	it("should print strings and characters to the console", () => {
+		const { cpu, console } = boot(`
+			MOV AH, 0x09
+			MOV EDX, message
+			INT 0x21
+			MOV AH, 0x02
+			MOV DL, '!'
+			INT 0x21
+			HLT
+		message:
+			DB "Hello$"
+		`);
+		run(cpu);
+		expect(console.getLine(0)).to.equal("Hello!");
+	});
+
+	it("should block AH=01h until a key is typed and echo it", () => {
+		const keys = new TypedKeys();
+		const { cpu, console } = boot("MOV AH, 0x01\nINT 0x21\nHLT", keys);
+
+		run(cpu, 20);
+		expect(cpu.isHalted()).to.equal(false);
+
+		keys.keys.push(0x61);
+		run(cpu);
+		expect(cpu.isHalted()).to.equal(true);
+		expect(cpu.getRegister("AL")).to.equal(0x61);
+		expect(console.getLine(0)).to.equal("a");
+	});
+
+	it("should report the time of day from the clock", () => {
+		const { cpu } = boot("MOV AH, 0x2C\nINT 0x21\nHLT", undefined, () => ((13 * 60 + 45) * 60 + 30) * 1000 + 250);
+		run(cpu);
+		expect(cpu.getRegister("CH")).to.equal(13);
+		expect(cpu.getRegister("CL")).to.equal(45);
+		expect(cpu.getRegister("DH")).to.equal(30);
+		expect(cpu.getRegister("DL")).to.equal(25);
+	});
+
+	it("should allocate, resize and free memory blocks", () => {
+		const { cpu } = boot(`
+			MOV AH, 0x48
+			MOV BX, 0x10
+			INT 0x21
+			MOV ESI, EAX
+			MOV AH, 0x48
+			MOV BX, 0x10
+			INT 0x21
+			MOV EDI, EAX
+			MOV AH, 0x4A
+			MOV EDX, ESI
+			MOV BX, 0x20
+			INT 0x21
+			HLT
+		`);
+		run(cpu);
+		expect(cpu.getRegister("ESI")).to.equal(HEAP_BASE);
+		expect(cpu.getRegister("EDI")).to.equal(HEAP_BASE + 0x100);
+		// the second block is in the way, so the first one cannot grow
+		expect(cpu.getState().flags.CF).to.equal(true);
+		expect(cpu.getRegister("AX")).to.equal(0x08);
+		expect(cpu.getRegister("BX")).to.equal(0x10);
+	});
+
+	it("should reuse freed blocks and report the largest one when memory runs out", () => {
+		const { cpu } = boot(`
+			MOV AH, 0x48
+			MOV BX, 0x80
+			INT 0x21
+			MOV EDX, EAX
+			MOV AH, 0x49
+			INT 0x21
+			MOV AH, 0x48
+			MOV BX, 0x100
+			INT 0x21
+			MOV ESI, EAX
+			MOV AH, 0x48
+			MOV BX, 1
+			INT 0x21
+			HLT
+		`);
+		run(cpu);
+		expect(cpu.getRegister("ESI")).to.equal(HEAP_BASE);
+		expect(cpu.getState().flags.CF).to.equal(true);
+		expect(cpu.getRegister("BX")).to.equal(0);
+	});
+
+	it("should fail unknown functions and bad blocks with CF set", () => {
+		const { cpu } = boot("MOV AH, 0x7F\nINT 0x21\nMOV ESI, EAX\nMOV AH, 0x49\nMOV EDX, 0x1234\nINT 0x21\nHLT");
+		run(cpu);
+		expect(cpu.getRegister("SI")).to.equal(0x01);
+		expect(cpu.getRegister("AX")).to.equal(0x09);
+		expect(cpu.getState().flags.CF).to.equal(true);
+	});
+
+	it("should stop the CPU on AH=4Ch so interrupts cannot resume it", () => {
+		const { cpu, console, dos } = boot(`
+			STI
+			MOV AX, 0x4C03
+			INT 0x21
+		banner:
+			MOV AH, 0x02
+			MOV DL, 'X'
+			INT 0x21
+			HLT
+		`);
+		run(cpu);
+		expect(dos.getExitCode()).to.equal(3);
+		expect(cpu.isShutdown()).to.equal(true);
+
+		cpu.requestInterrupt(0x30);
+		run(cpu);
+		expect(cpu.isHalted()).to.equal(true);
+		expect(console.getLine(0)).to.equal("");
+	});
+};
@@ -0,0 +1,267 @@
+import { CPU } from "../cpu/CPU";
+import { CharacterSource } from "../devices/types";
+import { TextConsole } from "../devices/TextConsole";
+
+// DOS error codes returned in AX with CF set
+enum DOSError {
+	INVALID_FUNCTION = 0x01,
+	INSUFFICIENT_MEMORY = 0x08,
+	INVALID_MEMORY_BLOCK = 0x09,
+}
+
+const PARAGRAPH_SIZE = 16;
+const MAX_STRING_LENGTH = 0x10000; // give up on AH=09h strings without a terminator
+
+/**
+ * DOS Services
+ * High-level emulation of the INT 21h API on top of the text console and a keyboard.
+ * The CPU has a flat address space, so DS:DX / ES:0 pointers become linear addresses
+ * in EDX and memory blocks are returned as linear addresses in EAX
+ */
+export class DOSServices {
+	static readonly VECTOR = 0x21;
+
+	private functions = new Map<number, DOSFunction>(); // keyed by AH
+	private console: TextConsole;
+	private input: CharacterSource | undefined;
+	private clock: () => number;
+	private heapStart: number; // first paragraph of the allocation arena
+	private heapEnd: number; // paragraph after the arena
+	private blocks: MemoryBlock[] = []; // allocated blocks sorted by segment
+	private exitCode: number | undefined;
+
+	/**
+	 * @param heapBase physical address of the memory handed out by AH=48h
+	 * @param heapSize size of the allocation arena in bytes
+	 * @param clock milliseconds since local midnight, used by AH=2Ch
+	 */
+	constructor(
+		console: TextConsole,
+		input?: CharacterSource,
+		heapBase: number = 0x8000,
+		heapSize: number = 0x6000,
+		clock: () => number = localTimeMilliseconds,
+	) {
+		this.console = console;
+		this.input = input;
+		this.clock = clock;
+		this.heapStart = math.ceil(heapBase / PARAGRAPH_SIZE);
+		this.heapEnd = math.floor((heapBase + heapSize) / PARAGRAPH_SIZE);
+
+		this.registerFunction(0x01, (cpu) => this.readCharacterWithEcho(cpu));
+		this.registerFunction(0x02, (cpu) => this.printCharacter(cpu));
+		this.registerFunction(0x09, (cpu) => this.printString(cpu));
+		this.registerFunction(0x2c, (cpu) => this.getTime(cpu));
+		this.registerFunction(0x48, (cpu) => this.allocateMemory(cpu));
+		this.registerFunction(0x49, (cpu) => this.freeMemory(cpu));
+		this.registerFunction(0x4a, (cpu) => this.resizeMemory(cpu));
+		this.registerFunction(0x4c, (cpu) => this.terminate(cpu));
+	}
+
+	/**
+	 * Install the service table as the INT 21h handler of a CPU; throws when the interrupt
+	 * controller has IRQs on vector 0x21
+	 */
+	install(cpu: CPU): void {
+		cpu.registerHLEHandler(DOSServices.VECTOR, (target) => this.dispatch(target));
+	}
+
+	/**
+	 * Add or replace the implementation of an AH function number
+	 */
+	registerFunction(functionNumber: number, handler: DOSFunction): void {
+		this.functions.set(functionNumber & 0xff, handler);
+	}
+
+	/**
+	 * Run the function selected by AH
+	 */
+	dispatch(cpu: CPU): void {
+		const handler = this.functions.get(cpu.getRegister("AH"));
+		if (!handler) {
+			fail(cpu, DOSError.INVALID_FUNCTION);
+			return;
+		}
+		handler(cpu);
+	}
+
+	/**
+	 * Get the return code passed to AH=4Ch, or undefined while the program is running
+	 */
+	getExitCode(): number | undefined {
+		return this.exitCode;
+	}
+
+	/**
+	 * Forget the exit code and every allocation before loading another program
+	 */
+	reset(): void {
+		this.exitCode = undefined;
+		this.blocks = [];
+	}
+
+	/**
+	 * AH=01h: wait for a key, echo it and return it in AL
+	 */
+	private readCharacterWithEcho(cpu: CPU): void {
+		const char = this.input?.readCharacter();
+		if (char === undefined) {
+			// nothing typed yet, so block by running INT 21h again
+			cpu.restartInstruction();
+			return;
+		}
+
+		this.console.putChar(char);
+		cpu.setRegister("AL", char);
+	}
+
+	/**
+	 * AH=02h: print the character in DL
+	 */
+	private printCharacter(cpu: CPU): void {
+		const char = cpu.getRegister("DL");
+		this.console.putChar(char);
+		cpu.setRegister("AL", char);
+	}
+
+	/**
+	 * AH=09h: print the '$'-terminated string at EDX
+	 */
+	private printString(cpu: CPU): void {
+		const mmu = cpu.getMMU();
+		const address = cpu.getRegister("EDX");
+
+		for (let i = 0; i < MAX_STRING_LENGTH; i++) {
+			const char = mmu.readByte(address + i);
+			if (char === 0x24) break; // '$'
+			this.console.putChar(char);
+		}
+		cpu.setRegister("AL", 0x24);
+	}
+
+	/**
+	 * AH=2Ch: CH = hour, CL = minute, DH = second, DL = hundredths
+	 */
+	private getTime(cpu: CPU): void {
+		const now = math.floor(this.clock()) % 86400000;
+		cpu.setRegister("CH", math.floor(now / 3600000));
+		cpu.setRegister("CL", math.floor(now / 60000) % 60);
+		cpu.setRegister("DH", math.floor(now / 1000) % 60);
+		cpu.setRegister("DL", math.floor(now / 10) % 100);
+	}
+
+	/**
+	 * AH=48h: allocate BX paragraphs, returning the block address in EAX
+	 * (on failure BX holds the largest free block)
+	 */
+	private allocateMemory(cpu: CPU): void {
+		const paragraphs = cpu.getRegister("BX");
+		const segment = this.findFreeBlock(paragraphs);
+		if (segment === undefined) {
+			fail(cpu, DOSError.INSUFFICIENT_MEMORY);
+			cpu.setRegister("BX", this.largestFreeBlock());
+			return;
+		}
+
+		this.blocks.push({ segment, paragraphs });
+		this.blocks.sort((a, b) => a.segment < b.segment);
+		succeed(cpu);
+		cpu.setRegister("EAX", segment * PARAGRAPH_SIZE);
+	}
+
+	/**
+	 * AH=49h: free the block at address EDX
+	 */
+	private freeMemory(cpu: CPU): void {
+		const index = this.findBlock(cpu.getRegister("EDX"));
+		if (index === undefined) {
+			fail(cpu, DOSError.INVALID_MEMORY_BLOCK);
+			return;
+		}
+
+		this.blocks.remove(index);
+		succeed(cpu);
+	}
+
+	/**
+	 * AH=4Ah: resize the block at address EDX to BX paragraphs in place
+	 */
+	private resizeMemory(cpu: CPU): void {
+		const index = this.findBlock(cpu.getRegister("EDX"));
+		if (index === undefined) {
+			fail(cpu, DOSError.INVALID_MEMORY_BLOCK);
+			return;
+		}
+
+		const block = this.blocks[index];
+		const limit = (this.blocks[index + 1]?.segment ?? this.heapEnd) - block.segment;
+		const paragraphs = cpu.getRegister("BX");
+		if (paragraphs > limit) {
+			fail(cpu, DOSError.INSUFFICIENT_MEMORY);
+			cpu.setRegister("BX", limit);
+			return;
+		}
+
+		block.paragraphs = paragraphs;
+		succeed(cpu);
+	}
+
+	/**
+	 * AH=4Ch: terminate with the return code in AL; the CPU is stopped rather than halted so the
+	 * next IRQ cannot run whatever follows the INT 21h
+	 */
+	private terminate(cpu: CPU): void {
+		this.exitCode = cpu.getRegister("AL");
+		cpu.stop();
+	}
+
+	/**
+	 * First-fit search for a gap of at least the given number of paragraphs
+	 */
+	private findFreeBlock(paragraphs: number): number | undefined {
+		let candidate = this.heapStart;
+		for (const block of this.blocks) {
+			if (block.segment - candidate >= paragraphs) return candidate;
+			candidate = block.segment + block.paragraphs;
+		}
+		return this.heapEnd - candidate >= paragraphs ? candidate : undefined;
+	}
+
+	private largestFreeBlock(): number {
+		let largest = 0;
+		let candidate = this.heapStart;
+		for (const block of this.blocks) {
+			largest = math.max(largest, block.segment - candidate);
+			candidate = block.segment + block.paragraphs;
+		}
+		return math.max(largest, this.heapEnd - candidate);
+	}
+
+	private findBlock(address: number): number | undefined {
+		const index = this.blocks.findIndex((block) => block.segment * PARAGRAPH_SIZE === address);
+		return index === -1 ? undefined : index;
+	}
+}
+
+// public types
+export type DOSFunction = (cpu: CPU) => void;
+
+// internal types
+interface MemoryBlock {
+	segment: number;
+	paragraphs: number;
+}
+
+function succeed(cpu: CPU): void {
+	cpu.setFlag("CF", false);
+}
+
+function fail(cpu: CPU, code: DOSError): void {
+	cpu.setFlag("CF", true);
+	cpu.setRegister("AX", code);
+}
+
+function localTimeMilliseconds(): number {
+	const time = DateTime.now().ToLocalTime();
+	return ((time.Hour * 60 + time.Minute) * 60 + time.Second) * 1000 + time.Millisecond;
+}
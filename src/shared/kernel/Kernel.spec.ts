@@ -0,0 +1,192 @@
+/// <reference types="@rbxts/testez/globals" />
+import { Assembler } from "../cpu/Assembler";
+import { CPU } from "../cpu/CPU";
+import { ExceptionVector } from "../cpu/Faults";
+import { CR0_PE, CR0_PG, PTE_PRESENT, PTE_USER, PTE_WRITABLE } from "../cpu/types";
+import { TextConsole } from "../devices/TextConsole";
+import { linkProgram } from "../exec/Linker";
+import { Executable } from "../exec/types";
+import { DOSServices } from "../hle/DOSServices";
+import { Kernel } from "./Kernel";
+import { ProcessState } from "./types";
+
+function link(text: string, data?: string): Executable {
+	const result = linkProgram({ text, data });
+	if (!result.executable) {
+		throw result.errors[0]?.message ?? "link failed";
+	}
+	return result.executable;
+}
+
+/**
+ * Print a character `count` times, optionally yielding after each one, then exit with the pid
+ */
+function printer(char: string, count: number, yieldEach: boolean): Executable {
+	return link(`
+	_start:
+		MOV ECX, ${count}
+	again:
+		MOV EDX, '${char}'
+		MOV EAX, 0x0200
+		INT 0x21
+		${yieldEach ? "MOV EAX, 2\nINT 0x80" : "NOP"}
+		DEC ECX
+		JNZ again
+		MOV EAX, 3
+		INT 0x80
+		MOV EBX, EAX
+		MOV EAX, 1
+		INT 0x80
+	`);
+}
+
+const SPIN = link("_start:\nJMP _start");
+
+function setup(quantum: number = 1) {
+	const cpu = new CPU(0x40000);
+	const console = new TextConsole();
+	new DOSServices(console).install(cpu);
+	const kernel = new Kernel(cpu, quantum);
+	kernel.install();
+	return { cpu, console, kernel };
+}
+
+/**
+ * Step the CPU, raising the timer IRQ every `timerPeriod` steps when one is given
+ */
+function run(cpu: CPU, steps: number, timerPeriod?: number): void {
+	for (let i = 1; i <= steps; i++) {
+		if (timerPeriod !== undefined && i % timerPeriod === 0) {
+			cpu.raiseIRQ(0);
+		}
+		cpu.step();
+	}
+}
+
+export = () => {
+	it("should run higher priorities first and share the CPU round-robin on yield", () => {
+		const { cpu, console, kernel } = setup();
+		const a = kernel.createProcess(printer("A", 3, true), "a");
+		const b = kernel.createProcess(printer("B", 3, true), "b");
+		const c = kernel.createProcess(printer("C", 3, true), "c", 2);
+		kernel.start();
+		run(cpu, 500);
+
+		expect(console.getLine(0)).to.equal("CCCABABAB");
+		for (const process of [a, b, c]) {
+			expect(process.state).to.equal(ProcessState.TERMINATED);
+			expect(process.exitCode).to.equal(process.pid);
+		}
+		expect(cpu.isHalted()).to.equal(true);
+	});
+
+	it("should preempt a process when its time slice runs out", () => {
+		const { cpu, console, kernel } = setup();
+		kernel.createProcess(link("_start:\nMOV EDX, 'A'\nMOV EAX, 0x0200\nINT 0x21\nspin: JMP spin"), "a");
+		const b = kernel.createProcess(printer("B", 1, false), "b");
+		kernel.start();
+
+		run(cpu, 200);
+		expect(console.getLine(0)).to.equal("A");
+
+		run(cpu, 200, 50);
+		expect(console.getLine(0)).to.equal("AB");
+		expect(b.state).to.equal(ProcessState.TERMINATED);
+	});
+
+	it("should terminate a process that faults and keep running the others", () => {
+		const { cpu, console, kernel } = setup();
+		const crash = kernel.createProcess(link("_start:\nXOR EAX, EAX\nDIV EAX"), "crash");
+		const survivor = kernel.createProcess(printer("S", 2, true), "survivor");
+		kernel.start();
+		run(cpu, 300);
+
+		expect(crash.state).to.equal(ProcessState.TERMINATED);
+		expect(crash.exitCode).to.equal(0xffffffff);
+		expect(crash.fault?.vector).to.equal(ExceptionVector.DIVIDE_ERROR);
+		expect(survivor.exitCode).to.equal(survivor.pid);
+		expect(console.getLine(0)).to.equal("SS");
+	});
+
+	it("should list terminated processes until the next timer tick", () => {
+		const { cpu, kernel } = setup();
+		kernel.createProcess(printer("A", 1, false), "a");
+		kernel.start();
+		run(cpu, 100);
+		expect(kernel.getProcesses().size()).to.equal(1);
+
+		run(cpu, 1, 1);
+		expect(kernel.getProcesses().size()).to.equal(0);
+	});
+
+	it("should load supervisor processes while a ring-3 process is running", () => {
+		const { cpu, kernel } = setup();
+		kernel.createProcess(SPIN, "user", 1, true);
+		kernel.start();
+		run(cpu, 10);
+		expect(cpu.getState().privilegeLevel).to.equal(3);
+		const eip = cpu.getState().instructionPointer.EIP;
+
+		const loaded = kernel.createProcess(printer("K", 1, false), "kernel", 1, false);
+		expect(loaded.state).to.equal(ProcessState.READY);
+		expect(cpu.getState().privilegeLevel).to.equal(3);
+		expect(cpu.getState().instructionPointer.EIP).to.equal(eip);
+	});
+
+	it("should stop the CPU when a fatal exception arrives with no process running", () => {
+		const { cpu } = setup();
+		const result = new Assembler(0x1000).assemble("STI\nXOR EAX, EAX\nDIV EAX");
+		cpu.loadProgram(result.bytes, 0x1000);
+		run(cpu, 10);
+		expect(cpu.isShutdown()).to.equal(true);
+
+		cpu.raiseIRQ(0);
+		run(cpu, 10);
+		expect(cpu.isHalted()).to.equal(true);
+	});
+
+	it("should give each process its own page directory under paging", () => {
+		const { cpu, console, kernel } = setup();
+		const mmu = cpu.getMMU();
+		const rights = PTE_PRESENT | PTE_WRITABLE | PTE_USER;
+		mmu.writeDWord(0x3000, 0x4000 | rights);
+		for (let page = 0; page < 0x20; page++) {
+			mmu.writeDWord(0x4000 + page * 4, page * 0x1000 + rights);
+		}
+		mmu.reserveFrames(0x20000, 0x20000);
+		cpu.setControlRegister("CR3", 0x3000);
+		cpu.setControlRegister("CR0", CR0_PG | CR0_PE);
+
+		// both write the same virtual address before yielding to the other
+		const writer = (char: string) =>
+			link(
+				`_start:
+				MOV DWORD PTR [value], '${char}'
+				MOV EAX, 2
+				INT 0x80
+				MOV EDX, [value]
+				MOV EAX, 0x0200
+				INT 0x21
+				MOV EAX, 1
+				INT 0x80`,
+				"value DD 0",
+			);
+		const a = kernel.createProcess(writer("X"), "a");
+		const b = kernel.createProcess(writer("Y"), "b");
+		expect(a.pageDirectory).to.be.ok();
+		expect(a.pageDirectory).never.to.equal(b.pageDirectory);
+
+		kernel.start();
+		run(cpu, 200);
+		expect(console.getLine(0)).to.equal("XY");
+		expect(a.fault).never.to.be.ok();
+		expect(cpu.getState().controlRegisters.CR3).to.equal(0x3000);
+
+		// the frames of exited processes go back to the pool
+		for (let i = 0; i < 20; i++) {
+			kernel.createProcess(writer("Z"), "z");
+			run(cpu, 100);
+		}
+		expect(console.getLine(0)).to.equal("XY" + string.rep("Z", 20));
+	});
+};
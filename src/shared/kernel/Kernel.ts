@@ -0,0 +1,302 @@
+import { CPU } from "../cpu/CPU";
+import { ExceptionVector } from "../cpu/Faults";
+import { MMU } from "../cpu/MMU";
+import { CPUContext, IRQ_BASE_VECTOR } from "../cpu/types";
+import { PIC } from "../devices/PIC";
+import { LoadedProgram, loadExecutable } from "../exec/Loader";
+import { Executable } from "../exec/types";
+import { Scheduler } from "./Scheduler";
+import { DEFAULT_PRIORITY, Process, ProcessState, SYSCALL_VECTOR, Syscall } from "./types";
+
+// exceptions that terminate the process raising them instead of reaching the IDT
+const FATAL_EXCEPTIONS = [
+	ExceptionVector.DIVIDE_ERROR,
+	ExceptionVector.INVALID_OPCODE,
+	ExceptionVector.GENERAL_PROTECTION,
+	ExceptionVector.PAGE_FAULT,
+];
+
+const OCW2_EOI = 0x20; // non-specific end of interrupt
+const USER_CODE_SELECTOR = 0x1b; // RPL 3
+const USER_DATA_SELECTOR = 0x23;
+
+/**
+ * Kernel
+ * Host-side reference kernel: loads executables as processes in their own address spaces (and
+ * their own page directories once paging is on, built from frames set aside with
+ * MMU.reserveFrames), switches between them on the timer interrupt or when they yield and serves
+ * INT 80h system calls. Guest-written kernels can build the same on the timer IRQ and IRET instead
+ */
+export class Kernel {
+	private cpu: CPU;
+	private scheduler = new Scheduler();
+	private processes = new Map<number, Process>();
+	private current: Process | undefined;
+	private nextPid = 1;
+	private kernelDirectory = 0; // CR3 of the kernel, the template of every process page directory
+	private started = false;
+	private ticksLeft: number;
+	private quantum: number;
+	private timerVector: number;
+
+	/**
+	 * @param quantum timer interrupts a process may run before it is preempted
+	 * @param timerVector vector the PIT interrupt arrives on
+	 */
+	constructor(cpu: CPU, quantum: number = 1, timerVector: number = IRQ_BASE_VECTOR) {
+		this.cpu = cpu;
+		this.quantum = math.max(quantum, 1);
+		this.ticksLeft = this.quantum;
+		this.timerVector = timerVector;
+	}
+
+	/**
+	 * Take over the timer interrupt, the system call vector and the fatal exceptions
+	 */
+	install(): void {
+		this.cpu.registerIRQHandler(this.timerVector, () => this.onTimer());
+		this.cpu.registerHLEHandler(SYSCALL_VECTOR, () => this.onSyscall());
+		for (const vector of FATAL_EXCEPTIONS) {
+			this.cpu.registerHLEHandler(vector, () => this.onFault());
+		}
+	}
+
+	/**
+	 * Start running the ready processes; the CPU idles with interrupts enabled until one exists
+	 */
+	start(): void {
+		this.started = true;
+		this.switchProcess();
+	}
+
+	/**
+	 * Load an executable at its link base in a new address space and make it ready to run; the
+	 * load runs at ring 0 and the running process is resumed afterwards even when it fails
+	 */
+	createProcess(
+		executable: Executable,
+		name: string = "process",
+		priority: number = DEFAULT_PRIORITY,
+		userMode = false,
+	): Process {
+		const mmu = this.cpu.getMMU();
+		const addressSpace = mmu.createAddressSpace();
+		const activeSpace = mmu.getAddressSpace();
+
+		// the loader points EIP/ESP at the new program, so keep whatever was running
+		const running = this.cpu.saveContext();
+		const halted = this.cpu.isHalted();
+		const stopped = this.cpu.isShutdown();
+		if (!this.current) {
+			this.kernelDirectory = running.CR3;
+		}
+
+		// under paging the host map is bypassed, so the process also needs its own page directory
+		const pageDirectory = mmu.isPagingEnabled() ? mmu.createPageDirectory(this.kernelDirectory) : undefined;
+		let program: LoadedProgram | undefined;
+		try {
+			// load as the kernel, whatever the privilege and page tables of the running process
+			mmu.switchAddressSpace(addressSpace);
+			mmu.setPrivilegeLevel(0);
+			this.cpu.setControlRegister("CR3", pageDirectory ?? this.kernelDirectory);
+			program = loadExecutable(this.cpu, executable, { userMode });
+		} finally {
+			mmu.switchAddressSpace(activeSpace);
+			this.cpu.restoreContext(running);
+			if (stopped) {
+				this.cpu.stop();
+			} else if (halted) {
+				this.cpu.halt();
+			}
+			if (!program) {
+				mmu.destroyAddressSpace(addressSpace);
+				if (pageDirectory !== undefined) {
+					mmu.destroyPageDirectory(pageDirectory);
+				}
+			}
+		}
+
+		const process: Process = {
+			pid: this.nextPid++,
+			name,
+			priority,
+			state: ProcessState.READY,
+			context: initialContext(program, pageDirectory ?? running.CR3, userMode),
+			program,
+			addressSpace,
+			pageDirectory,
+		};
+		this.processes.set(process.pid, process);
+		this.scheduler.enqueue(process);
+
+		// wake an idle CPU straight away
+		if (this.started && !this.current) {
+			this.switchProcess();
+		}
+		return process;
+	}
+
+	/**
+	 * Terminate a process and release its address space
+	 */
+	exitProcess(pid: number, exitCode: number = 0): void {
+		const process = this.processes.get(pid);
+		if (!process || process.state === ProcessState.TERMINATED) {
+			throw `No running process with id ${pid}`;
+		}
+
+		process.state = ProcessState.TERMINATED;
+		process.exitCode = exitCode;
+		this.scheduler.remove(process);
+
+		const mmu = this.cpu.getMMU();
+		if (process === this.current) {
+			this.current = undefined;
+			mmu.switchAddressSpace(MMU.KERNEL_ASID);
+			if (process.pageDirectory !== undefined) {
+				this.cpu.setControlRegister("CR3", this.kernelDirectory);
+			}
+			this.releaseMemory(process);
+			this.switchProcess();
+		} else {
+			this.releaseMemory(process);
+		}
+	}
+
+	/**
+	 * Give the CPU to the next ready process (the current one goes to the back of its queue)
+	 */
+	yield(): void {
+		this.switchProcess();
+	}
+
+	getCurrentProcess(): Process | undefined {
+		return this.current;
+	}
+
+	getProcess(pid: number): Process | undefined {
+		return this.processes.get(pid);
+	}
+
+	/**
+	 * List every process the kernel knows about, including terminated ones not reaped yet
+	 */
+	getProcesses(): Process[] {
+		const processes: Process[] = [];
+		this.processes.forEach((process) => processes.push(process));
+		processes.sort((a, b) => a.pid < b.pid);
+		return processes;
+	}
+
+	/**
+	 * Forget terminated processes; their records stay visible until the next timer tick
+	 */
+	private reapTerminated(): void {
+		this.processes.forEach((process, pid) => {
+			if (process.state === ProcessState.TERMINATED) {
+				this.processes.delete(pid);
+			}
+		});
+	}
+
+	/**
+	 * Timer interrupt: preempt the current process once its time slice is used up
+	 */
+	private onTimer(): void {
+		this.cpu.getIOBus().write(PIC.MASTER_COMMAND_PORT, OCW2_EOI, 1);
+		this.reapTerminated();
+		if (!this.started) return;
+
+		this.ticksLeft--;
+		if (this.ticksLeft <= 0 || !this.current) {
+			this.switchProcess();
+		}
+	}
+
+	/**
+	 * INT 80h: system call selected by EAX
+	 */
+	private onSyscall(): void {
+		const process = this.current;
+		if (!process) return;
+
+		switch (this.cpu.getRegister("EAX")) {
+			case Syscall.EXIT:
+				this.exitProcess(process.pid, this.cpu.getRegister("EBX"));
+				break;
+			case Syscall.YIELD:
+				this.switchProcess();
+				break;
+			case Syscall.GETPID:
+				this.cpu.setRegister("EAX", process.pid);
+				break;
+			default:
+				this.cpu.setRegister("EAX", 0xffffffff);
+				break;
+		}
+	}
+
+	/**
+	 * Fatal exception: terminate the process that raised it
+	 */
+	private onFault(): void {
+		const process = this.current;
+		if (!process) {
+			// nothing to terminate, and halting would only fault again on the next IRQ
+			this.cpu.stop();
+			return;
+		}
+		process.fault = this.cpu.getLastFault();
+		this.exitProcess(process.pid, 0xffffffff);
+	}
+
+	/**
+	 * Release the host address space and page directory of a process that is no longer running
+	 */
+	private releaseMemory(process: Process): void {
+		const mmu = this.cpu.getMMU();
+		mmu.destroyAddressSpace(process.addressSpace);
+		if (process.pageDirectory !== undefined) {
+			mmu.destroyPageDirectory(process.pageDirectory);
+		}
+	}
+
+	/**
+	 * Save the running process, pick the next one and resume it, or idle when nothing is ready
+	 */
+	private switchProcess(): void {
+		const previous = this.current;
+		if (previous) {
+			previous.context = this.cpu.saveContext();
+			previous.state = ProcessState.READY;
+			this.scheduler.enqueue(previous);
+		}
+
+		this.ticksLeft = this.quantum;
+		this.current = this.scheduler.dequeue();
+		if (!this.current) {
+			// wait for the next interrupt with interrupts enabled
+			this.cpu.setFlag("IF", true);
+			this.cpu.halt();
+			return;
+		}
+
+		this.current.state = ProcessState.RUNNING;
+		if (this.current !== previous) {
+			this.cpu.getMMU().switchAddressSpace(this.current.addressSpace);
+			this.cpu.restoreContext(this.current.context);
+		}
+	}
+}
+
+function initialContext(program: LoadedProgram, cr3: number, userMode: boolean): CPUContext {
+	const code = userMode ? USER_CODE_SELECTOR : 0;
+	const data = userMode ? USER_DATA_SELECTOR : 0;
+	return {
+		generalRegisters: { EAX: 0, EBX: 0, ECX: 0, EDX: 0, ESI: 0, EDI: 0, EBP: 0, ESP: program.stackTop },
+		segmentRegisters: { CS: code, DS: data, ES: data, FS: data, GS: data, SS: data },
+		flags: { CF: false, PF: false, AF: false, ZF: false, SF: false, TF: false, IF: true, DF: false, OF: false },
+		EIP: program.entry,
+		CR3: cr3,
+	};
+}
@@ -0,0 +1,48 @@
+/// <reference types="@rbxts/testez/globals" />
+import { Scheduler } from "./Scheduler";
+import { MAX_PRIORITY, Process, ProcessState } from "./types";
+
+function process(pid: number, priority: number): Process {
+	return { pid, priority, state: ProcessState.READY } as Process;
+}
+
+function drain(scheduler: Scheduler): string {
+	const pids: number[] = [];
+	let queued = scheduler.dequeue();
+	while (queued) {
+		pids.push(queued.pid);
+		queued = scheduler.dequeue();
+	}
+	return pids.join(",");
+}
+
+export = () => {
+	it("should dequeue higher priorities first and equal priorities in FIFO order", () => {
+		const scheduler = new Scheduler();
+		scheduler.enqueue(process(1, 1));
+		scheduler.enqueue(process(2, 3));
+		scheduler.enqueue(process(3, 1));
+		scheduler.enqueue(process(4, 0));
+		scheduler.enqueue(process(5, 3));
+		expect(drain(scheduler)).to.equal("2,5,1,3,4");
+	});
+
+	it("should clamp priorities outside the supported range", () => {
+		const scheduler = new Scheduler();
+		scheduler.enqueue(process(1, MAX_PRIORITY));
+		scheduler.enqueue(process(2, 99));
+		scheduler.enqueue(process(3, -5));
+		expect(drain(scheduler)).to.equal("1,2,3");
+	});
+
+	it("should remove a queued process", () => {
+		const scheduler = new Scheduler();
+		const removed = process(2, 1);
+		scheduler.enqueue(process(1, 1));
+		scheduler.enqueue(removed);
+		scheduler.enqueue(process(3, 1));
+		scheduler.remove(removed);
+		expect(drain(scheduler)).to.equal("1,3");
+		expect(scheduler.dequeue()).never.to.be.ok();
+	});
+};
@@ -0,0 +1,51 @@
+import { MAX_PRIORITY, MIN_PRIORITY, Process } from "./types";
+
+/**
+ * Scheduler
+ * One FIFO ready queue per priority level; the highest non-empty level always runs first and
+ * processes that are preempted or yield go to the back of their queue
+ */
+export class Scheduler {
+	private queues: Process[][] = [];
+
+	constructor() {
+		for (let priority = MIN_PRIORITY; priority <= MAX_PRIORITY; priority++) {
+			this.queues.push([]);
+		}
+	}
+
+	/**
+	 * Queue a ready process behind the others of its priority
+	 */
+	enqueue(process: Process): void {
+		this.queues[clampPriority(process.priority) - MIN_PRIORITY].push(process);
+	}
+
+	/**
+	 * Take the next process to run, or undefined when nothing is ready
+	 */
+	dequeue(): Process | undefined {
+		for (let i = this.queues.size() - 1; i >= 0; i--) {
+			const process = this.queues[i].shift();
+			if (process) return process;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Drop a process from whichever queue holds it
+	 */
+	remove(process: Process): void {
+		for (const queue of this.queues) {
+			const index = queue.indexOf(process);
+			if (index !== -1) {
+				queue.remove(index);
+				return;
+			}
+		}
+	}
+}
+
+function clampPriority(priority: number): number {
+	return math.clamp(math.floor(priority), MIN_PRIORITY, MAX_PRIORITY);
+}
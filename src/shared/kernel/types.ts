@@ -0,0 +1,42 @@
+import { CPUContext } from "../cpu/types";
+import { CPUFault } from "../cpu/Faults";
+import { LoadedProgram } from "../exec/Loader";
+
+/**
+ * Kernel Type Definitions
+ * Processes and system calls of the host-side reference kernel
+ */
+
+// Software interrupt used for system calls (number in EAX, result in EAX)
+export const SYSCALL_VECTOR = 0x80;
+
+// Scheduling priorities; higher runs first, equal priorities share the CPU round-robin
+export const MIN_PRIORITY = 0;
+export const MAX_PRIORITY = 3;
+export const DEFAULT_PRIORITY = 1;
+
+export enum Syscall {
+	EXIT = 1, // EBX = exit code
+	YIELD = 2, // give up the rest of the time slice
+	GETPID = 3, // returns the process id in EAX
+}
+
+export enum ProcessState {
+	READY,
+	RUNNING,
+	TERMINATED,
+}
+
+// A guest program under control of the kernel
+export interface Process {
+	pid: number;
+	name: string;
+	priority: number;
+	state: ProcessState;
+	context: CPUContext; // registers while not running
+	program: LoadedProgram; // where the image and stack live
+	addressSpace: number; // MMU address space id
+	pageDirectory?: number; // physical address loaded into CR3 while it runs, when paging is on
+	exitCode?: number;
+	fault?: CPUFault; // exception that terminated the process
+}
@@ -0,0 +1,57 @@
+const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const PAD = 0x3d; // '='
+
+// character code -> 6-bit value
+const DECODE_TABLE = new Map<number, number>();
+for (let i = 0; i < ALPHABET.size(); i++) {
+	DECODE_TABLE.set(string.byte(ALPHABET, i + 1)[0], i);
+}
+
+/**
+ * Encode bytes as standard padded base64 (safe to store in a DataStore string)
+ */
+export function encodeBase64(bytes: ReadonlyArray<number>): string {
+	const output: string[] = [];
+	for (let i = 0; i < bytes.size(); i += 3) {
+		const remaining = bytes.size() - i;
+		const triple = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+
+		output.push(encodeSextet(triple >> 18));
+		output.push(encodeSextet(triple >> 12));
+		output.push(remaining > 1 ? encodeSextet(triple >> 6) : "=");
+		output.push(remaining > 2 ? encodeSextet(triple) : "=");
+	}
+	return output.join("");
+}
+
+/**
+ * Decode a base64 string; throws on characters outside the alphabet
+ */
+export function decodeBase64(text: string): number[] {
+	const bytes: number[] = [];
+	let buffer = 0;
+	let bits = 0;
+
+	for (let i = 1; i <= text.size(); i++) {
+		const code = string.byte(text, i)[0];
+		if (code === PAD) break;
+
+		const value = DECODE_TABLE.get(code);
+		if (value === undefined) {
+			throw `Invalid base64 character '${string.char(code)}' at ${i}`;
+		}
+
+		buffer = ((buffer << 6) | value) & 0xffffff;
+		bits += 6;
+		if (bits >= 8) {
+			bits -= 8;
+			bytes.push((buffer >> bits) & 0xff);
+		}
+	}
+	return bytes;
+}
+
+function encodeSextet(value: number): string {
+	const index = (value & 0x3f) + 1;
+	return ALPHABET.sub(index, index);
+}
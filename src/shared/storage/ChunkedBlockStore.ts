@@ -0,0 +1,113 @@
+import { decodeBase64, encodeBase64 } from "./Base64";
+import { BlockStore, SECTOR_SIZE } from "./types";
+
+/**
+ * Chunked Block Store
+ * Disk image kept as base64 strings of a fixed number of sectors each, so the game can persist
+ * it one chunk per DataStore key and only rewrite the chunks that changed
+ */
+export class ChunkedBlockStore implements BlockStore {
+	static readonly DEFAULT_SECTORS_PER_CHUNK = 128; // 64 KiB, ~87 KB of base64 per key
+
+	private sectorCount: number;
+	private sectorsPerChunk: number;
+	private encoded: string[]; // "" for chunks that were never written
+	private decoded = new Map<number, number[]>(); // chunk index -> raw bytes, filled on access
+	private dirty = new Set<number>();
+
+	/**
+	 * @param chunks previously serialized chunks (missing or empty chunks read as zeros)
+	 */
+	constructor(
+		sectorCount: number,
+		chunks: ReadonlyArray<string> = [],
+		sectorsPerChunk: number = ChunkedBlockStore.DEFAULT_SECTORS_PER_CHUNK,
+	) {
+		this.sectorCount = sectorCount;
+		this.sectorsPerChunk = sectorsPerChunk;
+		this.encoded = [];
+		for (let i = 0; i < this.getChunkCount(); i++) {
+			this.encoded.push(chunks[i] ?? "");
+		}
+	}
+
+	getSectorCount(): number {
+		return this.sectorCount;
+	}
+
+	getChunkCount(): number {
+		return math.ceil(this.sectorCount / this.sectorsPerChunk);
+	}
+
+	readSector(lba: number): number[] {
+		this.checkRange(lba);
+		const chunk = this.loadChunk(math.floor(lba / this.sectorsPerChunk));
+		const offset = (lba % this.sectorsPerChunk) * SECTOR_SIZE;
+
+		const sector: number[] = [];
+		for (let i = 0; i < SECTOR_SIZE; i++) {
+			sector.push(chunk[offset + i]);
+		}
+		return sector;
+	}
+
+	writeSector(lba: number, data: ReadonlyArray<number>): void {
+		this.checkRange(lba);
+		const index = math.floor(lba / this.sectorsPerChunk);
+		const chunk = this.loadChunk(index);
+		const offset = (lba % this.sectorsPerChunk) * SECTOR_SIZE;
+
+		for (let i = 0; i < SECTOR_SIZE; i++) {
+			chunk[offset + i] = (data[i] ?? 0) & 0xff;
+		}
+		this.dirty.add(index);
+	}
+
+	/**
+	 * Get every chunk as a base64 string, ready to be stored
+	 */
+	serialize(): string[] {
+		for (const index of this.dirty) {
+			this.encoded[index] = encodeBase64(this.decoded.get(index)!);
+		}
+		this.dirty.clear();
+		return [...this.encoded];
+	}
+
+	/**
+	 * Get only the chunks written since the last call (or serialize), keyed by chunk index
+	 */
+	takeDirtyChunks(): Map<number, string> {
+		const changed = new Map<number, string>();
+		for (const index of this.dirty) {
+			const text = encodeBase64(this.decoded.get(index)!);
+			this.encoded[index] = text;
+			changed.set(index, text);
+		}
+		this.dirty.clear();
+		return changed;
+	}
+
+	private loadChunk(index: number): number[] {
+		const cached = this.decoded.get(index);
+		if (cached) return cached;
+
+		const size = this.sectorsPerChunk * SECTOR_SIZE;
+		const chunk = this.encoded[index] !== "" ? decodeBase64(this.encoded[index]) : [];
+		if (chunk.size() !== 0 && chunk.size() !== size) {
+			throw `Chunk ${index} holds ${chunk.size()} bytes, expected ${size}`;
+		}
+		for (let i = chunk.size(); i < size; i++) {
+			chunk.push(0);
+		}
+
+		this.decoded.set(index, chunk);
+		return chunk;
+	}
+
+	private checkRange(lba: number): void {
+		if (lba < 0 || lba >= this.sectorCount) {
+			throw `Sector ${lba} is outside the ${this.sectorCount} sector image`;
+		}
+	}
+}
@@ -0,0 +1,41 @@
+/// <reference types="@rbxts/testez/globals" />
+import { MemoryBlockStore } from "./MemoryBlockStore";
+import { SECTOR_SIZE } from "./types";
+
+export = () => {
+	it("should read sectors that were never written as zeros", () => {
+		const store = new MemoryBlockStore(4);
+		const sector = store.readSector(3);
+		expect(sector.size()).to.equal(SECTOR_SIZE);
+		expect(sector[0]).to.equal(0);
+		expect(sector[SECTOR_SIZE - 1]).to.equal(0);
+	});
+
+	it("should pad short writes, mask bytes and hand out copies", () => {
+		const store = new MemoryBlockStore(4);
+		store.writeSector(1, [0x1ff, 2]);
+		const sector = store.readSector(1);
+		expect(sector[0]).to.equal(0xff);
+		expect(sector[1]).to.equal(2);
+		expect(sector[2]).to.equal(0);
+
+		sector[1] = 9;
+		expect(store.readSector(1)[1]).to.equal(2);
+	});
+
+	it("should round-trip raw images padded to whole sectors", () => {
+		const store = MemoryBlockStore.fromBytes([1, 2, 3], 2);
+		expect(store.getSectorCount()).to.equal(2);
+		const image = store.toBytes();
+		expect(image.size()).to.equal(2 * SECTOR_SIZE);
+		expect(image[2]).to.equal(3);
+		expect(image[3]).to.equal(0);
+		expect(MemoryBlockStore.fromBytes(image).getSectorCount()).to.equal(2);
+	});
+
+	it("should reject sectors outside the image", () => {
+		const store = new MemoryBlockStore(4);
+		expect(() => store.readSector(4)).to.throw("outside the 4 sector image");
+		expect(() => store.writeSector(-1, [])).to.throw("outside");
+	});
+};
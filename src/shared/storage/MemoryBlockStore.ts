@@ -0,0 +1,68 @@
+import { BlockStore, SECTOR_SIZE } from "./types";
+
+/**
+ * Memory Block Store
+ * Sparse in-memory disk image; sectors that were never written read as zeros
+ */
+export class MemoryBlockStore implements BlockStore {
+	private sectors = new Map<number, number[]>();
+	private sectorCount: number;
+
+	constructor(sectorCount: number) {
+		this.sectorCount = sectorCount;
+	}
+
+	/**
+	 * Build a store holding a raw image (padded with zeros to whole sectors)
+	 */
+	static fromBytes(image: ReadonlyArray<number>, sectorCount?: number): MemoryBlockStore {
+		const imageSectors = math.ceil(image.size() / SECTOR_SIZE);
+		const store = new MemoryBlockStore(sectorCount ?? imageSectors);
+		for (let lba = 0; lba < imageSectors; lba++) {
+			const sector: number[] = [];
+			for (let i = 0; i < SECTOR_SIZE; i++) {
+				sector.push(image[lba * SECTOR_SIZE + i] ?? 0);
+			}
+			store.writeSector(lba, sector);
+		}
+		return store;
+	}
+
+	getSectorCount(): number {
+		return this.sectorCount;
+	}
+
+	readSector(lba: number): number[] {
+		this.checkRange(lba);
+		const sector = this.sectors.get(lba);
+		return sector ? [...sector] : table.create(SECTOR_SIZE, 0);
+	}
+
+	writeSector(lba: number, data: ReadonlyArray<number>): void {
+		this.checkRange(lba);
+		const sector: number[] = [];
+		for (let i = 0; i < SECTOR_SIZE; i++) {
+			sector.push((data[i] ?? 0) & 0xff);
+		}
+		this.sectors.set(lba, sector);
+	}
+
+	/**
+	 * Copy the whole image out as raw bytes
+	 */
+	toBytes(): number[] {
+		const image: number[] = [];
+		for (let lba = 0; lba < this.sectorCount; lba++) {
+			for (const value of this.readSector(lba)) {
+				image.push(value);
+			}
+		}
+		return image;
+	}
+
+	private checkRange(lba: number): void {
+		if (lba < 0 || lba >= this.sectorCount) {
+			throw `Sector ${lba} is outside the ${this.sectorCount} sector image`;
+		}
+	}
+}
@@ -0,0 +1,14 @@
+/**
+ * Storage Type Definitions
+ * Backing stores for block devices
+ */
+
+// Bytes per sector of every block store
+export const SECTOR_SIZE = 512;
+
+// Sector-addressed storage; sectors are arrays of SECTOR_SIZE bytes
+export interface BlockStore {
+	getSectorCount(): number;
+	readSector(lba: number): number[];
+	writeSector(lba: number, data: ReadonlyArray<number>): void;
+}